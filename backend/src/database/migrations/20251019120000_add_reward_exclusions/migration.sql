@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "accelerated_rewards" ADD COLUMN     "exclusions" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "billingCycleSource" TEXT,
+ADD COLUMN     "billingPeriodEnd" TIMESTAMP(3),
+ADD COLUMN     "billingPeriodStart" TIMESTAMP(3),
+ADD COLUMN     "paymentDueDate" TIMESTAMP(3),
+ADD COLUMN     "statementDate" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "statementId" TEXT;
+
+-- CreateTable
+CREATE TABLE "statements" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "billingPeriodStart" TIMESTAMP(3),
+    "billingPeriodEnd" TIMESTAMP(3),
+    "statementDate" TIMESTAMP(3),
+    "paymentDueDate" TIMESTAMP(3),
+    "billingCycleSource" TEXT,
+    "transactionCount" INTEGER,
+    "duplicateCount" INTEGER,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "statements_sessionId_idx" ON "statements"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "transactions_statementId_idx" ON "transactions"("statementId");
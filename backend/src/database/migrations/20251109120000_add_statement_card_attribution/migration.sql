@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "statements" ADD COLUMN     "cardConfirmed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "cardDetectionConfidence" DECIMAL(3,2),
+ADD COLUMN     "cardId" TEXT,
+ADD COLUMN     "issuerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "sourceCardId" TEXT;
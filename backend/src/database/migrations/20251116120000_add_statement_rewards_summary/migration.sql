@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "statements" ADD COLUMN     "cardVariant" TEXT,
+ADD COLUMN     "cashbackCredited" DECIMAL(10,2),
+ADD COLUMN     "rewardsClosingPoints" DECIMAL(12,2),
+ADD COLUMN     "rewardsOpeningPoints" DECIMAL(12,2),
+ADD COLUMN     "rewardsPointsEarned" DECIMAL(12,2),
+ADD COLUMN     "rewardsPointsRedeemed" DECIMAL(12,2);
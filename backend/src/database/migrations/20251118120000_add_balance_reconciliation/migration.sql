@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "needsReview" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reconciliationScore" DECIMAL(3,2);
+
+-- AlterTable
+ALTER TABLE "statements" ADD COLUMN     "closingBalance" DECIMAL(12,2),
+ADD COLUMN     "previousBalance" DECIMAL(12,2),
+ADD COLUMN     "reconciliationScore" DECIMAL(3,2),
+ADD COLUMN     "reconciliationStatus" TEXT,
+ADD COLUMN     "totalCredits" DECIMAL(12,2),
+ADD COLUMN     "totalDebits" DECIMAL(12,2);
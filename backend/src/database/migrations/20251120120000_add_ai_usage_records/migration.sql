@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ai_usage_records" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "jobId" TEXT,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "tokensEstimated" BOOLEAN NOT NULL DEFAULT false,
+    "latencyMs" INTEGER NOT NULL,
+    "estimatedCost" DECIMAL(12,6) NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_sessionId_idx" ON "ai_usage_records"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_jobId_idx" ON "ai_usage_records"("jobId");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_createdAt_idx" ON "ai_usage_records"("createdAt");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "mcc_discovery_cache" (
+    "merchantKey" TEXT NOT NULL,
+    "mccCode" TEXT NOT NULL,
+    "mccDescription" TEXT NOT NULL,
+    "confidence" DECIMAL(3,2) NOT NULL,
+    "reasoning" TEXT,
+    "categoryName" TEXT,
+    "subCategoryName" TEXT,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mcc_discovery_cache_pkey" PRIMARY KEY ("merchantKey")
+);
+
+-- CreateIndex
+CREATE INDEX "mcc_discovery_cache_expiresAt_idx" ON "mcc_discovery_cache"("expiresAt");
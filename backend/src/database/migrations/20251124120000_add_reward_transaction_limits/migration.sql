@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "accelerated_rewards" ADD COLUMN     "maxRewardPerTransaction" DECIMAL(10,2),
+ADD COLUMN     "minTransactionAmount" DECIMAL(10,2);
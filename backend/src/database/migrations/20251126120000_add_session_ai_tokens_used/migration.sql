@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "aiTokensUsed" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill from the usage already recorded
+UPDATE "sessions" s
+SET "aiTokensUsed" = u."tokens"
+FROM (
+    SELECT "sessionId", SUM("inputTokens" + "outputTokens")::INTEGER AS "tokens"
+    FROM "ai_usage_records"
+    WHERE "sessionId" IS NOT NULL
+    GROUP BY "sessionId"
+) u
+WHERE s."id" = u."sessionId";
@@ -1,5 +1,6 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../../shared/utils/logger.util';
+import { DEFAULT_REWARD_EXCLUSIONS } from '../../shared/constants/recommendation.constants';
 
 /**
  * Comprehensive Indian Credit Cards Database - Consistent Structure
@@ -412,6 +413,12 @@ const INDIAN_CREDIT_CARDS = [
                     cappingLimit: null,
                     cappingPeriod: null,
                     description: 'Amazon.in purchases for Prime members',
+                    exclusions: [
+                        {
+                            categoryId: 'wallet_loads',
+                            description: 'Amazon Pay balance top-ups',
+                        },
+                    ],
                 },
                 {
                     categoryId: 'reward_cat_brand_specific',
@@ -421,6 +428,12 @@ const INDIAN_CREDIT_CARDS = [
                     cappingLimit: null,
                     cappingPeriod: null,
                     description: 'Amazon.in purchases for non-Prime members',
+                    exclusions: [
+                        {
+                            categoryId: 'wallet_loads',
+                            description: 'Amazon Pay balance top-ups',
+                        },
+                    ],
                 },
                 {
                     categoryId: 'reward_cat_brand_specific',
@@ -817,6 +830,16 @@ const INDIAN_CREDIT_CARDS = [
                     cappingLimit: 1000,
                     cappingPeriod: 'monthly',
                     description: '10 popular online brands',
+                    exclusions: [
+                        {
+                            categoryId: 'wallet_loads',
+                            description: 'Wallet top-ups on partner brands',
+                        },
+                        {
+                            categoryId: 'emi_transactions',
+                            description: 'EMI purchases on partner brands',
+                        },
+                    ],
                 },
             ],
 
@@ -843,6 +866,21 @@ const INDIAN_CREDIT_CARDS = [
                 },
             ],
 
+            redemptionOptions: [
+                {
+                    type: 'statement_credit',
+                    description: 'statement credit',
+                    conversionRate: 1.0,
+                    minimumPoints: 500,
+                },
+                {
+                    type: 'catalogue',
+                    description: 'the HDFC rewards catalogue',
+                    conversionRate: 0.3,
+                    minimumPoints: 500,
+                },
+            ],
+
             pointsConversion: {
                 isApplicable: true,
                 conversionRate: 1.0, // 1 CashPoint = Rs 1 for statement credit
@@ -1057,6 +1095,15 @@ const INDIAN_CREDIT_CARDS = [
                 },
             ],
 
+            redemptionOptions: [
+                {
+                    type: 'vouchers',
+                    description: 'purchases on the Tata Neu app',
+                    conversionRate: 1.0,
+                    minimumPoints: 100,
+                },
+            ],
+
             pointsConversion: {
                 isApplicable: true,
                 conversionRate: 1.0, // 1 NeuCoin = Rs 1 across Tata Neu ecosystem
@@ -1220,6 +1267,28 @@ const INDIAN_CREDIT_CARDS = [
                 },
             ],
 
+            redemptionOptions: [
+                {
+                    type: 'catalogue',
+                    description: 'the Gold catalogue',
+                    conversionRate: 0.65,
+                    minimumPoints: 1000,
+                },
+                {
+                    type: 'travel_booking',
+                    description: 'flights and hotels on SmartBuy',
+                    conversionRate: 0.5,
+                    minimumPoints: 1000,
+                },
+                {
+                    type: 'statement_credit',
+                    description: 'statement credit',
+                    conversionRate: 0.2,
+                    minimumPoints: 1000,
+                    fee: 99,
+                },
+            ],
+
             pointsConversion: {
                 isApplicable: true,
                 conversionRate: 0.65, // 1 RP = Rs 0.65 (Gold Catalogue)
@@ -1470,6 +1539,37 @@ const INDIAN_CREDIT_CARDS = [
                 },
             ],
 
+            redemptionOptions: [
+                {
+                    type: 'travel_booking',
+                    description: 'flights and hotels on SmartBuy',
+                    conversionRate: 1.0,
+                    minimumPoints: 1000,
+                },
+                {
+                    type: 'air_miles',
+                    description: 'airline and hotel transfer partners',
+                    conversionRate: 1.0,
+                    partnerUnitValue: 1.0,
+                    transferPartners: ['Singapore KrisFlyer', 'Air India Maharaja Club', 'Marriott Bonvoy', 'Accor Live Limitless'],
+                    minimumPoints: 1000,
+                    fee: 99,
+                },
+                {
+                    type: 'vouchers',
+                    description: 'vouchers and products',
+                    conversionRate: 0.5,
+                    minimumPoints: 1000,
+                },
+                {
+                    type: 'cashback',
+                    description: 'cashback to the card',
+                    conversionRate: 0.3,
+                    minimumPoints: 1000,
+                    fee: 99,
+                },
+            ],
+
             pointsConversion: {
                 isApplicable: true,
                 conversionRate: 1.0, // 1 RP = Rs 1 (flights/hotels)
@@ -1905,6 +2005,24 @@ const INDIAN_CREDIT_CARDS = [
                 },
             ],
 
+            redemptionOptions: [
+                {
+                    type: 'air_miles',
+                    description: 'Axis transfer partners (5:2)',
+                    conversionRate: 0.4,
+                    partnerUnitValue: 1.0,
+                    transferPartners: ['Singapore KrisFlyer', 'Air India Maharaja Club', 'Marriott Bonvoy', 'ITC Club'],
+                    minimumPoints: 1000,
+                    fee: 199,
+                },
+                {
+                    type: 'catalogue',
+                    description: 'the EDGE Rewards catalogue',
+                    conversionRate: 0.2,
+                    minimumPoints: 1000,
+                },
+            ],
+
             pointsConversion: {
                 isApplicable: true,
                 conversionRate: 0.20, // 1 EDGE point = Rs 0.20 (product catalog)
@@ -2305,6 +2423,22 @@ const INDIAN_CREDIT_CARDS = [
                 },
             ],
 
+            redemptionOptions: [
+                {
+                    type: 'statement_credit',
+                    description: 'statement credit',
+                    conversionRate: 0.25,
+                    minimumPoints: 1000,
+                    fee: 99,
+                },
+                {
+                    type: 'vouchers',
+                    description: 'the SBI Card rewards catalogue',
+                    conversionRate: 0.25,
+                    minimumPoints: 1000,
+                },
+            ],
+
             pointsConversion: {
                 isApplicable: true,
                 conversionRate: 0.25, // 1 Reward Point = Rs 0.25
@@ -2437,6 +2571,76 @@ const INDIAN_CREDIT_CARDS = [
     },
 ] as const;
 
+/**
+ * Attach the default MCC / category / merchant rules to each exclusion
+ * so the savings calculator can match transactions against them
+ */
+function withDefaultRules<T extends { categoryId: string }>(exclusions: readonly T[]): T[] {
+    return exclusions.map(exclusion => ({
+        ...DEFAULT_REWARD_EXCLUSIONS[exclusion.categoryId],
+        ...exclusion,
+    }));
+}
+
+function withExclusionRules<T extends { excludedCategories?: readonly { categoryId: string }[] }>(rewardStructure: T): T {
+    if (!rewardStructure.excludedCategories) {
+        return rewardStructure;
+    }
+
+    return {
+        ...rewardStructure,
+        excludedCategories: withDefaultRules(rewardStructure.excludedCategories),
+    };
+}
+
+/**
+ * Replace a card's accelerated reward records, skipping rewards whose reward category isn't seeded
+ */
+async function replaceAcceleratedRewards(
+    client: Prisma.TransactionClient,
+    card: (typeof INDIAN_CREDIT_CARDS)[number]
+): Promise<void> {
+    if (!card.rewardStructure?.acceleratedRewards) {
+        return;
+    }
+
+    // First, delete existing accelerated rewards for this card
+    await client.acceleratedReward.deleteMany({
+        where: { cardId: card.id },
+    });
+
+    // Then create new ones
+    for (const reward of card.rewardStructure.acceleratedRewards) {
+        // Check if reward category exists before creating accelerated reward
+        const rewardCategoryExists = await client.rewardCategory.findUnique({
+            where: { id: reward.categoryId }
+        });
+
+        if (!rewardCategoryExists) {
+            logger.warn(`Reward category ${reward.categoryId} not found for card ${card.name}. Skipping this accelerated reward.`);
+            continue;
+        }
+
+        const exclusions: Prisma.InputJsonValue | undefined = 'exclusions' in reward
+            ? withDefaultRules<{ categoryId: string; description: string }>(reward.exclusions)
+            : undefined;
+
+        await client.acceleratedReward.create({
+            data: {
+                cardId: card.id,
+                rewardCategoryId: reward.categoryId,
+                merchantPatterns: reward.merchantPatterns ? [...reward.merchantPatterns] : [],
+                rewardRate: reward.rewardRate,
+                conditions: reward.conditions ? [...reward.conditions] : [],
+                cappingLimit: reward.cappingLimit,
+                cappingPeriod: reward.cappingPeriod,
+                description: reward.description,
+                exclusions,
+            },
+        });
+    }
+}
+
 /**
  * Seed Indian credit cards database - COMPLETED VERSION
  */
@@ -2589,7 +2793,7 @@ export async function seedIndianCreditCards(prisma: PrismaClient): Promise<void>
                     lastUpdated: card.lastUpdated ? new Date(card.lastUpdated) : null,
                     feeStructure: card.feeStructure,
                     eligibilityRequirements: card.eligibilityRequirements,
-                    rewardStructure: card.rewardStructure,
+                    rewardStructure: withExclusionRules(card.rewardStructure),
                     additionalBenefits: card.additionalBenefits,
                     uniqueFeatures: [...card.uniqueFeatures],
                     popularityScore: card.popularityScore,
@@ -2613,7 +2817,7 @@ export async function seedIndianCreditCards(prisma: PrismaClient): Promise<void>
                     lastUpdated: card.lastUpdated ? new Date(card.lastUpdated) : null,
                     feeStructure: card.feeStructure,
                     eligibilityRequirements: card.eligibilityRequirements,
-                    rewardStructure: card.rewardStructure,
+                    rewardStructure: withExclusionRules(card.rewardStructure),
                     additionalBenefits: card.additionalBenefits,
                     uniqueFeatures: [...card.uniqueFeatures],
                     popularityScore: card.popularityScore,
@@ -2623,38 +2827,7 @@ export async function seedIndianCreditCards(prisma: PrismaClient): Promise<void>
             });
 
             // Create accelerated reward records for this card
-            if (card.rewardStructure?.acceleratedRewards) {
-                // First, delete existing accelerated rewards for this card
-                await prisma.acceleratedReward.deleteMany({
-                    where: { cardId: card.id },
-                });
-
-                // Then create new ones
-                for (const [index, reward] of card.rewardStructure.acceleratedRewards.entries()) {
-                    // Check if reward category exists before creating accelerated reward
-                    const rewardCategoryExists = await prisma.rewardCategory.findUnique({
-                        where: { id: reward.categoryId }
-                    });
-
-                    if (!rewardCategoryExists) {
-                        logger.warn(`Reward category ${reward.categoryId} not found for card ${card.name}. Skipping this accelerated reward.`);
-                        continue;
-                    }
-
-                    await prisma.acceleratedReward.create({
-                        data: {
-                            cardId: card.id,
-                            rewardCategoryId: reward.categoryId,
-                            merchantPatterns: reward.merchantPatterns ? [...reward.merchantPatterns] : [],
-                            rewardRate: reward.rewardRate,
-                            conditions: reward.conditions ? [...reward.conditions] : [],
-                            cappingLimit: reward.cappingLimit,
-                            cappingPeriod: reward.cappingPeriod,
-                            description: reward.description,
-                        },
-                    });
-                }
-            }
+            await replaceAcceleratedRewards(prisma, card);
 
             logger.info(`Seeded card: ${card.name}`);
         }
@@ -2732,64 +2905,60 @@ export async function seedIndianCreditCardsBatch(prisma: PrismaClient): Promise<
                 )
             ]);
 
-            // Then seed cards in batches
-            const batchSize = 10;
-            for (let i = 0; i < INDIAN_CREDIT_CARDS.length; i += batchSize) {
-                const batch = INDIAN_CREDIT_CARDS.slice(i, i + batchSize);
-                await Promise.all(
-                    batch.map(card =>
-                        tx.creditCard.upsert({
-                            where: { id: card.id },
-                            update: {
-                                name: card.name,
-                                slug: card.slug,
-                                issuerId: card.issuerId,
-                                networkId: card.networkId,
-                                categoryId: card.categoryId,
-                                subCategoryId: card.subCategoryId,
-                                description: card.description,
-                                iconName: card.iconName,
-                                color: card.color,
-                                isActive: card.isActive,
-                                isLifetimeFree: card.isLifetimeFree,
-                                launchDate: card.launchDate ? new Date(card.launchDate) : null,
-                                lastUpdated: card.lastUpdated ? new Date(card.lastUpdated) : null,
-                                feeStructure: card.feeStructure,
-                                eligibilityRequirements: card.eligibilityRequirements,
-                                rewardStructure: card.rewardStructure,
-                                additionalBenefits: card.additionalBenefits,
-                                uniqueFeatures: [...card.uniqueFeatures],
-                                popularityScore: card.popularityScore,
-                                customerSatisfactionScore: card.customerSatisfactionScore,
-                                recommendationScore: card.recommendationScore,
-                            },
-                            create: {
-                                id: card.id,
-                                name: card.name,
-                                slug: card.slug,
-                                issuerId: card.issuerId,
-                                networkId: card.networkId,
-                                categoryId: card.categoryId,
-                                subCategoryId: card.subCategoryId,
-                                description: card.description,
-                                iconName: card.iconName,
-                                color: card.color,
-                                isActive: card.isActive,
-                                isLifetimeFree: card.isLifetimeFree,
-                                launchDate: card.launchDate ? new Date(card.launchDate) : null,
-                                lastUpdated: card.lastUpdated ? new Date(card.lastUpdated) : null,
-                                feeStructure: card.feeStructure,
-                                eligibilityRequirements: card.eligibilityRequirements,
-                                rewardStructure: card.rewardStructure,
-                                additionalBenefits: card.additionalBenefits,
-                                uniqueFeatures: [...card.uniqueFeatures],
-                                popularityScore: card.popularityScore,
-                                customerSatisfactionScore: card.customerSatisfactionScore,
-                                recommendationScore: card.recommendationScore,
-                            }
-                        })
-                    )
-                );
+            // Then seed the cards one at a time; an interactive transaction runs its
+            // queries on a single connection, so issuing them in parallel gains nothing
+            for (const card of INDIAN_CREDIT_CARDS) {
+                await tx.creditCard.upsert({
+                    where: { id: card.id },
+                    update: {
+                        name: card.name,
+                        slug: card.slug,
+                        issuerId: card.issuerId,
+                        networkId: card.networkId,
+                        categoryId: card.categoryId,
+                        subCategoryId: card.subCategoryId,
+                        description: card.description,
+                        iconName: card.iconName,
+                        color: card.color,
+                        isActive: card.isActive,
+                        isLifetimeFree: card.isLifetimeFree,
+                        launchDate: card.launchDate ? new Date(card.launchDate) : null,
+                        lastUpdated: card.lastUpdated ? new Date(card.lastUpdated) : null,
+                        feeStructure: card.feeStructure,
+                        eligibilityRequirements: card.eligibilityRequirements,
+                        rewardStructure: withExclusionRules(card.rewardStructure),
+                        additionalBenefits: card.additionalBenefits,
+                        uniqueFeatures: [...card.uniqueFeatures],
+                        popularityScore: card.popularityScore,
+                        customerSatisfactionScore: card.customerSatisfactionScore,
+                        recommendationScore: card.recommendationScore,
+                    },
+                    create: {
+                        id: card.id,
+                        name: card.name,
+                        slug: card.slug,
+                        issuerId: card.issuerId,
+                        networkId: card.networkId,
+                        categoryId: card.categoryId,
+                        subCategoryId: card.subCategoryId,
+                        description: card.description,
+                        iconName: card.iconName,
+                        color: card.color,
+                        isActive: card.isActive,
+                        isLifetimeFree: card.isLifetimeFree,
+                        launchDate: card.launchDate ? new Date(card.launchDate) : null,
+                        lastUpdated: card.lastUpdated ? new Date(card.lastUpdated) : null,
+                        feeStructure: card.feeStructure,
+                        eligibilityRequirements: card.eligibilityRequirements,
+                        rewardStructure: withExclusionRules(card.rewardStructure),
+                        additionalBenefits: card.additionalBenefits,
+                        uniqueFeatures: [...card.uniqueFeatures],
+                        popularityScore: card.popularityScore,
+                        customerSatisfactionScore: card.customerSatisfactionScore,
+                        recommendationScore: card.recommendationScore,
+                    }
+                });
+                await replaceAcceleratedRewards(tx, card);
             }
         });
     } catch (error) {
@@ -1,9 +1,11 @@
 import { Request, Response } from 'express';
 import { SessionService } from './session.service';
+import type { Prisma, Statement } from '@prisma/client';
 import { prisma } from '@/database/db';
 import { logger } from '@/shared/utils/logger.util';
 import { ApiError } from '@/shared/utils/api-error.util';
 import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
 import { asyncHandler } from '@/shared/utils/async-handler.util';
 import { sendResponse } from '@/shared/utils/response.util';
 import fs from 'fs/promises';
@@ -11,6 +13,12 @@ import fs from 'fs/promises';
 import { backgroundJobsService } from '@/shared/services/background-jobs.service';
 import { fileValidationService } from '@/shared/services/file-validation.service';
 import { recommendationService } from '@/shared/services/recommendation.service';
+import { billingCycleService } from '@/shared/services/billing-cycle.service';
+import { cardDetectionService } from '@/shared/services/card-detection.service';
+import { pdfParserService } from '@/shared/services/pdf-parser.service';
+import { aiUsageService } from '@/shared/services/ai-usage.service';
+import type { UserProfile } from '@/shared/types/recommendation.types';
+import { CardNetwork, CreditScore, RedemptionStyle } from '@/shared/constants/recommendation.constants';
 
 export class SessionController {
     private sessionService: SessionService;
@@ -41,17 +49,21 @@ export class SessionController {
     });
 
     /**
-     * Upload PDF file for processing
+     * Upload one or more statement PDFs for processing
      * POST /api/v1/sessions/:sessionToken/upload
      */
     uploadPDF = asyncHandler(async (req: Request, res: Response) => {
         const { sessionToken } = req.params;
-        const uploadedFile = req.file;
+        const uploadedFiles = (req.files as Express.Multer.File[] | undefined) ?? [];
+        // Optional password for protected statements, tried on every file in the upload
+        const password = typeof req.body?.password === 'string' && req.body.password.length > 0
+            ? req.body.password as string
+            : undefined;
 
         logger.info('PDF upload initiated', {
             sessionToken,
-            file: uploadedFile?.originalname,
-            size: uploadedFile?.size,
+            files: uploadedFiles.map((file) => file.originalname),
+            totalSize: uploadedFiles.reduce((sum, file) => sum + file.size, 0),
             ip: req.ip,
         });
 
@@ -61,36 +73,28 @@ export class SessionController {
         }
 
         // Validate file upload
-        if (!uploadedFile) {
-            throw new ApiError('PDF file is required', StatusCodes.BAD_REQUEST);
+        if (uploadedFiles.length === 0) {
+            throw new ApiError('At least one PDF file is required', StatusCodes.BAD_REQUEST);
         }
 
         // Verify session exists and is active
         const session = await this.sessionService.getSessionByToken(sessionToken);
         if (!session) {
-            // Clean up uploaded file if session is invalid
-            try {
-                await fs.unlink(uploadedFile.path);
-            } catch (error) {
-                logger.warn(
-                    'Failed to cleanup uploaded file after session validation failure',
-                    error,
-                );
-            }
+            // Clean up uploaded files if session is invalid
+            await this.cleanupUploadedFiles(
+                uploadedFiles,
+                'Failed to cleanup uploaded file after session validation failure',
+            );
             throw new ApiError('Session not found or expired', StatusCodes.NOT_FOUND);
         }
 
         // Check if session is in correct state for upload
         if (session.status !== 'uploading') {
-            // Clean up uploaded file
-            try {
-                await fs.unlink(uploadedFile.path);
-            } catch (error) {
-                logger.warn(
-                    'Failed to cleanup uploaded file after status check failure',
-                    error,
-                );
-            }
+            // Clean up uploaded files
+            await this.cleanupUploadedFiles(
+                uploadedFiles,
+                'Failed to cleanup uploaded file after status check failure',
+            );
             throw new ApiError(
                 `Session is not ready for upload. Current status: ${session.status}`,
                 StatusCodes.BAD_REQUEST,
@@ -98,29 +102,29 @@ export class SessionController {
         }
 
         try {
-            // Perform comprehensive file validation
-            const validationResult = await fileValidationService.validateFile(
-                uploadedFile.path,
-                {
-                    originalName: uploadedFile.originalname,
-                    size: uploadedFile.size,
-                    uploadedAt: new Date(),
-                    sessionToken,
-                    clientIP: req.ip,
-                    userAgent: req.get('User-Agent'),
-                },
+            // Perform comprehensive file validation on every statement
+            const validationResults = await Promise.all(
+                uploadedFiles.map((file) =>
+                    fileValidationService.validateFile(file.path, {
+                        originalName: file.originalname,
+                        size: file.size,
+                        uploadedAt: new Date(),
+                        sessionToken,
+                        clientIP: req.ip,
+                        userAgent: req.get('User-Agent'),
+                    }),
+                ),
             );
 
-            // Check validation result
-            if (!validationResult.isValid) {
-                // Clean up uploaded file
-                try {
-                    await fs.unlink(uploadedFile.path);
-                } catch (cleanupError) {
-                    logger.warn('Failed to cleanup invalid file', cleanupError);
-                }
+            // Check validation results; one bad statement rejects the whole upload
+            const invalidFiles = validationResults
+                .map((result, index) => ({ result, file: uploadedFiles[index] }))
+                .filter(({ result }) => !result.isValid);
 
-                const errorMessage = validationResult.errors.join('; ');
+            if (invalidFiles.length > 0) {
+                const errorMessage = invalidFiles
+                    .map(({ result, file }) => `${file.originalname}: ${result.errors.join('; ')}`)
+                    .join(' | ');
                 throw new ApiError(
                     `File validation failed: ${errorMessage}`,
                     StatusCodes.BAD_REQUEST,
@@ -128,82 +132,130 @@ export class SessionController {
             }
 
             // Log validation warnings if any
-            if (validationResult.warnings.length > 0) {
-                logger.warn('File validation warnings', {
-                    sessionToken,
-                    warnings: validationResult.warnings,
-                    recommendations: validationResult.recommendations,
-                });
-            }
+            validationResults.forEach((result, index) => {
+                if (result.warnings.length > 0) {
+                    logger.warn('File validation warnings', {
+                        sessionToken,
+                        fileName: uploadedFiles[index].originalname,
+                        warnings: result.warnings,
+                        recommendations: result.recommendations,
+                    });
+                }
+            });
 
-            // Store file path in session with validation info
+            // Store the first file on the session for single-statement consumers
             await prisma.session.update({
                 where: { id: session.id },
                 data: {
-                    filePath: uploadedFile.path,
-                    fileName: uploadedFile.originalname,
-                    fileSize: uploadedFile.size,
+                    filePath: uploadedFiles[0].path,
+                    fileName: uploadedFiles[0].originalname,
+                    fileSize: uploadedFiles[0].size,
                 },
             });
 
-            // Queue background processing job
-            const jobId = await backgroundJobsService.queuePDFProcessingJob({
-                sessionId: session.id,
-                sessionToken: session.sessionToken,
-                filePath: uploadedFile.path,
-                fileName: uploadedFile.originalname,
-                fileSize: uploadedFile.size,
-                priority: 1, // High priority for user uploads
-            });
+            // One statement per file. Locked statements are kept and wait for their
+            // password instead of being queued. Statements are created one at a time
+            // so they keep the upload order
+            const passwordErrors = await Promise.all(
+                uploadedFiles.map((file) => this.getPasswordError(file.path, password)),
+            );
+            const created = await uploadedFiles.reduce(
+                async (pending, file, index) => {
+                    const previous = await pending;
+                    const passwordError = passwordErrors[index];
+                    const statement = await prisma.statement.create({
+                        data: {
+                            sessionId: session.id,
+                            filePath: file.path,
+                            fileName: file.originalname,
+                            fileSize: file.size,
+                            status: passwordError ? 'password_required' : 'queued',
+                            errorMessage: passwordError?.message ?? null,
+                        },
+                    });
 
-            // Update session status to queued
+                    return [...previous, { file, statement, passwordError }];
+                },
+                Promise.resolve<{ file: Express.Multer.File; statement: Statement; passwordError: ApiError | null }[]>([]),
+            );
+
+            // Queue the session before any job can finish and claim it for analysis.
+            // Every statement exists by now, so a fast job can't analyze without the rest
             await this.sessionService.updateProgress(
                 session.id,
                 'queued',
                 5,
-                'PDF uploaded successfully, queued for processing',
+                `${uploadedFiles.length} statement(s) uploaded successfully, queued for processing`,
             );
 
-            logger.info(`PDF uploaded and queued for processing`, {
+            const statements = await Promise.all(created.map(async ({ file, statement, passwordError }) => ({
+                statement,
+                jobId: passwordError
+                    ? null
+                    : await backgroundJobsService.queuePDFProcessingJob({
+                        sessionId: session.id,
+                        sessionToken: session.sessionToken,
+                        statementId: statement.id,
+                        filePath: file.path,
+                        fileName: file.originalname,
+                        fileSize: file.size,
+                        password,
+                        priority: 1, // High priority for user uploads
+                    }),
+                errorCode: passwordError?.code,
+            })));
+
+            logger.info(`PDFs uploaded and queued for processing`, {
                 sessionToken,
-                jobId,
-                filename: uploadedFile.filename,
-                originalName: uploadedFile.originalname,
-                size: uploadedFile.size,
-                path: uploadedFile.path,
+                statements: statements.map(({ statement, jobId }) => ({
+                    statementId: statement.id,
+                    jobId,
+                    originalName: statement.fileName,
+                    size: statement.fileSize,
+                })),
             });
 
             sendResponse(res, {
                 status: StatusCodes.OK,
-                message: 'PDF uploaded successfully and queued for processing',
+                message: `${uploadedFiles.length} statement(s) uploaded successfully and queued for processing`,
                 data: {
                     sessionToken: session.sessionToken,
                     status: 'queued',
                     progress: 5,
-                    fileName: uploadedFile.originalname,
-                    fileSize: uploadedFile.size,
-                    jobId,
+                    fileName: uploadedFiles[0].originalname,
+                    fileSize: uploadedFiles[0].size,
+                    jobId: statements.find(({ jobId }) => jobId)?.jobId ?? null,
+                    passwordRequired: statements.some(({ errorCode }) => errorCode),
                     uploadedAt: new Date().toISOString(),
                     estimatedProcessingTime: '2-5 minutes',
+                    statements: statements.map(({ statement, jobId, errorCode }, index) => ({
+                        id: statement.id,
+                        fileName: statement.fileName,
+                        fileSize: statement.fileSize,
+                        status: statement.status,
+                        jobId,
+                        errorCode,
+                        errorMessage: statement.errorMessage,
+                        validation: {
+                            passed: validationResults[index].isValid,
+                            warnings: validationResults[index].warnings,
+                        },
+                    })),
                     validation: {
-                        passed: validationResult.isValid,
-                        warnings: validationResult.warnings,
-                        recommendations: validationResult.recommendations,
-                        fileInfo: validationResult.fileInfo,
-                        pdfInfo: validationResult.pdfInfo,
+                        passed: validationResults[0].isValid,
+                        warnings: validationResults[0].warnings,
+                        recommendations: validationResults[0].recommendations,
+                        fileInfo: validationResults[0].fileInfo,
+                        pdfInfo: validationResults[0].pdfInfo,
                     },
                 },
             });
         } catch (error) {
-            // Clean up uploaded file on error
-            try {
-                await fs.unlink(uploadedFile.path);
-            } catch (cleanupError) {
-                logger.warn(
-                    'Failed to cleanup uploaded file after processing error',
-                    cleanupError,
-                );
-            }
+            // Clean up uploaded files on error
+            await this.cleanupUploadedFiles(
+                uploadedFiles,
+                'Failed to cleanup uploaded file after processing error',
+            );
 
             // Update session to failed state
             await this.sessionService.failSession(
@@ -239,6 +291,12 @@ export class SessionController {
         const activeJob =
             jobs.find((j) => ['queued', 'processing'].includes(j.status)) || jobs[0];
 
+        // AI tokens and estimated cost, per job and for the session against its budget
+        const [jobUsage, aiUsage] = await Promise.all([
+            aiUsageService.getJobUsage(jobs.map((job) => job.id)),
+            aiUsageService.getSessionUsage(session.id),
+        ]);
+
         sendResponse(res, {
             status: StatusCodes.OK,
             message: 'Job status retrieved successfully',
@@ -257,6 +315,7 @@ export class SessionController {
                         startedAt: activeJob.startedAt,
                         completedAt: activeJob.completedAt,
                         errorMessage: activeJob.errorMessage,
+                        aiUsage: jobUsage.get(activeJob.id) ?? null,
                     }
                     : null,
                 allJobs: jobs.map((job) => ({
@@ -266,7 +325,9 @@ export class SessionController {
                     progress: job.progress,
                     queuedAt: job.queuedAt,
                     completedAt: job.completedAt,
+                    aiUsage: jobUsage.get(job.id) ?? null,
                 })),
+                aiUsage,
             },
         });
     });
@@ -288,6 +349,8 @@ export class SessionController {
             throw new ApiError('Session not found or expired', StatusCodes.NOT_FOUND);
         }
 
+        const statements = await this.getStatementSummaries(session.id);
+
         sendResponse(res, {
             status: StatusCodes.OK,
             message: 'Session status retrieved successfully',
@@ -303,6 +366,179 @@ export class SessionController {
                 newMccDiscovered: session.newMccDiscovered,
                 expiresAt: session.expiresAt,
                 errorMessage: session.errorMessage,
+                // Set when extracted transactions don't reconcile with the statement totals
+                needsReview: session.needsReview,
+                reconciliationScore: session.reconciliationScore ?? null,
+                statements,
+                // Catalog cards the user can pick from when confirming a statement's card
+                cardOptions: statements.length > 0
+                    ? await prisma.creditCard.findMany({
+                        where: { isActive: true },
+                        orderBy: { name: 'asc' },
+                        select: { id: true, slug: true, name: true, issuer: { select: { name: true } } },
+                    })
+                    : [],
+            },
+        });
+    });
+
+    /**
+     * Unlock a password-protected statement and queue it for processing; the file
+     * is already on the server, so nothing is re-uploaded
+     * POST /api/v1/sessions/:sessionToken/statements/:statementId/password
+     */
+    unlockStatement = asyncHandler(async (req: Request, res: Response) => {
+        const { sessionToken, statementId } = req.params;
+        const { password } = req.body ?? {};
+
+        if (!sessionToken || !statementId) {
+            throw new ApiError('Session token and statement id are required', StatusCodes.BAD_REQUEST);
+        }
+
+        if (typeof password !== 'string' || password.length === 0) {
+            throw new ApiError('Password is required', StatusCodes.BAD_REQUEST, ERROR_CODES.PDF_PASSWORD_REQUIRED);
+        }
+
+        const session = await this.sessionService.getSessionByToken(sessionToken);
+        if (!session) {
+            throw new ApiError('Session not found or expired', StatusCodes.NOT_FOUND);
+        }
+
+        const statement = await prisma.statement.findFirst({
+            where: { id: statementId, sessionId: session.id },
+        });
+        if (!statement) {
+            throw new ApiError('Statement not found', StatusCodes.NOT_FOUND);
+        }
+
+        if (statement.status !== 'password_required') {
+            throw new ApiError(
+                `Statement is not waiting for a password. Current status: ${statement.status}`,
+                StatusCodes.CONFLICT,
+            );
+        }
+
+        // Throws PDF_PASSWORD_INCORRECT so the client can prompt again
+        await pdfParserService.verifyPassword(statement.filePath, password);
+
+        await prisma.statement.update({
+            where: { id: statement.id },
+            data: { status: 'queued', errorMessage: null },
+        });
+
+        const jobId = await backgroundJobsService.queuePDFProcessingJob({
+            sessionId: session.id,
+            sessionToken: session.sessionToken,
+            statementId: statement.id,
+            filePath: statement.filePath,
+            fileName: statement.fileName,
+            fileSize: statement.fileSize,
+            password,
+            priority: 1,
+        });
+
+        logger.info('Password-protected statement unlocked and queued', {
+            sessionToken,
+            statementId: statement.id,
+            jobId,
+        });
+
+        sendResponse(res, {
+            status: StatusCodes.OK,
+            message: 'Statement unlocked and queued for processing',
+            data: {
+                id: statement.id,
+                fileName: statement.fileName,
+                status: 'queued',
+                jobId,
+            },
+        });
+    });
+
+    /**
+     * Leave a password-protected statement out so the session's other statements
+     * can be analyzed without it
+     * POST /api/v1/sessions/:sessionToken/statements/:statementId/skip
+     */
+    skipStatement = asyncHandler(async (req: Request, res: Response) => {
+        const { sessionToken, statementId } = req.params;
+
+        if (!sessionToken || !statementId) {
+            throw new ApiError('Session token and statement id are required', StatusCodes.BAD_REQUEST);
+        }
+
+        const session = await this.sessionService.getSessionByToken(sessionToken);
+        if (!session) {
+            throw new ApiError('Session not found or expired', StatusCodes.NOT_FOUND);
+        }
+
+        const statement = await prisma.statement.findFirst({
+            where: { id: statementId, sessionId: session.id },
+        });
+        if (!statement) {
+            throw new ApiError('Statement not found', StatusCodes.NOT_FOUND);
+        }
+
+        if (statement.status !== 'password_required') {
+            throw new ApiError(
+                `Statement is not waiting for a password. Current status: ${statement.status}`,
+                StatusCodes.CONFLICT,
+            );
+        }
+
+        await prisma.statement.update({
+            where: { id: statement.id },
+            data: { status: 'skipped' },
+        });
+
+        // This may have been the last statement holding up the analysis
+        await backgroundJobsService.queueSessionAnalysisIfReady(session.id);
+
+        logger.info('Password-protected statement skipped', {
+            sessionToken,
+            statementId: statement.id,
+        });
+
+        sendResponse(res, {
+            status: StatusCodes.OK,
+            message: 'Statement skipped',
+            data: {
+                id: statement.id,
+                fileName: statement.fileName,
+                status: 'skipped',
+            },
+        });
+    });
+
+    /**
+     * Confirm or correct the card a statement belongs to
+     * PATCH /api/v1/sessions/:sessionToken/statements/:statementId/card
+     */
+    confirmStatementCard = asyncHandler(async (req: Request, res: Response) => {
+        const { sessionToken, statementId } = req.params;
+        const { cardId } = req.body ?? {};
+
+        if (!sessionToken || !statementId) {
+            throw new ApiError('Session token and statement id are required', StatusCodes.BAD_REQUEST);
+        }
+
+        if (typeof cardId !== 'string' || cardId.length === 0) {
+            throw new ApiError('cardId (card id or slug) is required', StatusCodes.BAD_REQUEST);
+        }
+
+        const session = await this.sessionService.getSessionByToken(sessionToken);
+        if (!session) {
+            throw new ApiError('Session not found or expired', StatusCodes.NOT_FOUND);
+        }
+
+        const card = await cardDetectionService.confirmCard(session.id, statementId, cardId);
+
+        sendResponse(res, {
+            status: StatusCodes.OK,
+            message: 'Statement card confirmed',
+            data: {
+                statementId,
+                ...card,
             },
         });
     });
@@ -485,7 +721,7 @@ export class SessionController {
     getSessionRecommendations = asyncHandler(
         async (req: Request, res: Response) => {
             const { sessionToken } = req.params;
-            const { creditScore, maxAnnualFee, preferredNetwork, includeBusinessCards } = req.query;
+            const { creditScore, maxAnnualFee, preferredNetwork, includeBusinessCards, ownedCards } = req.query;
 
             if (!sessionToken) {
                 throw new ApiError(
@@ -519,6 +755,12 @@ export class SessionController {
                         maxAnnualFee: maxAnnualFee ? Number(maxAnnualFee) : undefined,
                         preferredNetwork: preferredNetwork as any,
                         includeBusinessCards: includeBusinessCards === 'true',
+                        userProfile: this.parseUserProfile(req.query),
+                        ownedCardSlugs: typeof ownedCards === 'string' && ownedCards.length > 0
+                            ? ownedCards.split(',').map(slug => slug.trim()).filter(Boolean)
+                            : undefined,
+                        redemptionStyle: this.parseRedemptionStyle(req.query.redemptionStyle),
+                        horizonYears: req.query.horizonYears ? Number(req.query.horizonYears) : undefined,
                     }
                 );
 
@@ -618,6 +860,8 @@ export class SessionController {
                                 conditions: reward.conditions,
                                 cappingLimit: reward.cappingLimit ? Number(reward.cappingLimit) : null,
                                 cappingPeriod: reward.cappingPeriod,
+                                minTransactionAmount: reward.minTransactionAmount ? Number(reward.minTransactionAmount) : null,
+                                maxRewardPerTransaction: reward.maxRewardPerTransaction ? Number(reward.maxRewardPerTransaction) : null,
                                 description: reward.description
                             }))
                         }
@@ -627,12 +871,8 @@ export class SessionController {
                 // Limit to top 3 recommendations
                 const top3Recommendations = enhancedRecommendations.slice(0, 3);
 
-                // Get statement period dates from transactions
-                const transactionDates = await prisma.transaction.aggregate({
-                    where: { sessionId: session.id },
-                    _min: { date: true },
-                    _max: { date: true }
-                });
+                // Billing cycle the analysis covers
+                const billingCycle = await billingCycleService.getForSession(session.id);
 
                 sendResponse(res, {
                     status: StatusCodes.OK,
@@ -646,12 +886,16 @@ export class SessionController {
                         totalCards: recommendationResult.totalCards,
                         processingTimeMs: recommendationResult.processingTimeMs,
                         generatedAt: recommendationResult.generatedAt,
+                        currentCards: recommendationResult.currentCards,
                         sessionSummary: {
                             totalSpend: Number(session.totalSpend || 0),
                             topCategory: session.topCategory,
                             totalTransactions: session.totalTransactions,
-                            statementStartDate: transactionDates._min.date,
-                            statementEndDate: transactionDates._max.date,
+                            statementStartDate: billingCycle?.periodStart,
+                            statementEndDate: billingCycle?.periodEnd,
+                            statementDate: billingCycle?.statementDate,
+                            paymentDueDate: billingCycle?.paymentDueDate,
+                            billingCycleSource: billingCycle?.source,
                         },
                     },
                 });
@@ -666,12 +910,8 @@ export class SessionController {
                 const storedRecommendations = await recommendationService.getSessionRecommendations(session.id);
                 const top3StoredRecs = storedRecommendations.slice(0, 3);
 
-                // Get statement period dates from transactions
-                const transactionDates = await prisma.transaction.aggregate({
-                    where: { sessionId: session.id },
-                    _min: { date: true },
-                    _max: { date: true }
-                });
+                // Billing cycle the analysis covers
+                const billingCycle = await billingCycleService.getForSession(session.id);
 
                 sendResponse(res, {
                     status: StatusCodes.OK,
@@ -686,8 +926,11 @@ export class SessionController {
                             totalSpend: Number(session.totalSpend || 0),
                             topCategory: session.topCategory,
                             totalTransactions: session.totalTransactions,
-                            statementStartDate: transactionDates._min.date,
-                            statementEndDate: transactionDates._max.date,
+                            statementStartDate: billingCycle?.periodStart,
+                            statementEndDate: billingCycle?.periodEnd,
+                            statementDate: billingCycle?.statementDate,
+                            paymentDueDate: billingCycle?.paymentDueDate,
+                            billingCycleSource: billingCycle?.source,
                         },
                     },
                 });
@@ -758,12 +1001,250 @@ export class SessionController {
      * GET /api/v1/sessions/stats
      */
     getSessionStats = asyncHandler(async (req: Request, res: Response) => {
-        const stats = await this.sessionService.getSessionStats();
+        const [stats, aiUsage] = await Promise.all([
+            this.sessionService.getSessionStats(),
+            aiUsageService.getUsageStats(),
+        ]);
 
         sendResponse(res, {
             status: StatusCodes.OK,
             message: 'Session statistics retrieved successfully',
-            data: stats,
+            data: { ...stats, aiUsage },
+        });
+    });
+
+    /**
+     * Get the per-transaction earnings ledger for one card
+     * GET /api/v1/sessions/:sessionToken/recommendations/:cardId/ledger
+     */
+    getCardLedger = asyncHandler(async (req: Request, res: Response) => {
+        const { sessionToken, cardId } = req.params;
+
+        if (!sessionToken || !cardId) {
+            throw new ApiError(
+                'Session token and card id are required',
+                StatusCodes.BAD_REQUEST,
+            );
+        }
+
+        const session = await this.sessionService.getSessionByToken(sessionToken);
+
+        if (!session) {
+            throw new ApiError(
+                'Session not found or expired',
+                StatusCodes.NOT_FOUND,
+            );
+        }
+
+        if (session.status !== 'completed') {
+            throw new ApiError(
+                'Recommendations not yet available',
+                StatusCodes.BAD_REQUEST,
+            );
+        }
+
+        const ledger = await recommendationService.getTransactionLedger(session.id, cardId, {
+            userProfile: this.parseUserProfile(req.query),
+            redemptionStyle: this.parseRedemptionStyle(req.query.redemptionStyle),
+        });
+
+        sendResponse(res, {
+            status: StatusCodes.OK,
+            message: 'Transaction ledger retrieved successfully',
+            data: ledger,
+        });
+    });
+
+    /**
+     * Get the best 2-3 card portfolio and spend routing for a session
+     */
+    getSessionPortfolio = asyncHandler(async (req: Request, res: Response) => {
+        const { sessionToken } = req.params;
+        const { creditScore, maxAnnualFee, preferredNetwork, maxCards } = req.query;
+
+        if (!sessionToken) {
+            throw new ApiError(
+                'Session token is required',
+                StatusCodes.BAD_REQUEST,
+            );
+        }
+
+        const session = await this.sessionService.getSessionByToken(sessionToken);
+
+        if (!session) {
+            throw new ApiError(
+                'Session not found or expired',
+                StatusCodes.NOT_FOUND,
+            );
+        }
+
+        if (session.status !== 'completed') {
+            throw new ApiError(
+                'Recommendations not yet available',
+                StatusCodes.BAD_REQUEST,
+            );
+        }
+
+        const maxCardsValue = maxCards ? Number(maxCards) : undefined;
+        if (maxCardsValue !== undefined && !Number.isInteger(maxCardsValue)) {
+            throw new ApiError(
+                'maxCards must be a whole number',
+                StatusCodes.BAD_REQUEST,
+            );
+        }
+
+        const portfolio = await recommendationService.generatePortfolio(session.id, {
+            creditScore: this.parseCreditScore(creditScore),
+            maxAnnualFee: maxAnnualFee ? Number(maxAnnualFee) : undefined,
+            preferredNetwork: this.parseCardNetwork(preferredNetwork),
+            maxCards: maxCardsValue,
+            userProfile: this.parseUserProfile(req.query),
+            redemptionStyle: this.parseRedemptionStyle(req.query.redemptionStyle),
+        });
+
+        sendResponse(res, {
+            status: StatusCodes.OK,
+            message: 'Card portfolio generated successfully',
+            data: portfolio,
         });
     });
+
+    /**
+     * Statements in upload order, with the card each was attributed to
+     */
+    private async getStatementSummaries(sessionId: string) {
+        const statements = await prisma.statement.findMany({
+            where: { sessionId },
+            orderBy: { createdAt: 'asc' },
+            select: {
+                id: true,
+                fileName: true,
+                status: true,
+                billingPeriodStart: true,
+                billingPeriodEnd: true,
+                transactionCount: true,
+                duplicateCount: true,
+                errorMessage: true,
+                cardId: true,
+                cardDetectionConfidence: true,
+                cardConfirmed: true,
+                cardVariant: true,
+                rewardsPointsEarned: true,
+                rewardsPointsRedeemed: true,
+                rewardsClosingPoints: true,
+                cashbackCredited: true,
+                reconciliationStatus: true,
+                reconciliationScore: true,
+            },
+        });
+
+        const cardIds = statements
+            .map((statement) => statement.cardId)
+            .filter((cardId): cardId is string => Boolean(cardId));
+        const cards = cardIds.length > 0
+            ? await prisma.creditCard.findMany({
+                where: { id: { in: cardIds } },
+                select: { id: true, slug: true, name: true, issuer: { select: { name: true } } },
+            })
+            : [];
+
+        const toNumber = (value: Prisma.Decimal | null) => (value !== null ? Number(value) : null);
+
+        return statements.map(({
+            cardDetectionConfidence,
+            rewardsPointsEarned,
+            rewardsPointsRedeemed,
+            rewardsClosingPoints,
+            cashbackCredited,
+            reconciliationScore,
+            ...statement
+        }) => ({
+            ...statement,
+            cardDetectionConfidence: toNumber(cardDetectionConfidence),
+            rewardsSummary: {
+                pointsEarned: toNumber(rewardsPointsEarned),
+                pointsRedeemed: toNumber(rewardsPointsRedeemed),
+                closingPoints: toNumber(rewardsClosingPoints),
+                cashbackCredited: toNumber(cashbackCredited),
+            },
+            reconciliationScore: toNumber(reconciliationScore),
+            card: cards.find((card) => card.id === statement.cardId) ?? null,
+        }));
+    }
+
+    /**
+     * The password error a file would hit when parsed, if any
+     */
+    private async getPasswordError(filePath: string, password?: string): Promise<ApiError | null> {
+        try {
+            await pdfParserService.verifyPassword(filePath, password);
+            return null;
+        } catch (error) {
+            if (error instanceof ApiError && error.code) {
+                return error;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Remove uploaded files that won't be processed
+     */
+    private async cleanupUploadedFiles(files: Express.Multer.File[], warning: string): Promise<void> {
+        await Promise.all(files.map(async (file) => {
+            try {
+                await fs.unlink(file.path);
+            } catch (error) {
+                logger.warn(warning, error);
+            }
+        }));
+    }
+
+    /**
+     * Accept only known credit score bands and networks; unknown values are ignored
+     */
+    private parseCreditScore(value: unknown): CreditScore | undefined {
+        return Object.values(CreditScore).includes(value as CreditScore)
+            ? value as CreditScore
+            : undefined;
+    }
+
+    private parseCardNetwork(value: unknown): CardNetwork | undefined {
+        return Object.values(CardNetwork).includes(value as CardNetwork)
+            ? value as CardNetwork
+            : undefined;
+    }
+
+    /**
+     * Accept only known redemption styles; the calculator defaults to cash-like
+     */
+    private parseRedemptionStyle(value: unknown): RedemptionStyle | undefined {
+        return Object.values(RedemptionStyle).includes(value as RedemptionStyle)
+            ? value as RedemptionStyle
+            : undefined;
+    }
+
+    /**
+     * Build the reward-condition profile from recommendation query params
+     */
+    private parseUserProfile(query: Request['query']): UserProfile {
+        const toList = (value: unknown): string[] | undefined =>
+            typeof value === 'string' && value.length > 0
+                ? value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+                : undefined;
+        const toString = (value: unknown): string | undefined =>
+            typeof value === 'string' && value.length > 0 ? value : undefined;
+
+        return {
+            memberships: toList(query.memberships),
+            cardApprovalDate: toString(query.cardApprovalDate),
+            usesIssuerTravelPortals: query.usesIssuerTravelPortals === 'true',
+            paymentApps: toList(query.paymentApps),
+            devicePlatform: query.devicePlatform === 'ios' || query.devicePlatform === 'android'
+                ? query.devicePlatform
+                : undefined,
+            cardVariant: toString(query.cardVariant),
+            birthDate: toString(query.birthDate),
+        };
+    }
 }
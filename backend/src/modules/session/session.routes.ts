@@ -52,6 +52,35 @@ const sessionController = new SessionController();
  *         errorMessage:
  *           type: string
  *           description: Error message if processing failed
+ *         needsReview:
+ *           type: boolean
+ *           description: True when extracted transactions don't reconcile with a statement's printed totals
+ *         reconciliationScore:
+ *           type: number
+ *           nullable: true
+ *           minimum: 0
+ *           maximum: 1
+ *           description: Lowest balance reconciliation score across the session's statements
+ *     AIUsageSummary:
+ *       type: object
+ *       properties:
+ *         calls:
+ *           type: integer
+ *           description: Number of AI calls made
+ *         failedCalls:
+ *           type: integer
+ *         inputTokens:
+ *           type: integer
+ *         outputTokens:
+ *           type: integer
+ *         totalTokens:
+ *           type: integer
+ *         latencyMs:
+ *           type: integer
+ *           description: Total time spent waiting on AI calls
+ *         estimatedCost:
+ *           type: number
+ *           description: Estimated cost in USD
  */
 
 /**
@@ -100,8 +129,11 @@ router.post('/', sessionController.createSession);
  * /api/v1/sessions/{sessionToken}/upload:
  *   post:
  *     tags: [Sessions]
- *     summary: Upload PDF file for processing
- *     description: Upload a credit card statement PDF for transaction extraction and analysis
+ *     summary: Upload statement PDFs for processing
+ *     description: |
+ *       Upload one or more credit card statement PDFs (3-12 months recommended) for transaction
+ *       extraction and analysis. Each file is stored and extracted as its own statement; transactions
+ *       repeated across overlapping statements are dropped before the merged history is analyzed.
  *     parameters:
  *       - in: path
  *         name: sessionToken
@@ -117,9 +149,16 @@ router.post('/', sessionController.createSession);
  *             type: object
  *             properties:
  *               pdf:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Credit card statement PDF files, one per statement (up to MAX_STATEMENTS_PER_SESSION)
+ *               password:
  *                 type: string
- *                 format: binary
- *                 description: Credit card statement PDF file
+ *                 description: |
+ *                   Optional password for protected statements, tried on every file. Files that still
+ *                   can't be opened are kept with status `password_required` and can be unlocked later.
  *             required:
  *               - pdf
  *     responses:
@@ -157,6 +196,28 @@ router.post('/', sessionController.createSession);
  *                     uploadedAt:
  *                       type: string
  *                       format: date-time
+ *                     statements:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           fileName:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                             example: queued
+ *                           jobId:
+ *                             type: string
+ *                             nullable: true
+ *                           errorCode:
+ *                             type: string
+ *                             enum: [PDF_PASSWORD_REQUIRED, PDF_PASSWORD_INCORRECT]
+ *                             description: Set when the statement is waiting for its password
+ *                     passwordRequired:
+ *                       type: boolean
+ *                       description: Whether any statement is waiting for a password
  *       400:
  *         description: Bad request - invalid file, session, or upload error
  *       404:
@@ -242,6 +303,10 @@ router.post(
  *                           format: date-time
  *                         errorMessage:
  *                           type: string
+ *                         aiUsage:
+ *                           nullable: true
+ *                           allOf:
+ *                             - $ref: '#/components/schemas/AIUsageSummary'
  *                     allJobs:
  *                       type: array
  *                       items:
@@ -261,6 +326,30 @@ router.post(
  *                           completedAt:
  *                             type: string
  *                             format: date-time
+ *                           aiUsage:
+ *                             nullable: true
+ *                             allOf:
+ *                               - $ref: '#/components/schemas/AIUsageSummary'
+ *                     aiUsage:
+ *                       description: AI usage for the whole session, with its token budget
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/AIUsageSummary'
+ *                         - type: object
+ *                           properties:
+ *                             budget:
+ *                               type: object
+ *                               properties:
+ *                                 tokenLimit:
+ *                                   type: integer
+ *                                   nullable: true
+ *                                   description: Null when the budget is unlimited
+ *                                 tokensUsed:
+ *                                   type: integer
+ *                                 tokensRemaining:
+ *                                   type: integer
+ *                                   nullable: true
+ *                                 exceeded:
+ *                                   type: boolean
  *       400:
  *         description: Bad request
  *       404:
@@ -307,6 +396,124 @@ router.get('/:sessionToken/job-status', sessionController.getJobStatus);
  */
 router.get('/:sessionToken/status', sessionController.getSessionStatus);
 
+/**
+ * @swagger
+ * /api/v1/sessions/{sessionToken}/statements/{statementId}/card:
+ *   patch:
+ *     tags: [Sessions]
+ *     summary: Confirm the card a statement belongs to
+ *     description: |
+ *       Confirms (or corrects) the issuer and card detected from a statement's text. The statement's
+ *       transactions are attributed to this card, so the analysis can compare what the user's current
+ *       cards earned against what a recommended card would have earned.
+ *     parameters:
+ *       - in: path
+ *         name: sessionToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: statementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cardId:
+ *                 type: string
+ *                 description: Catalog card id or slug
+ *             required:
+ *               - cardId
+ *     responses:
+ *       200:
+ *         description: Card confirmed and transactions re-attributed
+ *       400:
+ *         description: cardId missing
+ *       404:
+ *         description: Session, statement or card not found
+ */
+router.patch('/:sessionToken/statements/:statementId/card', sessionController.confirmStatementCard);
+
+/**
+ * @swagger
+ * /api/v1/sessions/{sessionToken}/statements/{statementId}/password:
+ *   post:
+ *     tags: [Sessions]
+ *     summary: Unlock a password-protected statement
+ *     description: |
+ *       Supplies the password for a statement uploaded with status `password_required` and queues it
+ *       for processing. The statement is decrypted in memory; the password is never stored. The file
+ *       stays on the server, so it does not need to be uploaded again.
+ *     parameters:
+ *       - in: path
+ *         name: sessionToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: statementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *             required:
+ *               - password
+ *     responses:
+ *       200:
+ *         description: Statement unlocked and queued for processing
+ *       400:
+ *         description: |
+ *           Password missing (`code: PDF_PASSWORD_REQUIRED`) or wrong (`code: PDF_PASSWORD_INCORRECT`)
+ *       404:
+ *         description: Session or statement not found
+ *       409:
+ *         description: Statement is not waiting for a password
+ */
+router.post('/:sessionToken/statements/:statementId/password', sessionController.unlockStatement);
+
+/**
+ * @swagger
+ * /api/v1/sessions/{sessionToken}/statements/{statementId}/skip:
+ *   post:
+ *     tags: [Sessions]
+ *     summary: Skip a password-protected statement
+ *     description: |
+ *       Leaves a statement with status `password_required` out of the analysis, so the session's other
+ *       statements are analyzed without it. The analysis starts once no other statement is waiting.
+ *     parameters:
+ *       - in: path
+ *         name: sessionToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: statementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Statement skipped
+ *       404:
+ *         description: Session or statement not found
+ *       409:
+ *         description: Statement is not waiting for a password
+ */
+router.post('/:sessionToken/statements/:statementId/skip', sessionController.skipStatement);
+
 /**
  * @swagger
  * /api/v1/sessions/{sessionToken}/transactions:
@@ -462,6 +669,61 @@ router.get('/:sessionToken/analysis', sessionController.getSessionAnalysis);
  *         schema:
  *           type: string
  *         description: Session token
+ *       - in: query
+ *         name: memberships
+ *         schema:
+ *           type: string
+ *         description: Comma-separated memberships used to evaluate reward conditions (e.g. amazon_prime)
+ *       - in: query
+ *         name: cardApprovalDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Expected card approval date (defaults to today)
+ *       - in: query
+ *         name: usesIssuerTravelPortals
+ *         schema:
+ *           type: boolean
+ *         description: Whether the user books through issuer portals such as SmartBuy or Travel Edge
+ *       - in: query
+ *         name: paymentApps
+ *         schema:
+ *           type: string
+ *         description: Comma-separated payment apps the user pays bills with (e.g. google_pay)
+ *       - in: query
+ *         name: devicePlatform
+ *         schema:
+ *           type: string
+ *           enum: [android, ios]
+ *       - in: query
+ *         name: cardVariant
+ *         schema:
+ *           type: string
+ *         description: Network variant the user would apply for (e.g. rupay)
+ *       - in: query
+ *         name: birthDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: redemptionStyle
+ *         schema:
+ *           type: string
+ *           enum: [cash_like, travel_maximizer]
+ *           default: cash_like
+ *         description: How the user redeems points; travel maximizers are valued at the best transfer or travel booking path
+ *       - in: query
+ *         name: horizonYears
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Rank cards by cumulative net value (fees, welcome bonus, milestones) over this many years
+ *       - in: query
+ *         name: ownedCards
+ *         schema:
+ *           type: string
+ *         description: Comma-separated slugs of cards the user already holds; recommendations then show the gain over the best of them and drop cards that add nothing
  *     responses:
  *       200:
  *         description: Recommendations retrieved successfully
@@ -508,6 +770,202 @@ router.get(
   sessionController.getSessionRecommendations,
 );
 
+/**
+ * @swagger
+ * /api/v1/sessions/{sessionToken}/recommendations/portfolio:
+ *   get:
+ *     tags: [Sessions]
+ *     summary: Get the best multi-card portfolio for a session
+ *     description: Searches 2-3 card combinations, routes each category or merchant to the card that earns most on it (respecting caps) and returns the combined net annual value after fees
+ *     parameters:
+ *       - in: path
+ *         name: sessionToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session token
+ *       - in: query
+ *         name: maxCards
+ *         schema:
+ *           type: integer
+ *           enum: [2, 3]
+ *           default: 3
+ *         description: Largest combination to consider; values outside 2-3 are clamped
+ *       - in: query
+ *         name: creditScore
+ *         schema:
+ *           type: string
+ *           enum: [excellent, good, fair, poor]
+ *       - in: query
+ *         name: maxAnnualFee
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: preferredNetwork
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: redemptionStyle
+ *         schema:
+ *           type: string
+ *           enum: [cash_like, travel_maximizer]
+ *     responses:
+ *       200:
+ *         description: Card portfolio generated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     projectedAnnualSpending:
+ *                       type: number
+ *                     bestSingleCard:
+ *                       type: object
+ *                     portfolio:
+ *                       type: object
+ *                       properties:
+ *                         cards:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         annualEarnings:
+ *                           type: number
+ *                         annualFees:
+ *                           type: number
+ *                         netAnnualValue:
+ *                           type: number
+ *                         gainOverBestSingleCard:
+ *                           type: number
+ *                         routing:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               categoryName:
+ *                                 type: string
+ *                               merchants:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                               cardId:
+ *                                 type: string
+ *                               cardName:
+ *                                 type: string
+ *                               spentAmount:
+ *                                 type: number
+ *                               earnings:
+ *                                 type: number
+ *                               instruction:
+ *                                 type: string
+ *                                 example: Use Amazon Pay ICICI for Amazon in Shopping
+ *                     alternatives:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       400:
+ *         description: Recommendations not yet available, or maxCards is not a whole number
+ *       404:
+ *         description: Session not found or expired
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:sessionToken/recommendations/portfolio',
+  sessionController.getSessionPortfolio,
+);
+
+/**
+ * @swagger
+ * /api/v1/sessions/{sessionToken}/recommendations/{cardId}/ledger:
+ *   get:
+ *     tags: [Sessions]
+ *     summary: Get per-transaction earnings ledger for a card
+ *     description: Runs every transaction in the session through the card's earn rules (exclusions, merchant matching, conditions, minimums and caps)
+ *     parameters:
+ *       - in: path
+ *         name: sessionToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session token
+ *       - in: path
+ *         name: cardId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Card id or slug
+ *     responses:
+ *       200:
+ *         description: Transaction ledger retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     cardId:
+ *                       type: string
+ *                     cardName:
+ *                       type: string
+ *                     totalSpend:
+ *                       type: number
+ *                     totalEarnings:
+ *                       type: number
+ *                     excludedSpend:
+ *                       type: number
+ *                     cappedTransactions:
+ *                       type: integer
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           transactionId:
+ *                             type: string
+ *                           date:
+ *                             type: string
+ *                             format: date-time
+ *                           merchant:
+ *                             type: string
+ *                           categoryName:
+ *                             type: string
+ *                           amount:
+ *                             type: number
+ *                           rewardDescription:
+ *                             type: string
+ *                           earnRate:
+ *                             type: number
+ *                           earnings:
+ *                             type: number
+ *                           capped:
+ *                             type: boolean
+ *                           excluded:
+ *                             type: boolean
+ *                           exclusionReason:
+ *                             type: string
+ *       400:
+ *         description: Recommendations not yet available
+ *       404:
+ *         description: Session or card not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:sessionToken/recommendations/:cardId/ledger',
+  sessionController.getCardLedger,
+);
+
 /**
  * @swagger
  * /api/v1/sessions/{sessionToken}/extend:
@@ -632,6 +1090,24 @@ router.delete('/:sessionToken', sessionController.deleteSession);
  *                       type: integer
  *                     processing:
  *                       type: integer
+ *                     aiUsage:
+ *                       description: AI usage across all sessions
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/AIUsageSummary'
+ *                         - type: object
+ *                           properties:
+ *                             sessions:
+ *                               type: integer
+ *                               description: Number of sessions that made AI calls
+ *                             byModel:
+ *                               type: array
+ *                               items:
+ *                                 allOf:
+ *                                   - $ref: '#/components/schemas/AIUsageSummary'
+ *                                   - type: object
+ *                                     properties:
+ *                                       model:
+ *                                         type: string
  *       500:
  *         description: Server error
  */
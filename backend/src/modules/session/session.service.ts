@@ -23,6 +23,8 @@ export interface SessionWithStats {
   updatedAt: Date;
   expiresAt: Date;
   errorMessage?: string;
+  needsReview: boolean; // Extracted transactions don't reconcile with a statement's totals
+  reconciliationScore?: number;
 }
 
 export class SessionService {
@@ -240,6 +242,10 @@ export class SessionService {
         where: { sessionId },
       });
 
+      await this.prisma.statement.deleteMany({
+        where: { sessionId },
+      });
+
       // Finally delete the session
       await this.prisma.session.delete({
         where: { id: sessionId },
@@ -424,6 +430,11 @@ export class SessionService {
       updatedAt: session.updatedAt,
       expiresAt: session.expiresAt,
       errorMessage: session.errorMessage,
+      needsReview: session.needsReview,
+      reconciliationScore:
+        session.reconciliationScore !== null
+          ? Number(session.reconciliationScore)
+          : undefined,
     };
   }
 }
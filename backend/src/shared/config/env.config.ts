@@ -14,18 +14,41 @@ const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().url(),
 
+  // LLM provider per AI task: gemini, or openai for any OpenAI-compatible server
+  LLM_EXTRACTION_PROVIDER: z.enum(['gemini', 'openai']).default('gemini'),
+  LLM_EXTRACTION_MODEL: z.string().optional(), // Defaults to GEMINI_MODEL_CHEAP or OPENAI_COMPATIBLE_MODEL
+  LLM_MCC_DISCOVERY_PROVIDER: z.enum(['gemini', 'openai']).default('gemini'),
+  LLM_MCC_DISCOVERY_MODEL: z.string().optional(), // Defaults to GEMINI_MODEL_PREMIUM or OPENAI_COMPATIBLE_MODEL
+  LLM_REQUEST_TIMEOUT_MS: z.coerce.number().default(120000),
+  AI_SESSION_TOKEN_BUDGET: z.coerce.number().min(0).default(1000000), // AI tokens one session may use; 0 for no limit
+  LLM_RECORDING_MODE: z.enum(['off', 'record', 'replay']).default('off'), // record saves AI responses to disk; replay serves them offline
+  LLM_RECORDINGS_DIR: z.string().default('./recordings/llm'),
+
   // Gemini AI Configuration
-  GEMINI_API_KEY: z.string().min(1, 'Gemini API key is required'),
+  GEMINI_API_KEY: z.string().min(1).optional(), // Required when any task runs on Gemini
   GEMINI_MODEL_CHEAP: z.string().default('gemini-2.0-flash-exp'), // For transaction extraction
   GEMINI_MODEL_PREMIUM: z.string().default('gemini-2.0-flash-thinking-exp'), // For MCC discovery
 
+  // OpenAI-compatible server (e.g. a local model server such as vLLM or Ollama)
+  OPENAI_COMPATIBLE_BASE_URL: z.string().url().optional(), // e.g. http://localhost:11434/v1
+  OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+  OPENAI_COMPATIBLE_MODEL: z.string().optional(),
+
   // Session Configuration
   SESSION_EXPIRY_HOURS: z.coerce.number().default(24),
   MAX_UPLOAD_SIZE_MB: z.coerce.number().default(10),
+  MAX_STATEMENTS_PER_SESSION: z.coerce.number().min(1).default(12),
 
   // Processing Configuration
   MAX_CONCURRENT_JOBS: z.coerce.number().default(3),
   FUZZY_MATCH_THRESHOLD: z.coerce.number().min(0).max(1).default(0.8),
+  MCC_DISCOVERY_CACHE_TTL_HOURS: z.coerce.number().min(0).default(720), // How long AI MCC discoveries are reused; 0 disables the cache
+  MCC_DISCOVERY_CACHE_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.6), // Less confident discoveries are asked again next time
+  EXTRACTION_CHUNK_MAX_CHARS: z.coerce.number().min(1000).default(12000), // Longer statements are extracted in chunks of pages
+  EXTRACTION_CHUNK_CONCURRENCY: z.coerce.number().min(1).default(3),
+  RECONCILIATION_TOLERANCE: z.coerce.number().min(0).default(1), // Currency amount a reconciliation check may be off by
+  RECONCILIATION_REVIEW_THRESHOLD: z.coerce.number().min(0).max(1).default(0.95), // Sessions scoring below this are marked needsReview
+  STATEMENT_PARSER_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.8), // Below this, issuer templates fall back to AI extraction
 
   // File Storage (temporary)
   TEMP_UPLOAD_DIR: z.string().default('./uploads/temp'),
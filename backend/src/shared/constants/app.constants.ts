@@ -31,6 +31,21 @@ export const SORT_ORDER = {
   DESC: 'desc',
 } as const;
 
+// Estimated USD price per million tokens, matched on the start of the model name.
+// The first match wins, so more specific names come first; models not listed
+// (e.g. local models) are counted as free.
+export const AI_MODEL_PRICING = [
+  { modelPrefix: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { modelPrefix: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { modelPrefix: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { modelPrefix: 'gemini-2.0-flash-lite', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { modelPrefix: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { modelPrefix: 'gemini-1.5-flash', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { modelPrefix: 'gemini-1.5-pro', inputPerMillion: 1.25, outputPerMillion: 5 },
+  { modelPrefix: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { modelPrefix: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+] as const;
+
 export const FIELDS = {
   CREATED_AT: 'createdAt',
   UPDATED_AT: 'updatedAt',
@@ -11,6 +11,15 @@ export const ERROR_MESSAGES = {
   INTERNAL_ERROR: 'Internal server error',
 } as const;
 
+/**
+ * Machine-readable error codes returned alongside the message
+ */
+export const ERROR_CODES = {
+  PDF_PASSWORD_REQUIRED: 'PDF_PASSWORD_REQUIRED',
+  PDF_PASSWORD_INCORRECT: 'PDF_PASSWORD_INCORRECT',
+  AI_BUDGET_EXCEEDED: 'AI_BUDGET_EXCEEDED',
+} as const;
+
 export const SUCCESS_MESSAGES = {
   USER_CREATED: 'User created successfully',
   USER_UPDATED: 'User updated successfully',
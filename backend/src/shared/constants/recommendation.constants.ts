@@ -77,6 +77,21 @@ export enum CappingPeriod {
     YEARLY = 'yearly'
 }
 
+export enum RedemptionStyle {
+    CASH_LIKE = 'cash_like',
+    TRAVEL_MAXIMIZER = 'travel_maximizer'
+}
+
+export enum RedemptionType {
+    STATEMENT_CREDIT = 'statement_credit',
+    CASHBACK = 'cashback',
+    VOUCHERS = 'vouchers',
+    CATALOGUE = 'catalogue',
+    TRAVEL_BOOKING = 'travel_booking',
+    AIR_MILES = 'air_miles',
+    HOTEL_POINTS = 'hotel_points'
+}
+
 // ==================== CONFIGURATION KEYS ====================
 
 export const CONFIG_KEYS = {
@@ -267,3 +282,82 @@ export const LIMITED_ACCEPTANCE_NETWORKS = [
     CardNetwork.AMEX,
     CardNetwork.DINERS
 ] as const;
+
+// ==================== REDEMPTION ====================
+
+// Redemption paths each style is willing to use; travel maximizers take the best of everything
+export const REDEMPTION_STYLE_TYPES: Record<RedemptionStyle, RedemptionType[]> = {
+    [RedemptionStyle.CASH_LIKE]: [
+        RedemptionType.STATEMENT_CREDIT,
+        RedemptionType.CASHBACK,
+        RedemptionType.VOUCHERS,
+        RedemptionType.CATALOGUE
+    ],
+    [RedemptionStyle.TRAVEL_MAXIMIZER]: Object.values(RedemptionType)
+};
+
+// Points assumed per redemption when spreading a per-redemption fee, unless the option's minimum is higher
+export const REDEMPTION_FEE_BATCH_POINTS = 1000;
+
+// ==================== VALUE TIMELINE ====================
+
+export const VALUE_TIMELINE_YEARS = 5;
+
+// ==================== PORTFOLIO SEARCH ====================
+
+export const PORTFOLIO_SEARCH_LIMITS = {
+    MIN_CARDS: 2,
+    MAX_CARDS: 3,
+    CANDIDATE_CARDS: 8,        // Best single cards that enter the combination search
+    REFINED_COMBINATIONS: 3,   // Top combinations re-balanced around reward caps
+    ALTERNATIVES: 3
+} as const;
+
+// ==================== REWARD EXCLUSIONS ====================
+
+// Matching rules for the excludedCategories ids used in card data. A transaction is excluded
+// when its MCC, category/subcategory slug or merchant/description matches any rule.
+export const DEFAULT_REWARD_EXCLUSIONS: Record<string, {
+    mccCodes?: string[];
+    categorySlugs?: string[];
+    merchantPatterns?: string[];
+}> = {
+    emi_transactions: { merchantPatterns: ['emi conversion', 'emi booking', 'merchant emi', 'flexipay'] },
+    merchant_emi: { merchantPatterns: ['emi conversion', 'emi booking', 'merchant emi'] },
+    flexipay_emi: { merchantPatterns: ['flexipay'] },
+    rent_payments: {
+        mccCodes: ['6513'],
+        merchantPatterns: ['nobroker', 'rentpay', 'redgiraffe', 'cred rent', 'rent payment']
+    },
+    wallet_loads: {
+        mccCodes: ['6540'],
+        categorySlugs: ['digital-wallets'],
+        merchantPatterns: ['wallet load', 'wallet topup', 'wallet top up', 'add money']
+    },
+    fuel_transactions: { mccCodes: ['5541', '5542', '5983'], categorySlugs: ['fuel', 'petrol-stations'] },
+    government_transactions: {
+        mccCodes: ['9211', '9222', '9311', '9399', '9402', '9405'],
+        merchantPatterns: ['municipal corporation', 'passport seva', 'govt of']
+    },
+    tax_payments: { mccCodes: ['9311'], merchantPatterns: ['income tax', 'tin nsdl', 'gst payment'] },
+    insurance_transactions: { mccCodes: ['5960', '6300'], merchantPatterns: ['insurance', 'policybazaar'] },
+    cash_advances: { mccCodes: ['6010', '6011'], merchantPatterns: ['atm withdrawal', 'cash withdrawal'] },
+    card_fees: { merchantPatterns: ['annual fee', 'late payment fee', 'finance charge', 'overlimit fee'] },
+    outstanding_payments: { merchantPatterns: ['payment received', 'payment thank you'] },
+    utilities_telecom: {
+        mccCodes: ['4814', '4899', '4900'],
+        categorySlugs: ['mobile-recharge', 'electricity-bills', 'internet-broadband']
+    },
+    utility_transactions: { mccCodes: ['4900'], categorySlugs: ['electricity-bills'] },
+    telecom_cable: { mccCodes: ['4814', '4899'], categorySlugs: ['mobile-recharge', 'internet-broadband'] },
+    railway_transactions: { mccCodes: ['4112'], categorySlugs: ['railway-bookings'], merchantPatterns: ['irctc'] },
+    educational_services: {
+        mccCodes: ['8211', '8220', '8241', '8244', '8249', '8299'],
+        categorySlugs: ['schools-colleges']
+    },
+    gift_card_purchases: { merchantPatterns: ['gift card', 'giftcard', 'gift voucher'] },
+    gold_purchases: { mccCodes: ['5944', '5094'], merchantPatterns: ['augmont', 'mmtc pamp', 'safegold', 'digital gold'] },
+    gold_silver_purchases: { mccCodes: ['5944', '5094'], merchantPatterns: ['augmont', 'mmtc pamp', 'safegold', 'digital gold'] },
+    gold_jewelry: { mccCodes: ['5944', '5094'], merchantPatterns: ['jewellers', 'jewellery', 'jewelry'] },
+    jewelry_purchases: { mccCodes: ['5944'], merchantPatterns: ['jewellers', 'jewellery', 'jewelry'] }
+};
@@ -1,7 +1,7 @@
 import { NextFunction, Request, Response } from 'express';
 import { PRISMA_ERROR_MAP, StatusCodes } from '@/shared/constants';
 import { env } from '@/shared/config/env.config';
-import { logger, ResponseUtil } from '@/shared/utils';
+import { ApiError, logger, ResponseUtil } from '@/shared/utils';
 
 export const handleValidationError = (
   error: Error & {
@@ -103,10 +103,15 @@ export const handleError = (
   logger.error(`[${statusCode}] ${message}`, {
     path: req.path,
     method: req.method,
-    body: req.body,
+    // Statement passwords must never reach the logs
+    body: req.body?.password ? { ...req.body, password: '[REDACTED]' } : req.body,
     stack: error.stack,
     isOperational: error.isOperational ?? false,
   });
 
-  return ResponseUtil.error(res, message, statusCode);
+  // Only our own error codes are part of the API; library errors (e.g. Node's
+  // ENOENT) carry codes of their own that must not reach clients
+  const code = error instanceof ApiError ? error.code : undefined;
+
+  return ResponseUtil.error(res, message, statusCode, null, code);
 };
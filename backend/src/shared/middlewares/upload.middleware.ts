@@ -70,12 +70,12 @@ export const uploadConfig = multer({
     fileFilter,
     limits: {
         fileSize: env.MAX_UPLOAD_SIZE_MB * 1024 * 1024, // Convert MB to bytes
-        files: 1, // Allow only one file per upload
+        files: env.MAX_STATEMENTS_PER_SESSION, // One file per statement
     },
 });
 
-// Export specific upload middleware for PDF files
-export const uploadPDF = uploadConfig.single('pdf');
+// Export specific upload middleware for PDF files (one or more statements under the "pdf" field)
+export const uploadPDF = uploadConfig.array('pdf', env.MAX_STATEMENTS_PER_SESSION);
 
 /**
  * Error handling middleware for multer errors
@@ -97,13 +97,13 @@ export const handleUploadErrors = (
             case 'LIMIT_FILE_COUNT':
                 return res.status(StatusCodes.BAD_REQUEST).json({
                     status: 'error',
-                    message: 'Too many files. Only one PDF file is allowed per upload',
+                    message: `Too many files. Up to ${env.MAX_STATEMENTS_PER_SESSION} statements can be uploaded per session`,
                     code: 'TOO_MANY_FILES',
                 });
             case 'LIMIT_UNEXPECTED_FILE':
                 return res.status(StatusCodes.BAD_REQUEST).json({
                     status: 'error',
-                    message: 'Unexpected file field. Use "pdf" as the field name',
+                    message: `Unexpected file field or too many files. Use "pdf" as the field name for up to ${env.MAX_STATEMENTS_PER_SESSION} statements`,
                     code: 'UNEXPECTED_FILE',
                 });
             default:
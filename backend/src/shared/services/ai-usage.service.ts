@@ -0,0 +1,281 @@
+/**
+ * AI Usage Service
+ * Records the model, tokens, latency and estimated cost of every AI call against
+ * its session and processing job, and enforces the per-session token budget
+ */
+
+import { prisma } from '@/database/db';
+import { logger } from '@/shared/utils/logger.util';
+import { ApiError } from '@/shared/utils/api-error.util';
+import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { AI_MODEL_PRICING } from '@/shared/constants/app.constants';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
+import { env } from '@/shared/config/env.config';
+import { LLMProviderType, LLMTask, LLMUsage } from './llm-provider.service';
+
+// What an AI call is done for, so its cost can be attributed
+export interface AIUsageContext {
+    sessionId?: string;
+    jobId?: string;
+}
+
+export interface AIUsageEntry extends AIUsageContext {
+    task: LLMTask;
+    provider: LLMProviderType;
+    model: string;
+    usage?: LLMUsage; // As reported by the provider
+    promptLength: number;
+    responseLength: number;
+    latencyMs: number;
+    success: boolean;
+    reservedTokens?: number; // Reserved by reserveTokens before the call
+}
+
+export interface AIUsageSummary {
+    calls: number;
+    failedCalls: number;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+    estimatedCost: number; // USD
+}
+
+export interface AIUsageBudget {
+    tokenLimit: number | null; // null when unlimited
+    tokensUsed: number;
+    tokensRemaining: number | null;
+    exceeded: boolean;
+}
+
+// Counts and sums of usage records, as returned by aggregate and groupBy
+interface UsageTotals {
+    _count: { _all: number };
+    _sum: Record<string, unknown>;
+}
+
+// Rough token count for providers that don't report usage
+const CHARS_PER_TOKEN = 4;
+
+// Model prices are quoted per million tokens
+const TOKENS_PER_MILLION = 1_000_000;
+
+export class AIUsageService {
+    /**
+     * Reserve a call's estimated prompt tokens against the session's token budget,
+     * returning the tokens reserved for record to settle. The check and the
+     * reservation are one conditional update, so concurrent calls cannot all pass
+     * before any of them is counted. Throws AI_BUDGET_EXCEEDED when the session has
+     * used up its budget, so callers can skip the remaining AI work instead of failing outright.
+     */
+    async reserveTokens(context: AIUsageContext | undefined, promptLength: number): Promise<number> {
+        if (!context?.sessionId || env.AI_SESSION_TOKEN_BUDGET === 0) {
+            return 0;
+        }
+
+        const tokens = Math.ceil(promptLength / CHARS_PER_TOKEN);
+        const { count } = await prisma.session.updateMany({
+            where: { id: context.sessionId, aiTokensUsed: { lt: env.AI_SESSION_TOKEN_BUDGET } },
+            data: { aiTokensUsed: { increment: tokens } }
+        });
+        if (count > 0) {
+            return tokens;
+        }
+
+        const budget = await this.getSessionBudget(context.sessionId);
+        if (!budget.exceeded) {
+            // The session no longer exists; there is nothing to charge
+            return 0;
+        }
+
+        logger.warn('AI token budget exceeded for session', { ...context, ...budget });
+
+        throw new ApiError(
+            `AI token budget for this session has been used up (${budget.tokensUsed} of ${budget.tokenLimit} tokens)`,
+            StatusCodes.TOO_MANY_REQUESTS,
+            ERROR_CODES.AI_BUDGET_EXCEEDED
+        );
+    }
+
+    /**
+     * Record one AI call and settle its session's budget to the tokens it used;
+     * accounting failures are logged and never fail the call
+     */
+    async record(entry: AIUsageEntry): Promise<void> {
+        const inputTokens = entry.usage?.inputTokens ?? Math.ceil(entry.promptLength / CHARS_PER_TOKEN);
+        const outputTokens = entry.usage?.outputTokens ?? Math.ceil(entry.responseLength / CHARS_PER_TOKEN);
+
+        try {
+            await prisma.aIUsageRecord.create({
+                data: {
+                    sessionId: entry.sessionId ?? null,
+                    jobId: entry.jobId ?? null,
+                    task: entry.task,
+                    provider: entry.provider,
+                    model: entry.model,
+                    inputTokens,
+                    outputTokens,
+                    tokensEstimated: !entry.usage,
+                    latencyMs: entry.latencyMs,
+                    estimatedCost: this.estimateCost(entry.model, inputTokens, outputTokens),
+                    success: entry.success
+                }
+            });
+
+            if (entry.sessionId) {
+                await prisma.session.updateMany({
+                    where: { id: entry.sessionId },
+                    data: { aiTokensUsed: { increment: inputTokens + outputTokens - (entry.reservedTokens ?? 0) } }
+                });
+            }
+        } catch (error) {
+            logger.warn('Failed to record AI usage', {
+                error,
+                task: entry.task,
+                sessionId: entry.sessionId,
+                jobId: entry.jobId
+            });
+        }
+    }
+
+    /**
+     * Estimated USD cost of a call, from the model's per-million-token prices
+     */
+    estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+        const pricing = AI_MODEL_PRICING.find(price => model.startsWith(price.modelPrefix));
+        if (!pricing) {
+            return 0;
+        }
+
+        return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / TOKENS_PER_MILLION;
+    }
+
+    /**
+     * Usage totals for a session, with its budget
+     */
+    async getSessionUsage(sessionId: string): Promise<AIUsageSummary & { budget: AIUsageBudget }> {
+        const usage = await this.summarize({ sessionId });
+
+        return { ...usage, budget: this.toBudget(usage.totalTokens) };
+    }
+
+    /**
+     * Usage totals per processing job
+     */
+    async getJobUsage(jobIds: string[]): Promise<Map<string, AIUsageSummary>> {
+        const usageByJob = new Map<string, AIUsageSummary>();
+        if (jobIds.length === 0) {
+            return usageByJob;
+        }
+
+        const groups = await prisma.aIUsageRecord.groupBy({
+            by: ['jobId'],
+            where: { jobId: { in: jobIds, not: null } },
+            _count: { _all: true },
+            _sum: { inputTokens: true, outputTokens: true, latencyMs: true, estimatedCost: true }
+        });
+        const failures = await prisma.aIUsageRecord.groupBy({
+            by: ['jobId'],
+            where: { jobId: { in: jobIds, not: null }, success: false },
+            _count: { _all: true }
+        });
+
+        for (const group of groups) {
+            // Excluded by the query, but the grouped key is still typed nullable
+            if (!group.jobId) {
+                continue;
+            }
+            const failed = failures.find(failure => failure.jobId === group.jobId);
+            usageByJob.set(group.jobId, this.toSummary(group, failed?._count._all ?? 0));
+        }
+
+        return usageByJob;
+    }
+
+    /**
+     * Usage totals across all sessions, overall and per model
+     */
+    async getUsageStats(): Promise<AIUsageSummary & { sessions: number; byModel: (AIUsageSummary & { model: string })[] }> {
+        const [overall, groups, failures, sessions] = await Promise.all([
+            this.summarize({}),
+            prisma.aIUsageRecord.groupBy({
+                by: ['model'],
+                _count: { _all: true },
+                _sum: { inputTokens: true, outputTokens: true, latencyMs: true, estimatedCost: true }
+            }),
+            prisma.aIUsageRecord.groupBy({
+                by: ['model'],
+                where: { success: false },
+                _count: { _all: true }
+            }),
+            prisma.aIUsageRecord.findMany({
+                where: { sessionId: { not: null } },
+                distinct: ['sessionId'],
+                select: { sessionId: true }
+            })
+        ]);
+
+        return {
+            ...overall,
+            sessions: sessions.length,
+            byModel: groups.map((group: UsageTotals & { model: string }) => ({
+                model: group.model,
+                ...this.toSummary(
+                    group,
+                    failures.find((failure: { model: string }) => failure.model === group.model)?._count._all ?? 0
+                )
+            }))
+        };
+    }
+
+    private async getSessionBudget(sessionId: string): Promise<AIUsageBudget> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: { aiTokensUsed: true }
+        });
+
+        return this.toBudget(session?.aiTokensUsed ?? 0);
+    }
+
+    private toBudget(tokensUsed: number): AIUsageBudget {
+        const tokenLimit = env.AI_SESSION_TOKEN_BUDGET > 0 ? env.AI_SESSION_TOKEN_BUDGET : null;
+
+        return {
+            tokenLimit,
+            tokensUsed,
+            tokensRemaining: tokenLimit !== null ? Math.max(0, tokenLimit - tokensUsed) : null,
+            exceeded: tokenLimit !== null && tokensUsed >= tokenLimit
+        };
+    }
+
+    private async summarize(where: { sessionId?: string }): Promise<AIUsageSummary> {
+        const [usage, failedCalls] = await Promise.all([
+            prisma.aIUsageRecord.aggregate({
+                where,
+                _count: { _all: true },
+                _sum: { inputTokens: true, outputTokens: true, latencyMs: true, estimatedCost: true }
+            }),
+            prisma.aIUsageRecord.count({ where: { ...where, success: false } })
+        ]);
+
+        return this.toSummary(usage, failedCalls);
+    }
+
+    private toSummary(group: UsageTotals, failedCalls: number): AIUsageSummary {
+        const inputTokens = Number(group._sum.inputTokens ?? 0);
+        const outputTokens = Number(group._sum.outputTokens ?? 0);
+
+        return {
+            calls: group._count._all,
+            failedCalls,
+            inputTokens,
+            outputTokens,
+            totalTokens: inputTokens + outputTokens,
+            latencyMs: Number(group._sum.latencyMs ?? 0),
+            estimatedCost: Number(group._sum.estimatedCost ?? 0)
+        };
+    }
+}
+
+// Export singleton instance
+export const aiUsageService = new AIUsageService();
@@ -1,11 +1,15 @@
 import { prisma } from '@/database/db';
+import type { Statement } from '@prisma/client';
 import {
     ExtractionContext,
     transactionExtractionService,
 } from './transaction-extraction.service';
 import { categorizationService } from './categorization.service';
 import { recommendationService } from './recommendation.service';
+import { billingCycleService } from './billing-cycle.service';
 import { logger } from '@/shared/utils/logger.util';
+import { ApiError } from '@/shared/utils/api-error.util';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
 import { env } from '@/shared/config/env.config';
 import { SessionService } from '@/modules/session/session.service';
 
@@ -17,9 +21,11 @@ import { SessionService } from '@/modules/session/session.service';
 export interface JobData {
     sessionId: string;
     sessionToken: string;
+    statementId?: string;
     filePath: string;
     fileName: string;
     fileSize: number;
+    password?: string; // Kept in memory only, never written to the job's inputData
     issuer?: string;
     expectedTransactionCount?: number;
     priority?: number;
@@ -64,6 +70,7 @@ export class BackgroundJobsService {
     private readonly JOB_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
 
     private workers: Map<string, Worker> = new Map();
+    private pdfPasswords: Map<string, string> = new Map(); // jobId -> statement password
     private isRunning = false;
     private sessionService!: SessionService;
     private processingStats = {
@@ -152,6 +159,7 @@ export class BackgroundJobsService {
                     status: 'queued',
                     inputData: {
                         sessionToken: jobData.sessionToken,
+                        statementId: jobData.statementId,
                         filePath: jobData.filePath,
                         fileName: jobData.fileName,
                         fileSize: jobData.fileSize,
@@ -161,6 +169,10 @@ export class BackgroundJobsService {
                 },
             });
 
+            if (jobData.password) {
+                this.pdfPasswords.set(job.id, jobData.password);
+            }
+
             logger.info('Queued PDF processing job', {
                 jobId: job.id,
                 sessionId: jobData.sessionId,
@@ -349,7 +361,8 @@ export class BackgroundJobsService {
     }
 
     /**
-     * Process a single PDF processing job
+     * Process a single PDF processing job: extract one statement's transactions, then
+     * queue the session analysis once every statement in the session has been extracted
      */
     async processPDFJob(job: any): Promise<JobResult> {
         const startTime = Date.now();
@@ -359,9 +372,12 @@ export class BackgroundJobsService {
             error: 'Unknown error',
         };
 
-        try {
-            const { inputData } = job;
+        const { inputData } = job;
+        const { statementId } = inputData;
+        const password = this.pdfPasswords.get(job.id);
+        this.pdfPasswords.delete(job.id);
 
+        try {
             await this.updateJobProgress(
                 job.id,
                 5,
@@ -369,18 +385,28 @@ export class BackgroundJobsService {
                 'Starting PDF processing',
             );
 
+            if (statementId) {
+                await prisma.statement.update({
+                    where: { id: statementId },
+                    data: { status: 'extracting' },
+                });
+            }
+
             // Create extraction context
             const context: ExtractionContext = {
                 sessionId: job.sessionId,
                 sessionToken: inputData.sessionToken,
+                statementId,
+                jobId: job.id,
                 filePath: inputData.filePath,
                 fileName: inputData.fileName,
                 fileSize: inputData.fileSize,
+                password,
                 issuer: inputData.issuer,
                 expectedTransactionCount: inputData.expectedTransactionCount,
             };
 
-            // Step 1: Extract transactions
+            // Extract transactions
             await this.updateJobProgress(
                 job.id,
                 10,
@@ -394,7 +420,7 @@ export class BackgroundJobsService {
                     async (progress) => {
                         await this.updateJobProgress(
                             job.id,
-                            10 + progress.progress * 0.6, // 10-70% for extraction
+                            10 + progress.progress * 0.85, // 10-95% for extraction
                             progress.step,
                             progress.message,
                         );
@@ -405,10 +431,108 @@ export class BackgroundJobsService {
                 throw new Error('Transaction extraction failed');
             }
 
+            if (statementId) {
+                await prisma.statement.update({
+                    where: { id: statementId },
+                    data: {
+                        status: 'extracted',
+                        transactionCount: extractionResult.totalExtracted,
+                    },
+                });
+            }
+
+            result = {
+                success: true,
+                transactionsExtracted: extractionResult.totalExtracted,
+                processingTimeMs: Date.now() - startTime,
+                warnings: extractionResult.extractionStats.warnings,
+                stats: {
+                    extraction: extractionResult.extractionStats,
+                    parser: extractionResult.parser,
+                    reconciliation: extractionResult.reconciliation,
+                },
+            };
+
+            logger.info('PDF processing job completed successfully', {
+                jobId: job.id,
+                sessionId: job.sessionId,
+                statementId,
+                transactionsExtracted: result.transactionsExtracted,
+                processingTimeMs: result.processingTimeMs,
+            });
+        } catch (error) {
+            result = {
+                success: false,
+                processingTimeMs: Date.now() - startTime,
+                error:
+                    error instanceof Error ? error.message : 'Unknown processing error',
+            };
+
+            // A password that was lost (e.g. a restart) or rejected sends the
+            // statement back to the user rather than failing it
+            const needsPassword =
+                error instanceof ApiError &&
+                (error.code === ERROR_CODES.PDF_PASSWORD_REQUIRED ||
+                    error.code === ERROR_CODES.PDF_PASSWORD_INCORRECT);
+
+            if (statementId) {
+                await prisma.statement.update({
+                    where: { id: statementId },
+                    data: {
+                        status: needsPassword ? 'password_required' : 'failed',
+                        errorMessage: result.error,
+                    },
+                });
+            }
+
+            logger.error('PDF processing job failed', {
+                jobId: job.id,
+                sessionId: job.sessionId,
+                statementId,
+                error,
+            });
+        }
+
+        // A failed statement shouldn't hold up the others; a job without
+        // a statement is the session's only file
+        if (statementId || result.success) {
+            await this.queueSessionAnalysisIfReady(job.sessionId);
+        } else {
+            await this.sessionService.failSession(job.sessionId, result.error!);
+        }
+
+        return result;
+    }
+
+    /**
+     * Process a session analysis job: merge the session's statements (dropping
+     * overlapping transactions), categorize and generate recommendations
+     */
+    async processCategorizationJob(job: any): Promise<JobResult> {
+        const startTime = Date.now();
+        let result: JobResult = {
+            success: false,
+            processingTimeMs: 0,
+            error: 'Unknown error',
+        };
+
+        try {
+            // Step 1: Merge statements
+            await this.updateJobProgress(
+                job.id,
+                5,
+                'merging_statements',
+                'Merging statements and removing overlapping transactions',
+            );
+
+            const duplicatesRemoved =
+                await transactionExtractionService.deduplicateStatements(job.sessionId);
+            await billingCycleService.refreshSessionCycle(job.sessionId);
+
             // Step 2: Categorize transactions
             await this.updateJobProgress(
                 job.id,
-                70,
+                10,
                 'categorizing',
                 'Categorizing transactions',
             );
@@ -419,17 +543,18 @@ export class BackgroundJobsService {
                     async (progress) => {
                         await this.updateJobProgress(
                             job.id,
-                            70 + progress.progress * 0.15, // 70-85% for categorization
+                            10 + progress.progress * 0.7, // 10-80% for categorization
                             progress.step,
                             progress.message,
                         );
                     },
+                    job.id,
                 );
 
             // Step 3: Generate recommendations
             await this.updateJobProgress(
                 job.id,
-                85,
+                80,
                 'analyzing',
                 'Generating credit card recommendations',
             );
@@ -445,16 +570,19 @@ export class BackgroundJobsService {
                 'Completing processing',
             );
 
+            const transactionCount = await prisma.transaction.count({
+                where: { sessionId: job.sessionId },
+            });
+
             result = {
                 success: true,
-                transactionsExtracted: extractionResult.totalExtracted,
+                transactionsExtracted: transactionCount,
                 transactionsCategorized:
                     categorizationResult.stats.successfullyCategorized,
                 recommendationsGenerated: recommendationResult.recommendations.length,
                 processingTimeMs: Date.now() - startTime,
-                warnings: extractionResult.extractionStats.warnings,
                 stats: {
-                    extraction: extractionResult.extractionStats,
+                    duplicatesRemoved,
                     categorization: categorizationResult.stats,
                     recommendations: {
                         total: recommendationResult.recommendations.length,
@@ -477,10 +605,10 @@ export class BackgroundJobsService {
                 },
             });
 
-            logger.info('PDF processing job completed successfully', {
+            logger.info('Session analysis job completed successfully', {
                 jobId: job.id,
                 sessionId: job.sessionId,
-                transactionsExtracted: result.transactionsExtracted,
+                duplicatesRemoved,
                 transactionsCategorized: result.transactionsCategorized,
                 recommendationsGenerated: result.recommendationsGenerated,
                 processingTimeMs: result.processingTimeMs,
@@ -493,7 +621,9 @@ export class BackgroundJobsService {
                     error instanceof Error ? error.message : 'Unknown processing error',
             };
 
-            logger.error('PDF processing job failed', {
+            await this.sessionService.failSession(job.sessionId, result.error!);
+
+            logger.error('Session analysis job failed', {
                 jobId: job.id,
                 sessionId: job.sessionId,
                 error,
@@ -503,6 +633,48 @@ export class BackgroundJobsService {
         return result;
     }
 
+    /**
+     * Queue the session analysis once no statement is waiting for extraction.
+     * Only the job that moves the session out of 'queued' queues it, so statements
+     * finishing at the same time on different workers don't analyze twice.
+     * Also called when the user skips a locked statement.
+     */
+    async queueSessionAnalysisIfReady(sessionId: string): Promise<void> {
+        const statements: Pick<Statement, 'status'>[] = await prisma.statement.findMany({
+            where: { sessionId },
+            select: { status: true },
+        });
+
+        // Locked statements wait for the user's password
+        if (
+            statements.some((statement) =>
+                ['queued', 'extracting', 'password_required'].includes(statement.status),
+            )
+        ) {
+            return;
+        }
+
+        if (
+            statements.length > 0 &&
+            !statements.some((statement) => statement.status === 'extracted')
+        ) {
+            await this.sessionService.failSession(
+                sessionId,
+                'None of the uploaded statements could be processed',
+            );
+            return;
+        }
+
+        const claimed = await prisma.session.updateMany({
+            where: { id: sessionId, status: 'queued' },
+            data: { status: 'categorizing' },
+        });
+
+        if (claimed.count === 1) {
+            await this.queueCategorizationJob(sessionId, 1);
+        }
+    }
+
     /**
      * Start cleanup task for stuck jobs and expired sessions
      */
@@ -829,12 +1001,7 @@ class Worker {
                     break;
 
                 case 'categorization':
-                    // TODO: Implement standalone categorization job
-                    result = {
-                        success: false,
-                        error: 'Categorization job not implemented',
-                        processingTimeMs: 0,
-                    };
+                    result = await this.jobsService.processCategorizationJob(job);
                     break;
 
                 default:
@@ -0,0 +1,166 @@
+/**
+ * Balance Reconciliation Service
+ * Checks extracted transactions against the statement's own account summary
+ * (previous balance, total debits and credits, closing balance), so statements
+ * with missed or misread transactions are flagged for review
+ */
+
+import { prisma } from '@/database/db';
+import { logger } from '@/shared/utils/logger.util';
+import { env } from '@/shared/config/env.config';
+import { StatementBalanceSummary } from './gemini-ai.service';
+
+export interface BalanceReconciliation {
+    status: 'reconciled' | 'mismatch' | 'unavailable'; // unavailable: the statement printed no totals to check
+    score: number | null; // 0-1, from the worst check; null when unavailable
+    extractedDebits: number;
+    extractedCredits: number;
+    deltas: {
+        debits?: number; // Extracted minus printed; negative means debits are missing
+        credits?: number;
+        closingBalance?: number; // Balance implied by the transactions minus the printed one
+    };
+    warnings: string[];
+}
+
+export class BalanceReconciliationService {
+    /**
+     * Reconcile transaction amounts (positive charges, negative credits) against
+     * the statement's printed summary
+     */
+    reconcile(transactions: { amount: number }[], summary?: StatementBalanceSummary): BalanceReconciliation {
+        const extractedDebits = this.round(transactions
+            .filter(t => t.amount > 0)
+            .reduce((sum, t) => sum + t.amount, 0));
+        const extractedCredits = this.round(transactions
+            .filter(t => t.amount < 0)
+            .reduce((sum, t) => sum - t.amount, 0));
+
+        const deltas: BalanceReconciliation['deltas'] = {};
+        const scores: number[] = [];
+        const warnings: string[] = [];
+
+        if (summary?.totalDebits !== undefined) {
+            deltas.debits = this.round(extractedDebits - summary.totalDebits);
+            scores.push(this.score(deltas.debits, summary.totalDebits));
+            if (!this.withinTolerance(deltas.debits)) {
+                warnings.push(`Extracted debits ${extractedDebits.toFixed(2)} differ from the statement total ${summary.totalDebits.toFixed(2)} by ${deltas.debits.toFixed(2)}`);
+            }
+        }
+
+        if (summary?.totalCredits !== undefined) {
+            deltas.credits = this.round(extractedCredits - summary.totalCredits);
+            scores.push(this.score(deltas.credits, summary.totalCredits));
+            if (!this.withinTolerance(deltas.credits)) {
+                warnings.push(`Extracted credits ${extractedCredits.toFixed(2)} differ from the statement total ${summary.totalCredits.toFixed(2)} by ${deltas.credits.toFixed(2)}`);
+            }
+        }
+
+        if (summary?.previousBalance !== undefined && summary.closingBalance !== undefined) {
+            const impliedClosing = this.round(summary.previousBalance + extractedDebits - extractedCredits);
+            deltas.closingBalance = this.round(impliedClosing - summary.closingBalance);
+            scores.push(this.score(deltas.closingBalance, summary.closingBalance));
+            if (!this.withinTolerance(deltas.closingBalance)) {
+                warnings.push(`Closing balance implied by the transactions ${impliedClosing.toFixed(2)} differs from the statement's ${summary.closingBalance.toFixed(2)} by ${deltas.closingBalance.toFixed(2)}`);
+            }
+
+            // A summary that doesn't add up on its own was probably misread
+            if (summary.totalDebits !== undefined && summary.totalCredits !== undefined) {
+                const printedDelta = this.round(
+                    summary.previousBalance + summary.totalDebits - summary.totalCredits - summary.closingBalance
+                );
+                if (!this.withinTolerance(printedDelta)) {
+                    warnings.push(`Statement summary does not add up (off by ${printedDelta.toFixed(2)}); its totals may have been misread`);
+                }
+            }
+        }
+
+        if (scores.length === 0) {
+            return { status: 'unavailable', score: null, extractedDebits, extractedCredits, deltas, warnings };
+        }
+
+        const score = Math.min(...scores);
+
+        return {
+            status: score === 1 ? 'reconciled' : 'mismatch',
+            score,
+            extractedDebits,
+            extractedCredits,
+            deltas,
+            warnings
+        };
+    }
+
+    /**
+     * Reconcile a statement, store the printed summary and result on it, and
+     * flag the session for review when any of its statements reconciles poorly
+     */
+    async reconcileAndStore(
+        sessionId: string,
+        statementId: string,
+        transactions: { amount: number }[],
+        summary?: StatementBalanceSummary
+    ): Promise<BalanceReconciliation> {
+        const reconciliation = this.reconcile(transactions, summary);
+
+        await prisma.statement.update({
+            where: { id: statementId },
+            data: {
+                previousBalance: summary?.previousBalance ?? null,
+                totalDebits: summary?.totalDebits ?? null,
+                totalCredits: summary?.totalCredits ?? null,
+                closingBalance: summary?.closingBalance ?? null,
+                reconciliationStatus: reconciliation.status,
+                reconciliationScore: reconciliation.score
+            }
+        });
+
+        // The session is only as trustworthy as its worst statement
+        const statements = await prisma.statement.findMany({
+            where: { sessionId, reconciliationScore: { not: null } },
+            select: { reconciliationScore: true }
+        });
+        const sessionScore = statements.length > 0
+            ? Math.min(...statements.map((statement: { reconciliationScore: unknown }) => Number(statement.reconciliationScore)))
+            : null;
+        const needsReview = sessionScore !== null && sessionScore < env.RECONCILIATION_REVIEW_THRESHOLD;
+
+        await prisma.session.update({
+            where: { id: sessionId },
+            data: { reconciliationScore: sessionScore, needsReview }
+        });
+
+        logger.info('Statement balances reconciled', {
+            sessionId,
+            statementId,
+            status: reconciliation.status,
+            score: reconciliation.score,
+            deltas: reconciliation.deltas,
+            needsReview
+        });
+
+        return reconciliation;
+    }
+
+    /**
+     * 1 within tolerance, otherwise falling with the delta's share of the expected amount
+     */
+    private score(delta: number, expected: number): number {
+        if (this.withinTolerance(delta)) {
+            return 1;
+        }
+
+        return this.round(Math.max(0, 1 - Math.abs(delta) / Math.max(Math.abs(expected), 1)));
+    }
+
+    private withinTolerance(delta: number): boolean {
+        return Math.abs(delta) <= env.RECONCILIATION_TOLERANCE;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+// Export singleton instance
+export const balanceReconciliationService = new BalanceReconciliationService();
@@ -0,0 +1,337 @@
+/**
+ * Billing Cycle Service
+ * Works out the period a statement covers, from the statement text when it states one
+ * and from the first and last transaction dates otherwise; a session's cycle is the
+ * union of its statements' cycles
+ */
+
+import { prisma } from '@/database/db';
+import { logger } from '@/shared/utils/logger.util';
+
+export type BillingCycleSource = 'statement_period' | 'statement_date' | 'transactions';
+
+export interface BillingCycle {
+    periodStart: Date;
+    periodEnd: Date;
+    statementDate?: Date;
+    paymentDueDate?: Date;
+    source: BillingCycleSource;
+    months: number; // Period length in (average-length) months, never below 1
+    cycleStartDay: number; // Day of month the cycle starts on, used to bucket caps
+}
+
+interface StatementDates {
+    periodStart?: Date;
+    periodEnd?: Date;
+    statementDate?: Date;
+    paymentDueDate?: Date;
+}
+
+const MS_PER_DAY = 86_400_000;
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+const MAX_DAY_OF_MONTH = 31;
+const TWO_DIGIT_YEAR_BASE = 2000; // Statements print "25" for 2025
+const MONTH_ABBREVIATION_LENGTH = 3;
+
+const MONTHS: Record<string, number> = {
+    jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+    jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+// A single date as printed on Indian statements: 15/09/2025, 15-09-25, 15 Sep 2025, Sep 15, 2025, 2025-09-15
+const DATE_PATTERN = String.raw`(\d{4}-\d{2}-\d{2}|\d{1,2}[/\-.]\d{1,2}[/\-.]\d{2,4}|\d{1,2}[\s\-]?[A-Za-z]{3,9}[\s\-,]*\d{2,4}|[A-Za-z]{3,9}\s+\d{1,2},?\s+\d{4})`;
+
+const PERIOD_LABELS = /(?:statement|billing)\s+(?:period|cycle)|period\s+covered/i;
+const STATEMENT_DATE_LABELS = /statement\s+(?:generation\s+)?date|bill(?:ing)?\s+date|date\s+of\s+statement/i;
+const DUE_DATE_LABELS = /(?:payment\s+)?due\s+date|pay\s+by/i;
+
+export class BillingCycleService {
+    /**
+     * Detect the billing cycle from statement text, falling back to transaction dates
+     */
+    detect(text: string | null | undefined, transactionDates: Date[]): BillingCycle | null {
+        const stated = text ? this.parseStatementDates(text) : {};
+        const dated = transactionDates
+            .filter(date => !isNaN(date.getTime()))
+            .sort((a, b) => a.getTime() - b.getTime());
+
+        if (stated.periodStart && stated.periodEnd && stated.periodStart < stated.periodEnd) {
+            return this.buildCycle(stated.periodStart, stated.periodEnd, 'statement_period', stated);
+        }
+
+        if (stated.statementDate) {
+            // A statement closes on its statement date and opens the day after the previous one
+            const previous = new Date(stated.statementDate);
+            previous.setUTCMonth(previous.getUTCMonth() - 1);
+            const cycleStart = new Date(previous.getTime() + MS_PER_DAY);
+            const periodStart = dated.length > 0 && dated[0] < cycleStart ? dated[0] : cycleStart;
+
+            return this.buildCycle(periodStart, stated.statementDate, 'statement_date', stated);
+        }
+
+        if (dated.length === 0) return null;
+
+        return this.buildCycle(dated[0], dated[dated.length - 1], 'transactions', stated);
+    }
+
+    /**
+     * Merge statement cycles into one; months counts only the days some statement covers,
+     * so gaps between statements don't dilute monthly averages
+     */
+    merge(cycles: BillingCycle[]): BillingCycle | null {
+        if (cycles.length <= 1) return cycles[0] ?? null;
+
+        const sorted = [...cycles].sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+        const latest = sorted.reduce((a, b) => (b.periodEnd > a.periodEnd ? b : a));
+
+        let coveredDays = 0;
+        let spanStart = sorted[0].periodStart;
+        let spanEnd = sorted[0].periodEnd;
+        for (const cycle of sorted.slice(1)) {
+            // Back-to-back cycles (one closes the day before the next opens) form one span
+            if (cycle.periodStart.getTime() <= spanEnd.getTime() + MS_PER_DAY) {
+                if (cycle.periodEnd > spanEnd) spanEnd = cycle.periodEnd;
+                continue;
+            }
+            coveredDays += this.countDays(spanStart, spanEnd);
+            spanStart = cycle.periodStart;
+            spanEnd = cycle.periodEnd;
+        }
+        coveredDays += this.countDays(spanStart, spanEnd);
+
+        return {
+            periodStart: sorted[0].periodStart,
+            periodEnd: latest.periodEnd,
+            statementDate: latest.statementDate,
+            paymentDueDate: latest.paymentDueDate,
+            source: cycles.every(cycle => cycle.source !== 'transactions') ? latest.source : 'transactions',
+            months: Math.max(1, coveredDays / AVERAGE_DAYS_PER_MONTH),
+            cycleStartDay: latest.cycleStartDay
+        };
+    }
+
+    /**
+     * Detect the billing cycle and store it on the statement (or on the session for single-file uploads)
+     */
+    async detectAndStore(
+        sessionId: string,
+        statementId: string | undefined,
+        text: string | null | undefined,
+        transactionDates: Date[]
+    ): Promise<BillingCycle | null> {
+        const cycle = this.detect(text, transactionDates);
+        if (!cycle) return null;
+
+        if (statementId) {
+            await prisma.statement.update({ where: { id: statementId }, data: this.toColumns(cycle) });
+        } else {
+            await prisma.session.update({ where: { id: sessionId }, data: this.toColumns(cycle) });
+        }
+
+        logger.info('Billing cycle detected', {
+            sessionId,
+            statementId,
+            source: cycle.source,
+            periodStart: cycle.periodStart.toISOString().split('T')[0],
+            periodEnd: cycle.periodEnd.toISOString().split('T')[0],
+            months: cycle.months.toFixed(2)
+        });
+
+        return cycle;
+    }
+
+    /**
+     * Store the merged cycle of all extracted statements on the session
+     */
+    async refreshSessionCycle(sessionId: string): Promise<BillingCycle | null> {
+        const cycle = await this.getStatementsCycle(sessionId);
+        if (!cycle) return null;
+
+        await prisma.session.update({ where: { id: sessionId }, data: this.toColumns(cycle) });
+        return cycle;
+    }
+
+    /**
+     * Merged cycle of the session's statements, the cycle stored on the session,
+     * or one derived from its transactions for older sessions
+     */
+    async getForSession(sessionId: string): Promise<BillingCycle | null> {
+        const statementsCycle = await this.getStatementsCycle(sessionId);
+        if (statementsCycle) return statementsCycle;
+
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: {
+                billingPeriodStart: true,
+                billingPeriodEnd: true,
+                statementDate: true,
+                paymentDueDate: true,
+                billingCycleSource: true
+            }
+        });
+
+        if (session?.billingPeriodStart && session.billingPeriodEnd) {
+            return this.buildCycle(
+                session.billingPeriodStart,
+                session.billingPeriodEnd,
+                (session.billingCycleSource as BillingCycleSource | null) ?? 'transactions',
+                {
+                    statementDate: session.statementDate ?? undefined,
+                    paymentDueDate: session.paymentDueDate ?? undefined
+                }
+            );
+        }
+
+        const transactions = await prisma.transaction.findMany({
+            where: { sessionId, amount: { gt: 0 } },
+            select: { date: true }
+        });
+
+        return this.detect(null, transactions.map(t => new Date(t.date)));
+    }
+
+    /**
+     * Pull the statement period, statement date and payment due date out of the statement text
+     */
+    parseStatementDates(text: string): StatementDates {
+        const result: StatementDates = {};
+        const lines = text.split('\n');
+
+        for (let i = 0; i < lines.length; i++) {
+            // Labels and values are often split across adjacent lines in extracted PDF text
+            const window = `${lines[i]} ${lines[i + 1] ?? ''}`;
+
+            if (!result.periodStart && PERIOD_LABELS.test(lines[i])) {
+                const range = new RegExp(`${DATE_PATTERN}\\s*(?:to|-|–|till|through)\\s*${DATE_PATTERN}`, 'i').exec(window);
+                if (range) {
+                    result.periodStart = this.parseDate(range[1]);
+                    result.periodEnd = this.parseDate(range[2]);
+                }
+            }
+
+            if (!result.statementDate && STATEMENT_DATE_LABELS.test(lines[i])) {
+                result.statementDate = this.findDateAfterLabel(window, STATEMENT_DATE_LABELS);
+            }
+
+            if (!result.paymentDueDate && DUE_DATE_LABELS.test(lines[i])) {
+                result.paymentDueDate = this.findDateAfterLabel(window, DUE_DATE_LABELS);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Parse a date in any of the formats printed on statements (day-first for numeric dates)
+     */
+    parseDate(value: string): Date | undefined {
+        const trimmed = value.trim().replace(/,/g, ' ');
+        let day: number;
+        let month: number | undefined;
+        let year: number;
+
+        const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+        const numeric = /^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2,4})$/.exec(trimmed);
+        const dayFirst = /^(\d{1,2})[\s-]?([A-Za-z]{3,9})[\s-]*(\d{2,4})$/.exec(trimmed);
+        const monthFirst = /^([A-Za-z]{3,9})\s+(\d{1,2})\s+(\d{4})$/.exec(trimmed);
+
+        if (iso) {
+            [year, month, day] = [Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])];
+        } else if (numeric) {
+            [day, month, year] = [Number(numeric[1]), Number(numeric[2]) - 1, Number(numeric[3])];
+        } else if (dayFirst) {
+            [day, month, year] = [Number(dayFirst[1]), this.monthIndex(dayFirst[2]), Number(dayFirst[3])];
+        } else if (monthFirst) {
+            [month, day, year] = [this.monthIndex(monthFirst[1]), Number(monthFirst[2]), Number(monthFirst[3])];
+        } else {
+            return undefined;
+        }
+
+        if (month === undefined || month < 0 || month > MONTHS.dec || day < 1 || day > MAX_DAY_OF_MONTH) return undefined;
+        if (year < 100) year += TWO_DIGIT_YEAR_BASE;
+
+        const date = new Date(Date.UTC(year, month, day));
+        return date.getUTCDate() === day ? date : undefined;
+    }
+
+    /**
+     * Month index (0-11) of a month name or abbreviation, e.g. "Sep" or "September"
+     */
+    private monthIndex(name: string): number | undefined {
+        return MONTHS[name.slice(0, MONTH_ABBREVIATION_LENGTH).toLowerCase()];
+    }
+
+    /**
+     * Merged cycle of the session's extracted statements, if any have one
+     */
+    private async getStatementsCycle(sessionId: string): Promise<BillingCycle | null> {
+        const statements = await prisma.statement.findMany({
+            where: { sessionId, status: 'extracted', billingPeriodStart: { not: null }, billingPeriodEnd: { not: null } },
+            select: {
+                billingPeriodStart: true,
+                billingPeriodEnd: true,
+                statementDate: true,
+                paymentDueDate: true,
+                billingCycleSource: true
+            }
+        });
+
+        return this.merge(statements.map(statement => this.buildCycle(
+            statement.billingPeriodStart!,
+            statement.billingPeriodEnd!,
+            (statement.billingCycleSource as BillingCycleSource | null) ?? 'transactions',
+            {
+                statementDate: statement.statementDate ?? undefined,
+                paymentDueDate: statement.paymentDueDate ?? undefined
+            }
+        )));
+    }
+
+    private toColumns(cycle: BillingCycle) {
+        return {
+            billingPeriodStart: cycle.periodStart,
+            billingPeriodEnd: cycle.periodEnd,
+            statementDate: cycle.statementDate ?? null,
+            paymentDueDate: cycle.paymentDueDate ?? null,
+            billingCycleSource: cycle.source
+        };
+    }
+
+    private countDays(start: Date, end: Date): number {
+        return (end.getTime() - start.getTime()) / MS_PER_DAY + 1;
+    }
+
+    /**
+     * First parseable date following a label
+     */
+    private findDateAfterLabel(window: string, label: RegExp): Date | undefined {
+        const match = label.exec(window);
+        if (!match) return undefined;
+
+        const rest = window.slice(match.index + match[0].length);
+        const date = new RegExp(DATE_PATTERN).exec(rest);
+        return date ? this.parseDate(date[1]) : undefined;
+    }
+
+    private buildCycle(
+        periodStart: Date,
+        periodEnd: Date,
+        source: BillingCycleSource,
+        stated: StatementDates
+    ): BillingCycle {
+        const days = this.countDays(periodStart, periodEnd);
+
+        return {
+            periodStart,
+            periodEnd,
+            statementDate: stated.statementDate,
+            paymentDueDate: stated.paymentDueDate,
+            source,
+            months: Math.max(1, days / AVERAGE_DAYS_PER_MONTH),
+            cycleStartDay: periodStart.getUTCDate()
+        };
+    }
+}
+
+// Export singleton instance
+export const billingCycleService = new BillingCycleService();
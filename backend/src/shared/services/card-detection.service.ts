@@ -0,0 +1,210 @@
+/**
+ * Card Detection Service
+ * Works out which issuer and catalog card a statement belongs to from its text,
+ * so transactions can be attributed to the card they were charged to
+ */
+
+import { prisma } from '@/database/db';
+import { logger } from '@/shared/utils/logger.util';
+import { ApiError } from '@/shared/utils/api-error.util';
+import { StatusCodes } from '@/shared/constants/http-status.constants';
+
+export interface CardDetection {
+    issuerId?: string;
+    issuerName?: string;
+    cardId?: string;
+    cardName?: string;
+    confidence: number; // 0-1; card matches score higher than issuer-only matches
+}
+
+// Words that appear in most card names and say nothing about which card it is
+const GENERIC_CARD_WORDS = new Set(['credit', 'card', 'bank', 'the', 'of']);
+
+const ISSUER_ONLY_CONFIDENCE = 0.5;
+const CARD_MATCH_CONFIDENCE = 0.9;
+
+export class CardDetectionService {
+    /**
+     * Detect the issuer and card named in the statement text, preferring the
+     * printed card variant when extraction found one
+     */
+    async detect(text: string, cardVariant?: string): Promise<CardDetection> {
+        const normalizedText = this.normalize(text);
+        const normalizedVariant = cardVariant ? this.normalize(cardVariant) : '';
+
+        const issuers = await prisma.cardIssuer.findMany({
+            where: { isActive: true },
+            select: { id: true, name: true, slug: true }
+        });
+
+        // The issuer named most often is the one that sent the statement
+        let issuer: { id: string; name: string } | undefined;
+        let issuerMentions = 0;
+        for (const candidate of issuers) {
+            const mentions = this.countMentions(normalizedText, this.getIssuerAliases(candidate));
+            if (mentions > issuerMentions) {
+                issuer = candidate;
+                issuerMentions = mentions;
+            }
+        }
+
+        if (!issuer) {
+            return { confidence: 0 };
+        }
+
+        const cards = await prisma.creditCard.findMany({
+            where: { issuerId: issuer.id, isActive: true },
+            select: { id: true, name: true }
+        });
+
+        // Prefer the card whose distinctive name words all appear, most specific name first
+        const issuerWords = new Set(this.tokenize(issuer.name));
+        let card: { id: string; name: string } | undefined;
+        let cardWords = 0;
+        for (const searchText of [normalizedVariant, normalizedText]) {
+            for (const candidate of cards) {
+                const words = this.tokenize(candidate.name)
+                    .filter(word => !GENERIC_CARD_WORDS.has(word) && !issuerWords.has(word));
+
+                if (words.length > cardWords && words.every(word => this.containsWord(searchText, word))) {
+                    card = candidate;
+                    cardWords = words.length;
+                }
+            }
+
+            if (card) {
+                break;
+            }
+        }
+
+        return {
+            issuerId: issuer.id,
+            issuerName: issuer.name,
+            cardId: card?.id,
+            cardName: card?.name,
+            confidence: card ? CARD_MATCH_CONFIDENCE : ISSUER_ONLY_CONFIDENCE
+        };
+    }
+
+    /**
+     * Detect the card and store it on the statement, unless the user already confirmed one
+     */
+    async detectAndStore(statementId: string, text: string, cardVariant?: string): Promise<CardDetection> {
+        const statement = await prisma.statement.findUnique({
+            where: { id: statementId },
+            select: { cardConfirmed: true, issuerId: true, cardId: true }
+        });
+
+        if (statement?.cardConfirmed) {
+            return {
+                issuerId: statement.issuerId ?? undefined,
+                cardId: statement.cardId ?? undefined,
+                confidence: 1
+            };
+        }
+
+        const detection = await this.detect(text, cardVariant);
+
+        await prisma.statement.update({
+            where: { id: statementId },
+            data: {
+                issuerId: detection.issuerId ?? null,
+                cardId: detection.cardId ?? null,
+                cardDetectionConfidence: detection.confidence
+            }
+        });
+
+        logger.info('Statement card detected', {
+            statementId,
+            issuer: detection.issuerName,
+            card: detection.cardName,
+            confidence: detection.confidence
+        });
+
+        return detection;
+    }
+
+    /**
+     * Record the user's confirmation (or correction) of a statement's card and
+     * re-attribute its transactions
+     */
+    async confirmCard(sessionId: string, statementId: string, cardIdOrSlug: string): Promise<CardDetection> {
+        const statement = await prisma.statement.findFirst({
+            where: { id: statementId, sessionId },
+            select: { id: true }
+        });
+
+        if (!statement) {
+            throw new ApiError('Statement not found', StatusCodes.NOT_FOUND);
+        }
+
+        const card = await prisma.creditCard.findFirst({
+            where: { OR: [{ id: cardIdOrSlug }, { slug: cardIdOrSlug }] },
+            select: { id: true, name: true, issuerId: true, issuer: { select: { name: true } } }
+        });
+
+        if (!card) {
+            throw new ApiError('Credit card not found', StatusCodes.NOT_FOUND);
+        }
+
+        await prisma.statement.update({
+            where: { id: statementId },
+            data: {
+                issuerId: card.issuerId,
+                cardId: card.id,
+                cardDetectionConfidence: 1,
+                cardConfirmed: true
+            }
+        });
+
+        await prisma.transaction.updateMany({
+            where: { statementId },
+            data: { sourceCardId: card.id }
+        });
+
+        return {
+            issuerId: card.issuerId,
+            issuerName: card.issuer.name,
+            cardId: card.id,
+            cardName: card.name,
+            confidence: 1
+        };
+    }
+
+    /**
+     * Names an issuer goes by on its statements ("HDFC Bank" also prints as "HDFC")
+     */
+    private getIssuerAliases(issuer: { name: string; slug: string }): string[] {
+        const name = this.normalize(issuer.name);
+        const shortName = name.replace(/\b(bank|card|cards)\b/g, '').trim();
+
+        return [...new Set([name, shortName, this.normalize(issuer.slug.replace(/-/g, ' '))])]
+            .filter(alias => alias.length > 1);
+    }
+
+    private countMentions(text: string, aliases: string[]): number {
+        return aliases.reduce((count, alias) => {
+            const matches = text.match(new RegExp(`\\b${this.escape(alias)}\\b`, 'g'));
+            return Math.max(count, matches?.length ?? 0);
+        }, 0);
+    }
+
+    private containsWord(text: string, word: string): boolean {
+        return new RegExp(`\\b${this.escape(word)}\\b`).test(text);
+    }
+
+    private tokenize(value: string): string[] {
+        return this.normalize(value).split(' ').filter(Boolean);
+    }
+
+    private normalize(value: string): string {
+        return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    }
+
+    private escape(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
+
+// Export singleton instance
+export const cardDetectionService = new CardDetectionService();
@@ -76,6 +76,7 @@ export class CategorizationService {
     async categorizeSessionTransactions(
         sessionId: string,
         onProgress?: (progress: CategorizationProgress) => Promise<void>,
+        jobId?: string,
     ): Promise<{
         results: CategoryResult[];
         stats: CategorizationStats;
@@ -140,7 +141,10 @@ export class CategorizationService {
             ];
 
             const mccResults =
-                await mccDiscoveryService.discoverMCCCodes(unknownMerchants);
+                await mccDiscoveryService.discoverMCCCodes(unknownMerchants, undefined, {
+                    sessionId,
+                    jobId,
+                });
 
             await this.reportProgress(onProgress, {
                 step: 'mcc_discovered',
@@ -585,7 +585,7 @@ export class FileValidationService {
 
         if (result.pdfInfo?.isEncrypted) {
             result.recommendations.push(
-                'Remove password protection before uploading for better processing',
+                'Provide the statement password so it can be decrypted for processing',
             );
         }
 
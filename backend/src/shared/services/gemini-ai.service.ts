@@ -1,13 +1,23 @@
-import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
-import { env } from '@/shared/config/env.config';
+import { z } from 'zod';
 import { logger } from '@/shared/utils/logger.util';
 import { categoryMappingService } from './category-mapping.service';
+import {
+  LLMGenerateOptions,
+  LLMProviderError,
+  llmProviderService,
+  LLMResponse,
+  LLMTask,
+} from './llm-provider.service';
+import { AIUsageContext, aiUsageService } from './ai-usage.service';
 import { ApiError } from '@/shared/utils/api-error.util';
 import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
 
 /**
  * Gemini AI Service
- * Handles integration with Google's Gemini AI models for transaction extraction and MCC discovery
+ * Builds the prompts for transaction extraction and MCC discovery and parses the
+ * model responses. The model behind each task (Gemini by default) comes from the
+ * LLM provider service.
  */
 
 export interface Transaction {
@@ -19,10 +29,31 @@ export interface Transaction {
   confidence: number; // 0-1 confidence score
 }
 
+// Statement-level rewards summary, as printed by the issuer
+export interface StatementRewardsSummary {
+  openingPoints?: number;
+  pointsEarned?: number;
+  pointsRedeemed?: number;
+  closingPoints?: number;
+  cashbackCredited?: number; // Currency amount credited as cashback this statement
+}
+
+// Statement account summary, as printed by the issuer; used to check the
+// extracted transactions are complete
+export interface StatementBalanceSummary {
+  previousBalance?: number;
+  totalDebits?: number; // Purchases, fees and other charges this statement
+  totalCredits?: number; // Payments, refunds and other credits this statement
+  closingBalance?: number; // Total amount due
+}
+
 export interface TransactionExtractionResult {
   transactions: Transaction[];
   totalFound: number;
   confidence: number;
+  rewardsSummary?: StatementRewardsSummary;
+  balanceSummary?: StatementBalanceSummary;
+  cardVariant?: string; // Card product name as printed, e.g. "Regalia Gold"
   processingNotes?: string;
   warnings?: string[];
   rawExtractedData?: any;
@@ -51,34 +82,136 @@ export interface MCCDiscoveryBatchResult {
   errors?: string[];
 }
 
-export class GeminiAIService {
-  private cheapModel: GenerativeModel;
-  private premiumModel: GenerativeModel;
-  private genAI: GoogleGenerativeAI;
+// Response schemas: sent to the provider to request structured JSON output, and
+// used to validate what comes back. Numbers must be JSON numbers, not strings.
+const transactionSchema = z
+  .object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a YYYY-MM-DD date')
+      .refine((date) => !isNaN(new Date(date).getTime()), 'must be a valid date'),
+    description: z.string().optional(),
+    merchant: z.string().trim().min(2, 'must be at least 2 characters'),
+    amount: z.number(),
+    type: z.enum(['debit', 'credit', 'payment', 'fee', 'interest', 'other']),
+    confidence: z.number().min(0).max(1),
+  })
+  .transform(
+    ({ description, ...transaction }): Transaction => ({
+      ...transaction,
+      description: description?.trim() ? description.trim() : transaction.merchant,
+    }),
+  );
+
+const rewardsSummarySchema = z.object({
+  openingPoints: z.number().min(0).nullish(),
+  pointsEarned: z.number().min(0).nullish(),
+  pointsRedeemed: z.number().min(0).nullish(),
+  closingPoints: z.number().min(0).nullish(),
+  cashbackCredited: z.number().min(0).nullish(),
+});
+
+const balanceSummarySchema = z.object({
+  previousBalance: z.number().nullish(), // Negative when in credit
+  totalDebits: z.number().min(0).nullish(),
+  totalCredits: z.number().min(0).nullish(),
+  closingBalance: z.number().nullish(),
+});
+
+const transactionExtractionResponseSchema = z.object({
+  transactions: z.array(transactionSchema),
+  totalFound: z.number().int().min(0).optional(),
+  confidence: z.number().min(0).max(1),
+  cardVariant: z.string().nullish(),
+  rewardsSummary: rewardsSummarySchema.nullish(),
+  balanceSummary: balanceSummarySchema.nullish(),
+  processingNotes: z.string().nullish(),
+  warnings: z.array(z.string()).optional(),
+});
+
+const mccDiscoveryResultSchema = z.object({
+  // Number of the merchant in the prompt's list; the model may tidy up the name
+  merchantIndex: z.number().int().min(1),
+  merchantName: z.string().min(1),
+  mccCode: z.string().regex(/^\d{4}$/, 'must be a 4-digit MCC code'),
+  mccDescription: z.string(),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string(),
+  category: z.string().min(1),
+  subCategory: z.string().nullish(),
+  additionalInfo: z
+    .object({
+      businessType: z.string(),
+      commonMccCodes: z.array(z.string()),
+      recommendedMcc: z.string(),
+    })
+    .nullish(),
+});
+
+const mccDiscoveryResponseSchema = z.object({
+  results: z.array(mccDiscoveryResultSchema),
+  successful: z.number().int().min(0).optional(),
+  failed: z.number().int().min(0).optional(),
+  errors: z.array(z.string()).optional(),
+});
+
+// The same envelopes with rows left unchecked, so a few bad rows that survive the
+// repair retry are dropped one by one instead of failing the whole response. The
+// statement summaries and confidence are checked field by field in the same way.
+const transactionExtractionEnvelopeSchema =
+  transactionExtractionResponseSchema.extend({
+    transactions: z.array(z.unknown()),
+    confidence: z.unknown(),
+    rewardsSummary: z.unknown(),
+    balanceSummary: z.unknown(),
+  });
+const mccDiscoveryEnvelopeSchema = mccDiscoveryResponseSchema.extend({
+  results: z.array(z.unknown()),
+});
+
+// Summary figures as the model still sometimes prints them after the repair
+// retry, e.g. "1,200" instead of 1200
+const summaryAmountSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? Number(value.replace(/,/g, '')) : value),
+  z.number().finite(),
+);
+
+const rewardsSummaryFieldSchemas: Record<keyof StatementRewardsSummary, z.ZodType<number>> = {
+  openingPoints: summaryAmountSchema.pipe(z.number().min(0)),
+  pointsEarned: summaryAmountSchema.pipe(z.number().min(0)),
+  pointsRedeemed: summaryAmountSchema.pipe(z.number().min(0)),
+  closingPoints: summaryAmountSchema.pipe(z.number().min(0)),
+  cashbackCredited: summaryAmountSchema.pipe(z.number().min(0)),
+};
+
+// Totals are always positive; only balances can be in credit
+const balanceSummaryFieldSchemas: Record<keyof StatementBalanceSummary, z.ZodType<number>> = {
+  previousBalance: summaryAmountSchema,
+  totalDebits: summaryAmountSchema.transform(Math.abs),
+  totalCredits: summaryAmountSchema.transform(Math.abs),
+  closingBalance: summaryAmountSchema,
+};
+
+// Used when the response's own confidence is missing or invalid
+const DEFAULT_EXTRACTION_CONFIDENCE = 0.8;
+
+// Validation issues listed in a repair prompt or warning, at most
+const MAX_REPORTED_ISSUES = 20;
 
+export class GeminiAIService {
   constructor() {
-    if (!env.GEMINI_API_KEY) {
-      throw new Error(
-        'GEMINI_API_KEY is required for AI service initialization',
-      );
-    }
-
-    this.genAI = new GoogleGenerativeAI(env.GEMINI_API_KEY);
-    this.cheapModel = this.genAI.getGenerativeModel({
-      model: env.GEMINI_MODEL_CHEAP,
-    });
-    this.premiumModel = this.genAI.getGenerativeModel({
-      model: env.GEMINI_MODEL_PREMIUM,
-    });
+    // Resolve both providers up front so a misconfigured task fails at startup
+    const extraction = llmProviderService.getProvider('extraction');
+    const mccDiscovery = llmProviderService.getProvider('mcc_discovery');
 
     logger.info('Gemini AI Service initialized', {
-      cheapModel: env.GEMINI_MODEL_CHEAP,
-      premiumModel: env.GEMINI_MODEL_PREMIUM,
+      extraction: `${extraction.type}:${extraction.model}`,
+      mccDiscovery: `${mccDiscovery.type}:${mccDiscovery.model}`,
     });
   }
 
   /**
-   * Extract transactions from PDF text using cheap model
+   * Extract transactions from PDF text using the extraction provider
    */
   async extractTransactions(
     pdfText: string,
@@ -87,10 +220,11 @@ export class GeminiAIService {
       fileSize?: number;
       issuer?: string;
       expectedTransactionCount?: number;
+      usageContext?: AIUsageContext;
     },
   ): Promise<TransactionExtractionResult> {
     try {
-      logger.info('Starting transaction extraction with Gemini AI', {
+      logger.info('Starting transaction extraction with AI', {
         textLength: pdfText.length,
         fileName: contextInfo?.fileName,
         expectedTransactions: contextInfo?.expectedTransactionCount,
@@ -101,16 +235,17 @@ export class GeminiAIService {
         contextInfo,
       );
 
-      const result = await this.cheapModel.generateContent(prompt);
-      const responseText = result.response.text();
-
-      logger.debug('Raw Gemini response for transaction extraction', {
-        responseLength: responseText.length,
-        response: `${responseText.substring(0, 500)}...`,
-      });
+      const { json, repairedIssues } = await this.generateValidatedJson(
+        'extraction',
+        prompt,
+        transactionExtractionResponseSchema,
+        contextInfo?.usageContext,
+      );
 
-      const extractionResult =
-        this.parseTransactionExtractionResponse(responseText);
+      const extractionResult = this.parseTransactionExtractionResponse(
+        json,
+        repairedIssues,
+      );
 
       logger.info('Transaction extraction completed', {
         transactionsFound: extractionResult.totalFound,
@@ -126,13 +261,14 @@ export class GeminiAIService {
   }
 
   /**
-   * Discover MCC codes for unknown merchants using premium model
+   * Discover MCC codes for unknown merchants using the MCC discovery provider
    */
   async discoverMCCCodes(
     merchants: string[],
     context?: {
       existingMccCodes?: Record<string, string>;
       preferredCategories?: string[];
+      usageContext?: AIUsageContext;
     },
   ): Promise<MCCDiscoveryBatchResult> {
     try {
@@ -174,6 +310,15 @@ export class GeminiAIService {
           errors.push(
             `Batch ${i}-${i + batchSize} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
           );
+
+          // Later batches would hit the same exhausted budget
+          if (
+            error instanceof ApiError &&
+            error.code === ERROR_CODES.AI_BUDGET_EXCEEDED
+          ) {
+            failed += Math.max(0, merchants.length - (i + batchSize));
+            break;
+          }
         }
       }
 
@@ -336,6 +481,20 @@ Return ONLY valid JSON in this exact format:
   ],
   "totalFound": 1,
   "confidence": 0.95,
+  "cardVariant": "Millennia",
+  "rewardsSummary": {
+    "openingPoints": 1200,
+    "pointsEarned": 340,
+    "pointsRedeemed": 0,
+    "closingPoints": 1540,
+    "cashbackCredited": 0
+  },
+  "balanceSummary": {
+    "previousBalance": 12500.00,
+    "totalDebits": 45.67,
+    "totalCredits": 12500.00,
+    "closingBalance": 45.67
+  },
   "processingNotes": "Successfully extracted transactions from statement",
   "warnings": []
 }
@@ -348,6 +507,12 @@ Rules:
 - Be conservative with confidence scores
 - Include warnings for any data quality issues
 
+Also capture, when the statement shows them:
+- cardVariant: the card product name as printed (e.g. "Regalia Gold", "Ace"), without the issuer name
+- rewardsSummary: the reward points summary (opening balance, points earned, points redeemed, closing balance) and any cashback credited this statement
+- balanceSummary: the account summary amounts (previous balance, total purchases/debits including fees, total payments/credits, and closing balance or total amount due), as positive numbers; a closing or previous balance in credit (shown as "CR") is negative
+Omit a field (or use null) when the statement doesn't show it; never estimate it from the transactions.
+
 IMPORTANT: If the statement contains tabular data with multiple numeric columns (like NeuCoins, reward points, or other values), make sure to extract ONLY the transaction amount in the "amount" field, NOT other numeric values like reward points, reference numbers, or loyalty program credits. Look for column headers or context to identify which column contains the actual transaction amount.
 
 For example, if you see data like:
@@ -360,42 +525,187 @@ ${pdfText}
   }
 
   /**
-   * Parse transaction extraction response
+   * Generate a JSON response and validate it against the schema. A response that
+   * doesn't match is sent back once with a repair prompt listing the errors; the
+   * issues it had are returned so callers can report them.
    */
-  private parseTransactionExtractionResponse(
+  private async generateValidatedJson(
+    task: LLMTask,
+    prompt: string,
+    schema: z.ZodType,
+    usageContext?: AIUsageContext,
+  ): Promise<{ json: unknown; repairedIssues: string[] }> {
+    const responseSchema = z.toJSONSchema(schema, { io: 'input' });
+
+    const response = await this.generate(
+      task,
+      prompt,
+      { responseSchema },
+      usageContext,
+    );
+
+    logger.debug(`Raw AI response for ${task}`, {
+      responseLength: response.text.length,
+      response: `${response.text.substring(0, 500)}...`,
+    });
+
+    const json = this.parseJson(response.text);
+    const issues = this.getSchemaIssues(schema, json);
+    if (issues.length === 0) {
+      return { json, repairedIssues: [] };
+    }
+
+    logger.warn('AI response failed schema validation, retrying with repair prompt', {
+      task,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+    });
+
+    const repair = await this.generate(
+      task,
+      this.buildRepairPrompt(responseSchema, response.text, issues),
+      { responseSchema },
+      usageContext,
+    );
+    const repairedJson = this.parseJson(repair.text);
+
+    logger.info('AI response repair completed', {
+      task,
+      remainingIssues: this.getSchemaIssues(schema, repairedJson).length,
+    });
+
+    return {
+      // A repair that isn't even JSON is worse than the original
+      json: repairedJson === undefined ? json : repairedJson,
+      repairedIssues: issues,
+    };
+  }
+
+  /**
+   * Call the task's provider within the session's token budget, recording the
+   * call's tokens, latency and cost whether or not it succeeds
+   */
+  private async generate(
+    task: LLMTask,
+    prompt: string,
+    options: LLMGenerateOptions,
+    usageContext?: AIUsageContext,
+  ): Promise<LLMResponse> {
+    const reservedTokens = await aiUsageService.reserveTokens(
+      usageContext,
+      prompt.length,
+    );
+
+    const provider = llmProviderService.getProvider(task);
+    const startTime = Date.now();
+    let response: LLMResponse | undefined;
+
+    try {
+      response = await provider.generate(prompt, options);
+      return response;
+    } finally {
+      await aiUsageService.record({
+        ...usageContext,
+        task,
+        provider: provider.type,
+        model: provider.model,
+        usage: response?.usage,
+        promptLength: prompt.length,
+        responseLength: response?.text.length ?? 0,
+        latencyMs: Date.now() - startTime,
+        success: response !== undefined,
+        reservedTokens,
+      });
+    }
+  }
+
+  /**
+   * Build the prompt asking the model to fix its own invalid response
+   */
+  private buildRepairPrompt(
+    responseSchema: object,
     responseText: string,
-  ): TransactionExtractionResult {
+    issues: string[],
+  ): string {
+    return `
+Your previous response did not match the required JSON schema.
+
+Validation errors:
+${issues
+  .slice(0, MAX_REPORTED_ISSUES)
+  .map((issue) => `- ${issue}`)
+  .join('\n')}
+
+Required JSON schema:
+${JSON.stringify(responseSchema)}
+
+Previous response:
+${responseText}
+
+Return ONLY the corrected JSON. Fix the fields listed above and keep everything else unchanged; do not add, remove or reorder items.
+    `.trim();
+  }
+
+  /**
+   * The JSON object in a model response, or undefined when there isn't one
+   */
+  private parseJson(responseText: string): unknown {
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return undefined;
+    }
+
     try {
-      // Clean the response to extract JSON
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return undefined;
+    }
+  }
 
-      const jsonResponse = JSON.parse(jsonMatch[0]);
+  /**
+   * Per-field validation errors, as "path: message"
+   */
+  private getSchemaIssues(schema: z.ZodType, json: unknown): string[] {
+    if (json === undefined) {
+      return ['response: not a valid JSON object'];
+    }
 
-      // Validate required fields
-      if (!Array.isArray(jsonResponse.transactions)) {
-        throw new Error('Invalid transactions format');
-      }
+    const result = schema.safeParse(json);
+    return result.success ? [] : this.formatIssues(result.error.issues);
+  }
 
-      // Validate and clean transactions
-      const validTransactions: Transaction[] = jsonResponse.transactions
-        .map((t: any) => this.validateAndCleanTransaction(t))
-        .filter(Boolean);
-
-      return {
-        transactions: validTransactions,
-        totalFound: validTransactions.length,
-        confidence: jsonResponse.confidence || 0.8,
-        processingNotes: jsonResponse.processingNotes,
-        warnings: jsonResponse.warnings || [],
-        rawExtractedData: jsonResponse,
-      };
-    } catch (error) {
+  private formatIssues(issues: z.core.$ZodIssue[]): string[] {
+    return issues.map(
+      (issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`,
+    );
+  }
+
+  /**
+   * Warning recording that a response needed the repair retry, and why
+   */
+  private describeRepair(repairedIssues: string[]): string[] {
+    if (repairedIssues.length === 0) {
+      return [];
+    }
+
+    const listed = repairedIssues.slice(0, MAX_REPORTED_ISSUES).join('; ');
+    const more = repairedIssues.length - MAX_REPORTED_ISSUES;
+    return [
+      `AI response failed schema validation and was retried with a repair prompt: ${listed}${more > 0 ? ` (and ${more} more)` : ''}`,
+    ];
+  }
+
+  /**
+   * Map a validated transaction extraction response, dropping rows that are still
+   * invalid after the repair retry
+   */
+  private parseTransactionExtractionResponse(
+    json: unknown,
+    repairedIssues: string[],
+  ): TransactionExtractionResult {
+    const envelope = transactionExtractionEnvelopeSchema.safeParse(json);
+    if (!envelope.success) {
       logger.error('Failed to parse transaction extraction response', {
-        error,
-        responseText: responseText.substring(0, 1000),
+        issues: this.formatIssues(envelope.error.issues),
       });
 
       throw new ApiError(
@@ -403,6 +713,95 @@ ${pdfText}
         StatusCodes.INTERNAL_SERVER_ERROR,
       );
     }
+
+    const transactions: Transaction[] = [];
+    const rowWarnings: string[] = [];
+    envelope.data.transactions.forEach((row, index) => {
+      const transaction = transactionSchema.safeParse(row);
+      if (transaction.success) {
+        transactions.push(transaction.data);
+      } else {
+        rowWarnings.push(
+          `Transaction ${index + 1} dropped: ${this.formatIssues(transaction.error.issues).join('; ')}`,
+        );
+      }
+    });
+
+    const { data } = envelope;
+    const fieldWarnings: string[] = [];
+
+    const confidence = z.number().min(0).max(1).safeParse(data.confidence);
+    if (!confidence.success) {
+      fieldWarnings.push(
+        `confidence defaulted to ${DEFAULT_EXTRACTION_CONFIDENCE}: ${confidence.error.issues.map((issue) => issue.message).join('; ')}`,
+      );
+    }
+
+    return {
+      transactions,
+      totalFound: transactions.length,
+      confidence: confidence.success ? confidence.data : DEFAULT_EXTRACTION_CONFIDENCE,
+      rewardsSummary: this.parseSummary(
+        'rewardsSummary',
+        data.rewardsSummary,
+        rewardsSummaryFieldSchemas,
+        fieldWarnings,
+      ),
+      balanceSummary: this.parseSummary(
+        'balanceSummary',
+        data.balanceSummary,
+        balanceSummaryFieldSchemas,
+        fieldWarnings,
+      ),
+      cardVariant: data.cardVariant?.trim() ? data.cardVariant.trim() : undefined,
+      processingNotes: data.processingNotes ?? undefined,
+      warnings: [
+        ...(data.warnings ?? []),
+        ...this.describeRepair(repairedIssues),
+        ...rowWarnings,
+        ...fieldWarnings,
+      ],
+      rawExtractedData: json,
+    };
+  }
+
+  /**
+   * Keep only the summary figures the statement actually showed, dropping
+   * invalid ones with a warning instead of losing the whole summary
+   */
+  private parseSummary<T extends Record<string, number | undefined>>(
+    name: string,
+    summary: unknown,
+    fieldSchemas: Record<keyof T, z.ZodType<number>>,
+    warnings: string[],
+  ): T | undefined {
+    if (summary === null || summary === undefined) {
+      return undefined;
+    }
+
+    if (typeof summary !== 'object' || Array.isArray(summary)) {
+      warnings.push(`${name} dropped: expected an object`);
+      return undefined;
+    }
+
+    const result: Record<string, number> = {};
+    for (const [field, schema] of Object.entries<z.ZodType<number>>(fieldSchemas)) {
+      const value = (summary as Record<string, unknown>)[field];
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      const parsed = schema.safeParse(value);
+      if (parsed.success) {
+        result[field] = parsed.data;
+      } else {
+        warnings.push(
+          `${name}.${field} dropped: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`,
+        );
+      }
+    }
+
+    return Object.keys(result).length > 0 ? (result as T) : undefined;
   }
 
   /**
@@ -413,14 +812,19 @@ ${pdfText}
     context?: {
       existingMccCodes?: Record<string, string>;
       preferredCategories?: string[];
+      usageContext?: AIUsageContext;
     },
   ): Promise<MCCDiscoveryBatchResult> {
     const prompt = await this.buildMCCDiscoveryPrompt(merchants, context);
 
-    const result = await this.premiumModel.generateContent(prompt);
-    const responseText = result.response.text();
+    const { json, repairedIssues } = await this.generateValidatedJson(
+      'mcc_discovery',
+      prompt,
+      mccDiscoveryResponseSchema,
+      context?.usageContext,
+    );
 
-    return this.parseMCCDiscoveryResponse(responseText, merchants);
+    return this.parseMCCDiscoveryResponse(json, merchants, repairedIssues);
   }
 
   /**
@@ -500,6 +904,7 @@ ${Object.entries(context.existingMccCodes)
       }
 
 For each merchant, provide:
+- merchantIndex: the merchant's number in the list above
 - Most appropriate 4-digit MCC code
 - MCC description
 - Business category (MUST be exactly one from the list above)
@@ -511,6 +916,7 @@ Return ONLY valid JSON in this exact format:
 {
   "results": [
     {
+      "merchantIndex": 1,
       "merchantName": "Amazon",
       "mccCode": "5399",
       "mccDescription": "Miscellaneous General Merchandise",
@@ -535,35 +941,20 @@ Use official MCC codes and be as accurate as possible. Consider the merchant's p
   }
 
   /**
-   * Parse MCC discovery response
+   * Map a validated MCC discovery response, dropping results that are still
+   * invalid after the repair retry. Each result is matched to the requested
+   * merchant by its index and carries that merchant's name, so callers can
+   * key it by what they asked for.
    */
   private parseMCCDiscoveryResponse(
-    responseText: string,
+    json: unknown,
     originalMerchants: string[],
+    repairedIssues: string[],
   ): MCCDiscoveryBatchResult {
-    try {
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in MCC discovery response');
-      }
-
-      const jsonResponse = JSON.parse(jsonMatch[0]);
-
-      if (!Array.isArray(jsonResponse.results)) {
-        throw new Error('Invalid MCC results format');
-      }
-
-      return {
-        results: jsonResponse.results,
-        successful: jsonResponse.successful || jsonResponse.results.length,
-        failed: jsonResponse.failed || 0,
-        totalProcessed: originalMerchants.length,
-        errors: jsonResponse.errors,
-      };
-    } catch (error) {
+    const envelope = mccDiscoveryEnvelopeSchema.safeParse(json);
+    if (!envelope.success) {
       logger.error('Failed to parse MCC discovery response', {
-        error,
-        responseText: responseText.substring(0, 1000),
+        issues: this.formatIssues(envelope.error.issues),
       });
 
       throw new ApiError(
@@ -571,63 +962,58 @@ Use official MCC codes and be as accurate as possible. Consider the merchant's p
         StatusCodes.INTERNAL_SERVER_ERROR,
       );
     }
-  }
 
-  /**
-   * Validate and clean a single transaction
-   */
-  private validateAndCleanTransaction(t: any): Transaction | null {
-    try {
-      // Validate required fields
-      if (!t.date || !t.merchant || typeof t.amount !== 'number') {
-        return null;
+    const results: MCCDiscoveryResult[] = [];
+    const errors: string[] = [
+      ...(envelope.data.errors ?? []),
+      ...this.describeRepair(repairedIssues),
+    ];
+    const answered = new Set<number>();
+    envelope.data.results.forEach((row, index) => {
+      const result = mccDiscoveryResultSchema.safeParse(row);
+      if (!result.success) {
+        errors.push(
+          `Result ${index + 1} dropped: ${this.formatIssues(result.error.issues).join('; ')}`,
+        );
+        return;
       }
 
-      // Validate date
-      const date = new Date(t.date);
-      if (isNaN(date.getTime())) {
-        return null;
+      const { merchantIndex, ...discovery } = result.data;
+      const merchantName = originalMerchants[merchantIndex - 1];
+      if (merchantName === undefined || answered.has(merchantIndex)) {
+        errors.push(
+          `Result ${index + 1} dropped: merchantIndex ${merchantIndex} is not an unanswered merchant`,
+        );
+        return;
       }
 
-      // Clean and validate merchant
-      const merchant = String(t.merchant).trim();
-      if (merchant.length < 2) {
-        return null;
-      }
+      answered.add(merchantIndex);
+      results.push({
+        ...discovery,
+        merchantName,
+        subCategory: discovery.subCategory ?? undefined,
+        additionalInfo: discovery.additionalInfo ?? undefined,
+      });
+    });
 
-      // Validate type
-      const validTypes = [
-        'debit',
-        'credit',
-        'payment',
-        'fee',
-        'interest',
-        'other',
-      ];
-      const type = validTypes.includes(t.type) ? t.type : 'other';
-
-      // Validate confidence
-      let confidence = typeof t.confidence === 'number' ? t.confidence : 0.5;
-      confidence = Math.max(0, Math.min(1, confidence));
-
-      return {
-        date: t.date,
-        description: String(t.description || t.merchant).trim(),
-        merchant,
-        amount: Number(t.amount),
-        type,
-        confidence,
-      };
-    } catch (error) {
-      logger.warn('Failed to validate transaction', { transaction: t, error });
-      return null;
-    }
+    return {
+      results,
+      successful: results.length,
+      failed: Math.max(0, originalMerchants.length - results.length),
+      totalProcessed: originalMerchants.length,
+      errors: errors.length > 0 ? errors : undefined,
+    };
   }
 
   /**
-   * Handle Gemini API errors
+   * Handle AI provider errors
    */
   private handleGeminiError(error: any, operation: string): ApiError {
+    // Errors with a code (e.g. an exhausted token budget) are meant for the caller
+    if (error instanceof ApiError && error.code) {
+      return error;
+    }
+
     if (error?.message?.includes('API_KEY')) {
       return new ApiError(
         'AI service configuration error',
@@ -642,7 +1028,11 @@ Use official MCC codes and be as accurate as possible. Consider the merchant's p
       );
     }
 
-    if (error?.message?.includes('RATE_LIMIT')) {
+    if (
+      error?.message?.includes('RATE_LIMIT') ||
+      (error instanceof LLMProviderError &&
+        error.status === StatusCodes.TOO_MANY_REQUESTS)
+    ) {
       return new ApiError(
         'AI service rate limit exceeded',
         StatusCodes.TOO_MANY_REQUESTS,
@@ -656,7 +1046,7 @@ Use official MCC codes and be as accurate as possible. Consider the merchant's p
       );
     }
 
-    logger.error(`Gemini AI error during ${operation}`, error);
+    logger.error(`AI provider error during ${operation}`, error);
     return new ApiError(
       `AI service error during ${operation}`,
       StatusCodes.INTERNAL_SERVER_ERROR,
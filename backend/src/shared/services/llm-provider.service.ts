@@ -0,0 +1,283 @@
+/**
+ * LLM Provider Service
+ * Model backends behind one interface, so each AI task (statement extraction,
+ * MCC discovery) can run on Gemini or on any OpenAI-compatible server, including
+ * a local model server in air-gapped environments
+ */
+
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '@/shared/config/env.config';
+import { logger } from '@/shared/utils/logger.util';
+
+export type LLMTask = 'extraction' | 'mcc_discovery';
+export type LLMProviderType = 'gemini' | 'openai';
+
+export interface LLMUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LLMGenerateOptions {
+    responseSchema?: object; // JSON schema the response must follow; requests JSON output
+}
+
+export interface LLMResponse {
+    text: string;
+    usage?: LLMUsage; // Token counts, when the backend reports them
+}
+
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    readonly model: string;
+    generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+}
+
+// Characters of a failed response's body kept in the error message
+const MAX_ERROR_BODY_LENGTH = 200;
+
+// A backend request that failed; status is set for HTTP error responses
+export class LLMProviderError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+}
+
+export class GeminiProvider implements LLMProvider {
+    readonly type = 'gemini';
+    private generativeModel: GenerativeModel;
+
+    constructor(apiKey: string, readonly model: string) {
+        this.generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+    }
+
+    async generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+        // Gemini's responseSchema takes only an OpenAPI subset, so JSON mode is requested
+        // here and the response is validated against the full schema by the caller
+        const result = await this.generativeModel.generateContent(
+            {
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                generationConfig: options?.responseSchema ? { responseMimeType: 'application/json' } : undefined
+            },
+            { signal: AbortSignal.timeout(env.LLM_REQUEST_TIMEOUT_MS) }
+        );
+        const usage = result.response.usageMetadata;
+
+        return {
+            text: result.response.text(),
+            usage: usage
+                ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount }
+                : undefined
+        };
+    }
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API (vLLM, Ollama, llama.cpp, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly type = 'openai';
+
+    constructor(private baseUrl: string, readonly model: string, private apiKey?: string) { }
+
+    async generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+        const headers = new Headers();
+        headers.set('Content-Type', 'application/json');
+        if (this.apiKey) {
+            headers.set('Authorization', `Bearer ${this.apiKey}`);
+        }
+
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0,
+                ...(options?.responseSchema
+                    ? {
+                        response_format: {
+                            type: 'json_schema',
+                            json_schema: { name: 'response', schema: options.responseSchema }
+                        }
+                    }
+                    : {})
+            }),
+            signal: AbortSignal.timeout(env.LLM_REQUEST_TIMEOUT_MS)
+        });
+
+        if (!response.ok) {
+            const body = await response.text();
+            throw new LLMProviderError(
+                `${this.model} request failed with status ${response.status}: ${body.substring(0, MAX_ERROR_BODY_LENGTH)}`,
+                response.status
+            );
+        }
+
+        const body = await response.json() as {
+            choices?: { message?: { content?: string } }[];
+            usage?: { prompt_tokens?: number; completion_tokens?: number };
+        };
+
+        const text = body.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+            throw new LLMProviderError(`${this.model} returned no completion`);
+        }
+
+        return {
+            text,
+            usage: body.usage
+                ? { inputTokens: body.usage.prompt_tokens ?? 0, outputTokens: body.usage.completion_tokens ?? 0 }
+                : undefined
+        };
+    }
+}
+
+// A recorded response, stored under the hash of its task and prompt. The prompt
+// itself is not stored, as it contains the statement text.
+interface LLMRecording {
+    task: LLMTask;
+    promptHash: string;
+    provider: LLMProviderType;
+    model: string;
+    recordedAt: string;
+    response: LLMResponse;
+}
+
+/**
+ * Where the recording for a task's prompt lives on disk
+ */
+function getRecordingPath(task: LLMTask, prompt: string): { promptHash: string; filePath: string } {
+    const promptHash = createHash('sha256').update(`${task}\n${prompt}`).digest('hex');
+    return { promptHash, filePath: path.resolve(env.LLM_RECORDINGS_DIR, task, `${promptHash}.json`) };
+}
+
+/**
+ * Passes calls through to a real provider and records each response to disk
+ */
+export class RecordingProvider implements LLMProvider {
+    constructor(private task: LLMTask, private provider: LLMProvider) { }
+
+    get type(): LLMProviderType {
+        return this.provider.type;
+    }
+
+    get model(): string {
+        return this.provider.model;
+    }
+
+    async generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+        const response = await this.provider.generate(prompt, options);
+        const { promptHash, filePath } = getRecordingPath(this.task, prompt);
+
+        const recording: LLMRecording = {
+            task: this.task,
+            promptHash,
+            provider: this.provider.type,
+            model: this.provider.model,
+            recordedAt: new Date().toISOString(),
+            response
+        };
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(recording, null, 2));
+
+        logger.debug('LLM response recorded', { task: this.task, promptHash });
+
+        return response;
+    }
+}
+
+/**
+ * Serves recorded responses without touching the network; a prompt that was
+ * never recorded is an error rather than a live call
+ */
+export class ReplayProvider implements LLMProvider {
+    constructor(private task: LLMTask, readonly type: LLMProviderType, readonly model: string) { }
+
+    async generate(prompt: string): Promise<LLMResponse> {
+        const { promptHash, filePath } = getRecordingPath(this.task, prompt);
+
+        let contents: string;
+        try {
+            contents = await fs.readFile(filePath, 'utf8');
+        } catch {
+            throw new LLMProviderError(
+                `No recorded ${this.task} response for prompt ${promptHash} in ${env.LLM_RECORDINGS_DIR}`
+            );
+        }
+
+        const recording = JSON.parse(contents) as LLMRecording;
+        logger.debug('LLM response replayed', { task: this.task, promptHash });
+
+        return recording.response;
+    }
+}
+
+export class LLMProviderService {
+    private providers = new Map<LLMTask, LLMProvider>();
+
+    /**
+     * The provider configured for a task, created on first use
+     */
+    getProvider(task: LLMTask): LLMProvider {
+        let provider = this.providers.get(task);
+
+        if (!provider) {
+            provider = this.createProvider(task);
+            this.providers.set(task, provider);
+
+            logger.info('LLM provider selected', {
+                task,
+                provider: provider.type,
+                model: provider.model,
+                recordingMode: env.LLM_RECORDING_MODE
+            });
+        }
+
+        return provider;
+    }
+
+    private createProvider(task: LLMTask): LLMProvider {
+        const type = task === 'extraction' ? env.LLM_EXTRACTION_PROVIDER : env.LLM_MCC_DISCOVERY_PROVIDER;
+        const model = task === 'extraction' ? env.LLM_EXTRACTION_MODEL : env.LLM_MCC_DISCOVERY_MODEL;
+
+        // Replay needs no backend at all, so no API key or server either
+        if (env.LLM_RECORDING_MODE === 'replay') {
+            return new ReplayProvider(task, type, model ?? 'replay');
+        }
+
+        const provider = this.createBackendProvider(task, type, model);
+
+        return env.LLM_RECORDING_MODE === 'record' ? new RecordingProvider(task, provider) : provider;
+    }
+
+    private createBackendProvider(task: LLMTask, type: LLMProviderType, model: string | undefined): LLMProvider {
+        if (type === 'openai') {
+            const openAIModel = model ?? env.OPENAI_COMPATIBLE_MODEL;
+            if (!env.OPENAI_COMPATIBLE_BASE_URL || !openAIModel) {
+                throw new Error(
+                    `OPENAI_COMPATIBLE_BASE_URL and a model are required to run ${task} on an OpenAI-compatible provider`
+                );
+            }
+
+            return new OpenAICompatibleProvider(env.OPENAI_COMPATIBLE_BASE_URL, openAIModel, env.OPENAI_COMPATIBLE_API_KEY);
+        }
+
+        if (!env.GEMINI_API_KEY) {
+            throw new Error(`GEMINI_API_KEY is required to run ${task} on Gemini`);
+        }
+
+        // Extraction is high-volume and runs on the cheap model; MCC discovery needs the premium one
+        return new GeminiProvider(
+            env.GEMINI_API_KEY,
+            model ?? (task === 'extraction' ? env.GEMINI_MODEL_CHEAP : env.GEMINI_MODEL_PREMIUM)
+        );
+    }
+}
+
+// Export singleton instance
+export const llmProviderService = new LLMProviderService();
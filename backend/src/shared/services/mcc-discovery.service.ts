@@ -5,6 +5,7 @@ import {
     MCCDiscoveryResult,
 } from './gemini-ai.service';
 import { categoryMappingService } from './category-mapping.service';
+import { AIUsageContext } from './ai-usage.service';
 import { logger } from '@/shared/utils/logger.util';
 // import { ApiError } from '@/shared/utils/api-error.util';
 // import { StatusCodes } from '@/shared/constants/http-status.constants';
@@ -36,8 +37,17 @@ export interface DiscoveryStats {
     failed: number;
     averageConfidence: number;
     processingTimeMs: number;
+    cacheHits: number; // AI lookups answered from the discovery cache
+    cacheMisses: number;
+    coalescedRequests: number; // Cache misses served by a lookup another session already had in flight
+    cacheHitRate: number; // 0-1, hits over all AI lookups
 }
 
+// An AI discovery for one cleaned merchant name, shared by every merchant that cleans to it
+type AIDiscovery = Omit<MerchantMCCResult, 'merchantName' | 'source'>;
+
+const MS_PER_HOUR = 3_600_000;
+
 export interface DiscoveryProgress {
     step: string;
     progress: number;
@@ -51,12 +61,17 @@ export class MCCDiscoveryService {
     private readonly FUZZY_THRESHOLD = env.FUZZY_MATCH_THRESHOLD;
     private readonly MIN_CONFIDENCE = 0.6;
 
+    // AI lookups in progress, by cache key; concurrent sessions wait on these
+    // instead of asking the model about the same merchant again
+    private inFlightDiscoveries = new Map<string, Promise<AIDiscovery | null>>();
+
     /**
      * Discover MCC codes for a list of unknown merchants
      */
     async discoverMCCCodes(
         merchants: string[],
         onProgress?: (progress: DiscoveryProgress) => Promise<void>,
+        usageContext?: AIUsageContext,
     ): Promise<{
         results: MerchantMCCResult[];
         stats: DiscoveryStats;
@@ -72,6 +87,10 @@ export class MCCDiscoveryService {
             failed: 0,
             averageConfidence: 0,
             processingTimeMs: 0,
+            cacheHits: 0,
+            cacheMisses: 0,
+            coalescedRequests: 0,
+            cacheHitRate: 0,
         };
 
         try {
@@ -154,6 +173,8 @@ export class MCCDiscoveryService {
                     const aiResults = await this.discoverWithAI(
                         unknownMerchants,
                         existingMccCodes,
+                        stats,
+                        usageContext,
                     );
                     results.push(...aiResults);
                     aiResults.forEach((result) => this.updateStats(stats, result));
@@ -182,6 +203,10 @@ export class MCCDiscoveryService {
                 results.length > 0
                     ? results.reduce((sum, r) => sum + r.confidence, 0) / results.length
                     : 0;
+            stats.cacheHitRate =
+                stats.cacheHits + stats.cacheMisses > 0
+                    ? stats.cacheHits / (stats.cacheHits + stats.cacheMisses)
+                    : 0;
 
             await this.reportProgress(onProgress, {
                 step: 'completed',
@@ -195,6 +220,9 @@ export class MCCDiscoveryService {
                 totalProcessed: stats.totalProcessed,
                 successful: results.length,
                 failed: stats.failed,
+                cacheHits: stats.cacheHits,
+                cacheMisses: stats.cacheMisses,
+                coalescedRequests: stats.coalescedRequests,
                 processingTimeMs: stats.processingTimeMs,
             });
 
@@ -280,14 +308,87 @@ export class MCCDiscoveryService {
     }
 
     /**
-     * Use AI to discover MCC codes for unknown merchants
+     * Use AI to discover MCC codes for unknown merchants, answering from the
+     * discovery cache or an in-flight lookup where possible
      */
     private async discoverWithAI(
         merchants: string[],
         existingMccCodes: Record<string, any>,
+        stats: DiscoveryStats,
+        usageContext?: AIUsageContext,
     ): Promise<MerchantMCCResult[]> {
         if (merchants.length === 0) return [];
 
+        // Merchants that clean to the same name share one lookup
+        const merchantsByKey = new Map<string, string[]>();
+        for (const merchant of merchants) {
+            const key = this.getCacheKey(merchant);
+            merchantsByKey.set(key, [...(merchantsByKey.get(key) ?? []), merchant]);
+        }
+
+        const cached = await this.loadCachedDiscoveries([...merchantsByKey.keys()]);
+        const discoveries = new Map<string, AIDiscovery>(cached);
+        const pending: Promise<void>[] = [];
+        const uncachedKeys: string[] = [];
+
+        for (const key of merchantsByKey.keys()) {
+            if (cached.has(key)) {
+                stats.cacheHits++;
+                continue;
+            }
+
+            stats.cacheMisses++;
+            const inFlight = this.inFlightDiscoveries.get(key);
+            if (inFlight) {
+                stats.coalescedRequests++;
+                pending.push(inFlight.then((discovery) => {
+                    if (discovery) discoveries.set(key, discovery);
+                }));
+            } else {
+                uncachedKeys.push(key);
+            }
+        }
+
+        if (uncachedKeys.length > 0) {
+            const request = this.requestDiscoveries(
+                uncachedKeys.map((key) => merchantsByKey.get(key)![0]),
+                existingMccCodes,
+                usageContext,
+            );
+
+            for (const key of uncachedKeys) {
+                const discovery = request.then((found) => found.get(key) ?? null);
+                this.inFlightDiscoveries.set(key, discovery);
+                pending.push(discovery.then((found) => {
+                    if (found) discoveries.set(key, found);
+                }));
+            }
+
+            // requestDiscoveries never rejects, so nothing is left unhandled here
+            void request.finally(() => {
+                uncachedKeys.forEach((key) => this.inFlightDiscoveries.delete(key));
+            });
+        }
+
+        await Promise.all(pending);
+
+        return [...merchantsByKey].flatMap(([key, names]) => {
+            const discovery = discoveries.get(key);
+            return discovery
+                ? names.map((merchantName) => ({ ...discovery, merchantName, source: 'ai_discovery' as const }))
+                : [];
+        });
+    }
+
+    /**
+     * Ask the AI about merchants and cache what it finds, keyed by the cleaned name of
+     * the requested merchant (results carry that name, not the one the model returned)
+     */
+    private async requestDiscoveries(
+        merchants: string[],
+        existingMccCodes: Record<string, any>,
+        usageContext?: AIUsageContext,
+    ): Promise<Map<string, AIDiscovery>> {
         try {
             logger.info(
                 `Using AI to discover MCC codes for ${merchants.length} merchants`,
@@ -297,6 +398,7 @@ export class MCCDiscoveryService {
                 existingMccCodes: Object.fromEntries(
                     Object.entries(existingMccCodes).map(([k, v]) => [k, v.mccCode]),
                 ),
+                usageContext,
             });
 
             // Validate and map categories for each result
@@ -359,14 +461,107 @@ export class MCCDiscoveryService {
                 })
             );
 
-            // Filter out null results and return valid MerchantMCCResult array
-            return validatedResults.filter((result): result is MerchantMCCResult => result !== null);
+            const discoveries = new Map<string, AIDiscovery>();
+            for (const result of validatedResults) {
+                if (result) {
+                    discoveries.set(this.getCacheKey(result.merchantName), {
+                        mccCode: result.mccCode,
+                        mccDescription: result.mccDescription,
+                        confidence: result.confidence,
+                        reasoning: result.reasoning,
+                        categoryName: result.categoryName,
+                        subCategoryName: result.subCategoryName,
+                    });
+                }
+            }
+
+            await this.cacheDiscoveries(discoveries);
+
+            return discoveries;
         } catch (error) {
             logger.error('AI MCC discovery failed', {
                 error,
                 merchantCount: merchants.length,
             });
-            return []; // Return empty array instead of throwing
+            return new Map(); // Return no discoveries instead of throwing
+        }
+    }
+
+    /**
+     * Load unexpired cached discoveries for cache keys
+     */
+    private async loadCachedDiscoveries(keys: string[]): Promise<Map<string, AIDiscovery>> {
+        const discoveries = new Map<string, AIDiscovery>();
+        if (env.MCC_DISCOVERY_CACHE_TTL_HOURS === 0 || keys.length === 0) {
+            return discoveries;
+        }
+
+        try {
+            const entries = await prisma.mCCDiscoveryCache.findMany({
+                where: {
+                    merchantKey: { in: keys },
+                    expiresAt: { gt: new Date() },
+                },
+            });
+
+            entries.forEach((entry) => {
+                discoveries.set(entry.merchantKey, {
+                    mccCode: entry.mccCode,
+                    mccDescription: entry.mccDescription,
+                    confidence: Number(entry.confidence),
+                    reasoning: entry.reasoning ?? undefined,
+                    categoryName: entry.categoryName ?? undefined,
+                    subCategoryName: entry.subCategoryName ?? undefined,
+                });
+            });
+
+            if (discoveries.size > 0) {
+                await prisma.mCCDiscoveryCache.updateMany({
+                    where: { merchantKey: { in: [...discoveries.keys()] } },
+                    data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+                });
+            }
+        } catch (error) {
+            logger.warn('Failed to read MCC discovery cache', { error });
+            // Fall through to the AI for anything not loaded
+        }
+
+        return discoveries;
+    }
+
+    /**
+     * Cache AI discoveries confident enough to reuse, for MCC_DISCOVERY_CACHE_TTL_HOURS
+     */
+    private async cacheDiscoveries(discoveries: Map<string, AIDiscovery>): Promise<void> {
+        if (env.MCC_DISCOVERY_CACHE_TTL_HOURS === 0) return;
+
+        const expiresAt = new Date(Date.now() + env.MCC_DISCOVERY_CACHE_TTL_HOURS * MS_PER_HOUR);
+
+        try {
+            await Promise.all(
+                [...discoveries]
+                    .filter(([, discovery]) => discovery.confidence >= env.MCC_DISCOVERY_CACHE_MIN_CONFIDENCE)
+                    .map(([merchantKey, discovery]) => {
+                        const entry = {
+                            mccCode: discovery.mccCode,
+                            mccDescription: discovery.mccDescription,
+                            confidence: discovery.confidence,
+                            reasoning: discovery.reasoning ?? null,
+                            categoryName: discovery.categoryName ?? null,
+                            subCategoryName: discovery.subCategoryName ?? null,
+                            expiresAt,
+                        };
+
+                        return prisma.mCCDiscoveryCache.upsert({
+                            where: { merchantKey },
+                            update: entry,
+                            create: { merchantKey, ...entry },
+                        });
+                    }),
+            );
+        } catch (error) {
+            logger.warn('Failed to write MCC discovery cache', { error });
+            // Don't throw - the discoveries are still returned
         }
     }
 
@@ -608,6 +803,14 @@ export class MCCDiscoveryService {
             .trim();
     }
 
+    /**
+     * Cache key for a merchant: its cleaned, upper-cased name, or the raw name
+     * when cleaning leaves nothing (e.g. a merchant that is only a number)
+     */
+    private getCacheKey(merchant: string): string {
+        return (this.cleanMerchantName(merchant) || merchant.trim()).toUpperCase();
+    }
+
     /**
      * Store discovered MCC codes in database
      */
@@ -3,6 +3,7 @@ import fs from 'fs/promises';
 import { logger } from '@/shared/utils/logger.util';
 import { ApiError } from '@/shared/utils/api-error.util';
 import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
 
 /**
  * PDF Parser Service
@@ -11,6 +12,7 @@ import { StatusCodes } from '@/shared/constants/http-status.constants';
 
 export interface ParsedPDFResult {
     text: string;
+    pageTexts: string[]; // Text of each page, in page order
     pages: number;
     totalPages: number;
     metadata?: {
@@ -39,11 +41,16 @@ export interface PDFParsingStats {
     likelyTransactionData: boolean;
 }
 
+// pdf.js PasswordResponses: the document needs a password, or the one given is wrong
+const PDF_NEED_PASSWORD = 1;
+const PDF_INCORRECT_PASSWORD = 2;
+
 export class PDFParserService {
     /**
-     * Parse PDF file and extract text content
+     * Parse PDF file and extract text content. Encrypted statements are decrypted
+     * in memory with the given password; nothing decrypted is written to disk.
      */
-    async parsePDF(filePath: string): Promise<ParsedPDFResult> {
+    async parsePDF(filePath: string, password?: string): Promise<ParsedPDFResult> {
         try {
             logger.info(`Starting PDF parsing for file: ${filePath}`);
 
@@ -53,9 +60,15 @@ export class PDFParserService {
             // Read file buffer
             const fileBuffer = await fs.readFile(filePath);
 
-            // Parse PDF using pdf-parse
-            const pdfData = await pdfParse(fileBuffer, {
+            // Parse PDF using pdf-parse, keeping each page's text as well
+            const pageTexts: string[] = [];
+            const pdfData = await pdfParse(this.toDocumentSource(fileBuffer, password), {
                 // Options for better text extraction
+                pagerender: async (pageData: any) => {
+                    const pageText = await this.renderPage(pageData);
+                    pageTexts[pageData.pageIndex] = pageText;
+                    return pageText;
+                },
                 max: 0, // Parse all pages (0 = no limit)
                 version: 'v1.10.100', // Specify pdf2pic version if needed
             });
@@ -63,13 +76,14 @@ export class PDFParserService {
             // Extract metadata and info
             const result: ParsedPDFResult = {
                 text: pdfData.text,
+                pageTexts: Array.from(pageTexts, (pageText) => pageText ?? ''),
                 pages: pdfData.numpages,
                 totalPages: pdfData.numpages,
                 metadata: this.extractMetadata(pdfData.metadata),
                 info: {
                     fileSize: fileBuffer.length,
                     version: pdfData.version,
-                    encrypted: false, // pdf-parse handles encrypted PDFs transparently
+                    encrypted: Boolean(password),
                 },
             };
 
@@ -82,6 +96,14 @@ export class PDFParserService {
 
             return result;
         } catch (error) {
+            const passwordError = this.toPasswordError(error, password);
+            if (passwordError) {
+                logger.warn(`PDF password check failed for file: ${filePath}`, {
+                    code: passwordError.code,
+                });
+                throw passwordError;
+            }
+
             logger.error(`PDF parsing failed for file: ${filePath}`, error);
 
             if (error instanceof Error) {
@@ -112,6 +134,24 @@ export class PDFParserService {
         }
     }
 
+    /**
+     * Check that a PDF can be opened with the given password (or without one),
+     * reading only the first page. Throws PDF_PASSWORD_REQUIRED / PDF_PASSWORD_INCORRECT.
+     */
+    async verifyPassword(filePath: string, password?: string): Promise<void> {
+        const fileBuffer = await fs.readFile(filePath);
+
+        try {
+            await pdfParse(this.toDocumentSource(fileBuffer, password), { max: 1 });
+        } catch (error) {
+            const passwordError = this.toPasswordError(error, password);
+            if (passwordError) {
+                throw passwordError;
+            }
+            // Anything else surfaces when the statement is parsed in full
+        }
+    }
+
     /**
      * Analyze parsed PDF text to extract statistics and insights
      */
@@ -181,9 +221,15 @@ export class PDFParserService {
     }
 
     /**
-     * Extract pages from PDF text (if page markers exist)
+     * Extract pages from a parsed PDF, or from PDF text (if page markers exist)
      */
-    extractPages(text: string): string[] {
+    extractPages(source: ParsedPDFResult | string): string[] {
+        if (typeof source !== 'string' && source.pageTexts.length > 0) {
+            return source.pageTexts.filter((page) => page.trim().length > 0);
+        }
+
+        const text = typeof source === 'string' ? source : source.text;
+
         // Try to split by common page indicators
         const pageMarkers = [
             /Page \d+/gi,
@@ -246,6 +292,60 @@ export class PDFParserService {
         }
     }
 
+    /**
+     * Render one page's text the way pdf-parse does by default: items on the
+     * same line are joined, a new baseline starts a new line
+     */
+    private async renderPage(pageData: pdfParse.PageData): Promise<string> {
+        const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false,
+        });
+
+        let lastY: number | undefined;
+        let text = '';
+        for (const item of textContent.items) {
+            text += lastY === item.transform[5] || lastY === undefined ? item.str : `\n${item.str}`;
+            lastY = item.transform[5];
+        }
+
+        return text;
+    }
+
+    /**
+     * The file as pdf-parse's input, with its password when it has one
+     */
+    private toDocumentSource(
+        fileBuffer: Buffer,
+        password?: string,
+    ): Buffer | pdfParse.DocumentParameters {
+        return password ? { data: fileBuffer, password } : fileBuffer;
+    }
+
+    /**
+     * Map a pdf.js PasswordException to the API's password error contract
+     */
+    private toPasswordError(error: unknown, password?: string): ApiError | null {
+        const { name, code } = (error ?? {}) as { name?: string; code?: number };
+        if (name !== 'PasswordException') {
+            return null;
+        }
+
+        if (code === PDF_INCORRECT_PASSWORD || (code === PDF_NEED_PASSWORD && password)) {
+            return new ApiError(
+                'The password for this PDF is incorrect',
+                StatusCodes.BAD_REQUEST,
+                ERROR_CODES.PDF_PASSWORD_INCORRECT,
+            );
+        }
+
+        return new ApiError(
+            'This PDF is password protected; please provide its password',
+            StatusCodes.BAD_REQUEST,
+            ERROR_CODES.PDF_PASSWORD_REQUIRED,
+        );
+    }
+
     /**
      * Extract metadata from PDF parse results
      */
@@ -0,0 +1,464 @@
+/**
+ * Portfolio Optimizer Service
+ * Searches small card combinations and routes each category or merchant to the card that earns most on it
+ */
+
+import { logger } from '@/shared/utils/logger.util';
+import { PORTFOLIO_SEARCH_LIMITS } from '@/shared/constants/recommendation.constants';
+import type {
+    CardPortfolio,
+    EnhancedCreditCard,
+    PatternTransaction,
+    PortfolioCardValue,
+    PortfolioRoute,
+    SpendingPattern
+} from '@/shared/types/recommendation.types';
+import {
+    CardSavingsAnalysis,
+    SavingsCalculationOptions,
+    savingsCalculatorService
+} from './savings-calculator.service';
+
+export interface PortfolioSearchOptions {
+    maxCards?: number;
+    annualizationFactor: number; // Projected annual spend / statement period spend
+    savingsOptions?: SavingsCalculationOptions;
+}
+
+export interface PortfolioSearchResult {
+    bestSingleCard: PortfolioCardValue | null;
+    portfolio: CardPortfolio | null;
+    alternatives: CardPortfolio[];
+}
+
+// Block of spend that is always routed to one card: a merchant within a category
+interface RouteUnit {
+    key: string;
+    pattern: SpendingPattern;
+    merchant: string;
+    transactions: PatternTransaction[];
+    spentAmount: number;
+}
+
+interface CombinationEvaluation {
+    cards: EnhancedCreditCard[];
+    assignment: Map<string, string>; // Route unit key -> card id
+    analyses: Map<string, CardSavingsAnalysis>;
+    netAnnualValue: number;
+}
+
+const OTHER_MERCHANTS = 'Other merchants';
+// Value differences below a paisa are rounding noise, not a better routing
+const VALUE_TOLERANCE = 0.01;
+
+export class PortfolioOptimizerService {
+    /**
+     * Find the combination of 2-3 cards with the highest net annual value
+     */
+    async optimize(
+        cards: EnhancedCreditCard[],
+        patterns: SpendingPattern[],
+        options: PortfolioSearchOptions
+    ): Promise<PortfolioSearchResult> {
+        const requestedMaxCards = Number.isFinite(options.maxCards)
+            ? options.maxCards!
+            : PORTFOLIO_SEARCH_LIMITS.MAX_CARDS;
+        const maxCards = Math.min(
+            PORTFOLIO_SEARCH_LIMITS.MAX_CARDS,
+            Math.max(PORTFOLIO_SEARCH_LIMITS.MIN_CARDS, Math.floor(requestedMaxCards))
+        );
+
+        // Rank single cards; only the strongest enter the combination search
+        const singles = await Promise.all(cards.map(async card => {
+            const analysis = await savingsCalculatorService.calculateCardSavings(
+                card, patterns, undefined, options.savingsOptions
+            );
+            return { card, analysis, netAnnualValue: this.netAnnualValue(analysis, options.annualizationFactor) };
+        }));
+        singles.sort((a, b) => b.netAnnualValue - a.netAnnualValue);
+
+        const bestSingleCard = singles.length > 0
+            ? this.toCardValue(singles[0]!.card, singles[0]!.analysis, options.annualizationFactor)
+            : null;
+
+        const units = this.buildRouteUnits(patterns);
+        const candidates = singles.slice(0, PORTFOLIO_SEARCH_LIMITS.CANDIDATE_CARDS).map(single => single.card);
+
+        if (candidates.length < PORTFOLIO_SEARCH_LIMITS.MIN_CARDS || units.length === 0) {
+            return { bestSingleCard, portfolio: null, alternatives: [] };
+        }
+
+        const unitValues = await this.valueRouteUnits(candidates, patterns, options.savingsOptions);
+        const combinations = this.buildCombinations(candidates, maxCards);
+
+        // Greedy routing: every unit goes to the card with the best uncapped value on it
+        const evaluations = await Promise.all(combinations.map(combination =>
+            this.evaluate(combination, units, this.assignByBestValue(combination, units, unitValues), options)
+        ));
+        evaluations.sort((a, b) => b.netAnnualValue - a.netAnnualValue);
+
+        // Caps can make greedy routing sub-optimal; re-balance the leading combinations
+        const refined = await Promise.all(
+            evaluations
+                .slice(0, PORTFOLIO_SEARCH_LIMITS.REFINED_COMBINATIONS)
+                .map(evaluation => this.rebalance(evaluation, units, options))
+        );
+
+        // A combination where some card gets no spend is dominated by the smaller one
+        const ranked = [...refined, ...evaluations.slice(PORTFOLIO_SEARCH_LIMITS.REFINED_COMBINATIONS)]
+            .filter(evaluation => evaluation.cards.every(card =>
+                Array.from(evaluation.assignment.values()).includes(card.id)))
+            .sort((a, b) => b.netAnnualValue - a.netAnnualValue);
+
+        const portfolios = await Promise.all(
+            ranked
+                .slice(0, 1 + PORTFOLIO_SEARCH_LIMITS.ALTERNATIVES)
+                .map(evaluation => this.toPortfolio(evaluation, units, options, bestSingleCard))
+        );
+
+        logger.info('Portfolio search completed', {
+            candidates: candidates.length,
+            combinations: combinations.length,
+            bestNetAnnualValue: portfolios[0]?.netAnnualValue,
+            bestSingleCardValue: bestSingleCard?.netAnnualValue
+        });
+
+        return {
+            bestSingleCard,
+            portfolio: portfolios[0] ?? null,
+            alternatives: portfolios.slice(1)
+        };
+    }
+
+    // ==================== PRIVATE METHODS ====================
+
+    /**
+     * Split each spending pattern into per-merchant blocks
+     */
+    private buildRouteUnits(patterns: SpendingPattern[]): RouteUnit[] {
+        const units = new Map<string, RouteUnit>();
+
+        for (const pattern of patterns.filter(item => item.totalSpent > 0)) {
+            for (const transaction of pattern.transactions ?? []) {
+                const merchant = transaction.merchant ?? OTHER_MERCHANTS;
+                const key = this.unitKey(pattern.categoryName, merchant);
+                const unit = units.get(key) ?? { key, pattern, merchant, transactions: [], spentAmount: 0 };
+
+                unit.transactions.push(transaction);
+                unit.spentAmount += transaction.amount;
+                units.set(key, unit);
+            }
+        }
+
+        return Array.from(units.values()).sort((a, b) => b.spentAmount - a.spentAmount);
+    }
+
+    private unitKey(categoryName: string, merchant?: string): string {
+        return `${categoryName}::${merchant ?? OTHER_MERCHANTS}`;
+    }
+
+    /**
+     * Uncapped value of every route unit on every candidate card
+     */
+    private async valueRouteUnits(
+        cards: EnhancedCreditCard[],
+        patterns: SpendingPattern[],
+        savingsOptions?: SavingsCalculationOptions
+    ): Promise<Map<string, Map<string, number>>> {
+        const entries = await Promise.all(cards.map(async card => {
+            const ledger = await savingsCalculatorService.simulateTransactions(card, patterns, savingsOptions);
+            const values = new Map<string, number>();
+
+            for (const entry of ledger) {
+                const key = this.unitKey(entry.categoryName, entry.merchant);
+                values.set(key, (values.get(key) ?? 0) + entry.uncappedEarnings);
+            }
+
+            return [card.id, values] as const;
+        }));
+
+        return new Map(entries);
+    }
+
+    /**
+     * Every combination of MIN_CARDS..maxCards candidates
+     */
+    private buildCombinations(cards: EnhancedCreditCard[], maxCards: number): EnhancedCreditCard[][] {
+        const combinations: EnhancedCreditCard[][] = [];
+
+        const extend = (start: number, current: EnhancedCreditCard[]): void => {
+            if (current.length >= PORTFOLIO_SEARCH_LIMITS.MIN_CARDS) {
+                combinations.push(current);
+            }
+            if (current.length === maxCards) {
+                return;
+            }
+            for (let index = start; index < cards.length; index++) {
+                extend(index + 1, [...current, cards[index]!]);
+            }
+        };
+
+        extend(0, []);
+        return combinations;
+    }
+
+    private assignByBestValue(
+        cards: EnhancedCreditCard[],
+        units: RouteUnit[],
+        unitValues: Map<string, Map<string, number>>
+    ): Map<string, string> {
+        const assignment = new Map<string, string>();
+
+        for (const unit of units) {
+            let bestCard = cards[0]!;
+            let bestValue = -Infinity;
+
+            for (const card of cards) {
+                const value = unitValues.get(card.id)?.get(unit.key) ?? 0;
+                if (value > bestValue) {
+                    bestCard = card;
+                    bestValue = value;
+                }
+            }
+
+            assignment.set(unit.key, bestCard.id);
+        }
+
+        return assignment;
+    }
+
+    /**
+     * Run each card over the spend routed to it, with its own caps, milestones and fee waiver
+     */
+    private async evaluate(
+        cards: EnhancedCreditCard[],
+        units: RouteUnit[],
+        assignment: Map<string, string>,
+        options: PortfolioSearchOptions
+    ): Promise<CombinationEvaluation> {
+        const analyses = new Map<string, CardSavingsAnalysis>();
+
+        await Promise.all(cards.map(async card => {
+            const cardPatterns = this.buildCardPatterns(card.id, units, assignment);
+            const analysis = await savingsCalculatorService.calculateCardSavings(
+                card,
+                cardPatterns,
+                undefined,
+                this.cardSavingsOptions(cardPatterns, options)
+            );
+            analyses.set(card.id, analysis);
+        }));
+
+        const netAnnualValue = Array.from(analyses.values())
+            .reduce((sum, analysis) => sum + this.netAnnualValue(analysis, options.annualizationFactor), 0);
+
+        return { cards, assignment, analyses, netAnnualValue };
+    }
+
+    /**
+     * Move units off cards whose caps they hit when another card in the set does better with them.
+     * Units are visited in order, since each move changes the caps left for the next one.
+     */
+    private async rebalance(
+        evaluation: CombinationEvaluation,
+        units: RouteUnit[],
+        options: PortfolioSearchOptions
+    ): Promise<CombinationEvaluation> {
+        return units.reduce(
+            async (pending, unit) => this.rebalanceUnit(await pending, unit, units, options),
+            Promise.resolve(evaluation)
+        );
+    }
+
+    /**
+     * Route one capped unit to whichever other card in the set adds the most value
+     */
+    private async rebalanceUnit(
+        current: CombinationEvaluation,
+        unit: RouteUnit,
+        units: RouteUnit[],
+        options: PortfolioSearchOptions
+    ): Promise<CombinationEvaluation> {
+        const assignedCardId = current.assignment.get(unit.key)!;
+        const category = current.analyses.get(assignedCardId)?.categoryBreakdown
+            .find(item => item.categoryName === unit.pattern.categoryName);
+
+        if (!category || category.uncappedEarnings - category.cardEarnings < VALUE_TOLERANCE) {
+            return current;
+        }
+
+        const candidates = await Promise.all(
+            current.cards
+                .filter(item => item.id !== assignedCardId)
+                .map(card => this.evaluate(
+                    current.cards,
+                    units,
+                    new Map(current.assignment).set(unit.key, card.id),
+                    options
+                ))
+        );
+
+        return candidates.reduce(
+            (best, candidate) => candidate.netAnnualValue > best.netAnnualValue + VALUE_TOLERANCE ? candidate : best,
+            current
+        );
+    }
+
+    /**
+     * Rebuild spending patterns from the units routed to one card
+     */
+    private buildCardPatterns(
+        cardId: string,
+        units: RouteUnit[],
+        assignment: Map<string, string>
+    ): SpendingPattern[] {
+        const byPattern = new Map<SpendingPattern, RouteUnit[]>();
+
+        for (const unit of units.filter(item => assignment.get(item.key) === cardId)) {
+            byPattern.set(unit.pattern, [...(byPattern.get(unit.pattern) ?? []), unit]);
+        }
+
+        return Array.from(byPattern.entries()).map(([pattern, patternUnits]) => {
+            const transactions = patternUnits.flatMap(unit => unit.transactions);
+            const totalSpent = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+            const share = pattern.totalSpent > 0 ? totalSpent / pattern.totalSpent : 0;
+            const mccCodes = new Set(transactions.map(transaction => transaction.mccCode).filter(Boolean) as string[]);
+
+            return {
+                ...pattern,
+                totalSpent,
+                transactionCount: transactions.length,
+                averageTransaction: totalSpent / transactions.length,
+                monthlyAverage: pattern.monthlyAverage * share,
+                percentage: pattern.percentage * share,
+                mccCodes: mccCodes.size > 0 ? Array.from(mccCodes) : pattern.mccCodes,
+                merchants: patternUnits.map(unit => unit.merchant).filter(merchant => merchant !== OTHER_MERCHANTS),
+                transactions
+            };
+        });
+    }
+
+    /**
+     * Fee waivers depend on the spend routed to the card, not the whole statement
+     */
+    private cardSavingsOptions(
+        cardPatterns: SpendingPattern[],
+        options: PortfolioSearchOptions
+    ): SavingsCalculationOptions {
+        const routedSpend = cardPatterns.reduce((sum, pattern) => sum + pattern.totalSpent, 0);
+        return {
+            ...options.savingsOptions,
+            projectedAnnualSpending: routedSpend * options.annualizationFactor
+        };
+    }
+
+    private netAnnualValue(analysis: CardSavingsAnalysis, annualizationFactor: number): number {
+        return analysis.statementPeriodEarnings * annualizationFactor - analysis.effectiveAnnualFee;
+    }
+
+    private toCardValue(
+        card: EnhancedCreditCard,
+        analysis: CardSavingsAnalysis,
+        annualizationFactor: number
+    ): PortfolioCardValue {
+        return {
+            cardId: card.id,
+            cardName: card.name,
+            spentAmount: analysis.categoryBreakdown.reduce((sum, category) => sum + category.spentAmount, 0),
+            annualEarnings: analysis.statementPeriodEarnings * annualizationFactor,
+            effectiveAnnualFee: analysis.effectiveAnnualFee,
+            netAnnualValue: this.netAnnualValue(analysis, annualizationFactor)
+        };
+    }
+
+    /**
+     * Turn an evaluated combination into card values and a "use card X for Y" routing table
+     */
+    private async toPortfolio(
+        evaluation: CombinationEvaluation,
+        units: RouteUnit[],
+        options: PortfolioSearchOptions,
+        bestSingleCard: PortfolioCardValue | null
+    ): Promise<CardPortfolio> {
+        const cardValues = evaluation.cards.map(card =>
+            this.toCardValue(card, evaluation.analyses.get(card.id)!, options.annualizationFactor));
+
+        // Capped earnings per unit on the card it was routed to
+        const unitEarnings = new Map<string, number>();
+        await Promise.all(evaluation.cards.map(async card => {
+            const cardPatterns = this.buildCardPatterns(card.id, units, evaluation.assignment);
+            const ledger = await savingsCalculatorService.simulateTransactions(
+                card, cardPatterns, this.cardSavingsOptions(cardPatterns, options)
+            );
+            for (const entry of ledger) {
+                const key = this.unitKey(entry.categoryName, entry.merchant);
+                unitEarnings.set(key, (unitEarnings.get(key) ?? 0) + entry.earnings);
+            }
+        }));
+
+        const annualEarnings = cardValues.reduce((sum, value) => sum + value.annualEarnings, 0);
+        const annualFees = cardValues.reduce((sum, value) => sum + value.effectiveAnnualFee, 0);
+        const netAnnualValue = annualEarnings - annualFees;
+
+        return {
+            cards: cardValues,
+            annualEarnings,
+            annualFees,
+            netAnnualValue,
+            gainOverBestSingleCard: netAnnualValue - (bestSingleCard?.netAnnualValue ?? 0),
+            routing: this.buildRouting(evaluation, units, unitEarnings)
+        };
+    }
+
+    /**
+     * One row per category and card; merchants are listed when a card only takes part of a category
+     */
+    private buildRouting(
+        evaluation: CombinationEvaluation,
+        units: RouteUnit[],
+        unitEarnings: Map<string, number>
+    ): PortfolioRoute[] {
+        const cardNames = new Map(evaluation.cards.map(card => [card.id, card.name]));
+        const byCategory = new Map<string, Map<string, RouteUnit[]>>();
+
+        for (const unit of units) {
+            const cardId = evaluation.assignment.get(unit.key)!;
+            const byCard = byCategory.get(unit.pattern.categoryName) ?? new Map<string, RouteUnit[]>();
+            byCard.set(cardId, [...(byCard.get(cardId) ?? []), unit]);
+            byCategory.set(unit.pattern.categoryName, byCard);
+        }
+
+        const routes: PortfolioRoute[] = [];
+
+        byCategory.forEach((byCard, categoryName) => {
+            const spendByCard = Array.from(byCard.entries()).map(([cardId, cardUnits]) => ({
+                cardId,
+                cardUnits,
+                spentAmount: cardUnits.reduce((sum, unit) => sum + unit.spentAmount, 0)
+            })).sort((a, b) => b.spentAmount - a.spentAmount);
+            const split = spendByCard.length > 1;
+
+            spendByCard.forEach(({ cardId, cardUnits, spentAmount }, index) => {
+                const cardName = cardNames.get(cardId) ?? cardId;
+                const merchants = index === 0 ? undefined : cardUnits.map(unit => unit.merchant);
+
+                routes.push({
+                    categoryName,
+                    merchants,
+                    cardId,
+                    cardName,
+                    spentAmount,
+                    earnings: cardUnits.reduce((sum, unit) => sum + (unitEarnings.get(unit.key) ?? 0), 0),
+                    instruction: merchants
+                        ? `Use ${cardName} for ${merchants.join(', ')} in ${categoryName}`
+                        : `Use ${cardName} for ${split ? `the rest of ${categoryName}` : categoryName}`
+                });
+            });
+        });
+
+        return routes.sort((a, b) => b.spentAmount - a.spentAmount);
+    }
+}
+
+// Export singleton instance
+export const portfolioOptimizerService = new PortfolioOptimizerService();
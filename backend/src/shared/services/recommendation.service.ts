@@ -4,9 +4,13 @@ import { ApiError } from '@/shared/utils/api-error.util';
 import { StatusCodes } from '@/shared/constants/http-status.constants';
 import {
     savingsCalculatorService,
-    CardSavingsAnalysis
+    CardSavingsAnalysis,
+    MilestoneProgress,
+    SavingsCalculationOptions
 } from './savings-calculator.service';
 import { configService } from './config.service';
+import { BillingCycle, billingCycleService } from './billing-cycle.service';
+import { portfolioOptimizerService } from './portfolio-optimizer.service';
 import {
     CreditScore,
     CardNetwork,
@@ -16,12 +20,15 @@ import {
     FIRST_YEAR_VALUE_TIERS,
     ROI_TIERS,
     DIGITAL_FEATURE_KEYWORDS,
-    LIMITED_ACCEPTANCE_NETWORKS
+    LIMITED_ACCEPTANCE_NETWORKS,
+    VALUE_TIMELINE_YEARS
 } from '@/shared/constants/recommendation.constants';
 import type {
     SpendingPattern,
+    PatternTransaction,
     RecommendationCriteria,
     CardRecommendation,
+    BenefitBreakdown,
     RecommendationResult,
     RecommendationStats,
     RecommendationOptions,
@@ -30,7 +37,12 @@ import type {
     CategoryAnalysis,
     ScoreBreakdown,
     ConfidenceFactors,
-    RecommendationConfig
+    RecommendationConfig,
+    TransactionLedger,
+    PortfolioOptions,
+    PortfolioResult,
+    CurrentCardEarnings,
+    CurrentCardsSummary
 } from '@/shared/types/recommendation.types';
 
 /**
@@ -80,8 +92,9 @@ export class RecommendationService {
             // Get configuration
             const config = await this.getConfig();
 
-            // Step 1: Analyze spending patterns
-            const spendingPatterns = await this.analyzeSpendingPatterns(sessionId);
+            // Step 1: Analyze spending patterns over the statement's billing cycle
+            const billingCycle = await billingCycleService.getForSession(sessionId);
+            const spendingPatterns = await this.analyzeSpendingPatterns(sessionId, billingCycle);
 
             // Handle edge case of no positive spending patterns
             if (spendingPatterns.length === 0) {
@@ -89,25 +102,17 @@ export class RecommendationService {
                 return this.generateFallbackRecommendations(sessionId, options, startTime, config);
             }
 
-            // Get transactions for annual projection (only positive amounts)
-            const allTransactions = await prisma.transaction.findMany({
-                where: { sessionId },
-                select: {
-                    date: true,
-                    amount: true
-                }
-            });
-
-            const positiveTransactionsForProjection = allTransactions.filter(t => Number(t.amount) > 0);
-
-            // Calculate annual projection using only positive transactions
-            const projectedAnnualSpending = this.projectAnnualSpending(spendingPatterns, positiveTransactionsForProjection);
+            // Calculate annual projection from the billing cycle length
+            const projectedAnnualSpending = this.projectAnnualSpending(spendingPatterns, billingCycle);
 
             // Step 2: Calculate recommendation criteria
-            const criteria = this.buildRecommendationCriteria(spendingPatterns, options);
+            const criteria = this.buildRecommendationCriteria(spendingPatterns, options, billingCycle);
 
-            // Step 3: Get eligible credit cards
-            const eligibleCards = await this.getEligibleCards(criteria);
+            // Step 3: Get eligible credit cards, leaving out the ones the user already holds
+            const ownedCards = await this.getOwnedCards(criteria.ownedCardSlugs);
+            const eligibleCards = (await this.getEligibleCards(criteria))
+                .filter(card => !ownedCards.some(owned => owned.id === card.id));
+            const baselineCard = await this.findBestOwnedCard(ownedCards, spendingPatterns, criteria, projectedAnnualSpending);
 
             // Step 4: Score and rank cards using enhanced savings-based logic
             const scoredCards = await this.scoreAndRankCards(
@@ -115,7 +120,8 @@ export class RecommendationService {
                 criteria,
                 spendingPatterns,
                 projectedAnnualSpending,
-                config
+                config,
+                baselineCard
             );
 
             // Step 5: Get top recommendations with fallback logic
@@ -140,7 +146,16 @@ export class RecommendationService {
                     }));
             }
 
-            // Step 6: Store recommendations
+            // Step 6: Compare with what the cards the statements came from actually earned
+            const currentCards = await this.summarizeCurrentCards(sessionId, spendingPatterns, criteria, projectedAnnualSpending);
+            if (currentCards && currentCards.unattributedSpend === 0) {
+                topRecommendations = topRecommendations.map(rec => ({
+                    ...rec,
+                    earningsOverCurrentCards: rec.estimatedAnnualCashback - currentCards.totalEarnings
+                }));
+            }
+
+            // Step 7: Store recommendations
             await this.storeRecommendations(sessionId, topRecommendations);
 
             const processingTime = Date.now() - startTime;
@@ -162,6 +177,7 @@ export class RecommendationService {
                     categoriesAnalyzed: spendingPatterns.length,
                     confidenceLevel: this.getConfidenceLevel(topRecommendations[0]?.confidenceScore || 0)
                 },
+                currentCards,
                 analysis
             };
 
@@ -282,6 +298,97 @@ export class RecommendationService {
         }
     }
 
+    /**
+     * Run every transaction in a session through one card's earn rules
+     */
+    async getTransactionLedger(
+        sessionId: string,
+        cardIdOrSlug: string,
+        options: RecommendationOptions = {},
+    ): Promise<TransactionLedger> {
+        const card = await prisma.creditCard.findFirst({
+            where: { OR: [{ id: cardIdOrSlug }, { slug: cardIdOrSlug }] },
+            include: {
+                issuer: true,
+                network: true,
+                category: true,
+                subCategory: true,
+                acceleratedRewards: {
+                    include: {
+                        rewardCategory: true
+                    }
+                }
+            }
+        });
+
+        if (!card) {
+            throw new ApiError('Credit card not found', StatusCodes.NOT_FOUND);
+        }
+
+        const billingCycle = await billingCycleService.getForSession(sessionId);
+        const patterns = await this.analyzeSpendingPatterns(sessionId, billingCycle);
+        const entries = await savingsCalculatorService.simulateTransactions(
+            this.toEnhancedCard(card),
+            patterns,
+            {
+                userProfile: options.userProfile,
+                redemptionStyle: options.redemptionStyle,
+                ...this.getBillingCycleOptions(billingCycle)
+            }
+        );
+
+        return {
+            sessionId,
+            cardId: card.id,
+            cardName: card.name,
+            totalSpend: entries.reduce((sum, entry) => sum + entry.amount, 0),
+            totalEarnings: entries.reduce((sum, entry) => sum + entry.earnings, 0),
+            excludedSpend: entries.filter(entry => entry.excluded).reduce((sum, entry) => sum + entry.amount, 0),
+            cappedTransactions: entries.filter(entry => entry.capped).length,
+            entries
+        };
+    }
+
+    /**
+     * Portfolio mode: find the 2-3 card combination with the best net annual value
+     * and which card to use for each category or merchant
+     */
+    async generatePortfolio(
+        sessionId: string,
+        options: PortfolioOptions = {},
+    ): Promise<PortfolioResult> {
+        const billingCycle = await billingCycleService.getForSession(sessionId);
+        const patterns = await this.analyzeSpendingPatterns(sessionId, billingCycle);
+
+        if (patterns.length === 0) {
+            throw new ApiError('No spending found for this session', StatusCodes.BAD_REQUEST);
+        }
+
+        const totalSpending = patterns.reduce((sum, pattern) => sum + pattern.totalSpent, 0);
+        const projectedAnnualSpending = this.projectAnnualSpending(patterns, billingCycle);
+
+        const criteria = this.buildRecommendationCriteria(patterns, options, billingCycle);
+        const eligibleCards = await this.getEligibleCards(criteria);
+
+        const result = await portfolioOptimizerService.optimize(eligibleCards, patterns, {
+            maxCards: options.maxCards,
+            annualizationFactor: totalSpending > 0 ? projectedAnnualSpending / totalSpending : 1,
+            savingsOptions: {
+                userProfile: options.userProfile,
+                redemptionStyle: options.redemptionStyle,
+                statementMonths: criteria.statementMonths,
+                billingCycleStartDay: criteria.billingCycleStartDay,
+                projectedAnnualSpending
+            }
+        });
+
+        return {
+            sessionId,
+            projectedAnnualSpending,
+            ...result
+        };
+    }
+
     /**
      * Recalculate recommendations with new criteria
      */
@@ -381,19 +488,28 @@ export class RecommendationService {
     /**
      * Analyze spending patterns from transactions with comprehensive edge case handling
      */
-    private async analyzeSpendingPatterns(sessionId: string): Promise<SpendingPattern[]> {
+    private async analyzeSpendingPatterns(
+        sessionId: string,
+        billingCycle?: BillingCycle | null,
+    ): Promise<SpendingPattern[]> {
         try {
             const config = await this.getConfig();
 
             const transactions = await prisma.transaction.findMany({
                 where: { sessionId },
                 select: {
+                    id: true,
                     amount: true,
                     categoryName: true,
                     subCategoryName: true,
                     mccCode: true,
                     date: true,
                     merchant: true,
+                    description: true,
+                    rawDescription: true,
+                    categoryId: true,
+                    subCategoryId: true,
+                    sourceCardId: true,
                 },
             });
 
@@ -414,12 +530,14 @@ export class RecommendationService {
 
             // Get category mappings from database
             const categoryMappings = await this.getCategoryMappings();
+            const categorySlugs = await this.getCategorySlugs();
 
             const categoryMap = new Map<string, {
                 amounts: number[];
                 subCategory?: string;
                 mccCodes: Set<string>;
                 merchants: Set<string>;
+                transactions: PatternTransaction[];
             }>();
 
             // Process ONLY positive transactions (debited amounts) - ignore credits/refunds completely
@@ -435,6 +553,7 @@ export class RecommendationService {
                         subCategory: t.subCategoryName || undefined,
                         mccCodes: new Set(),
                         merchants: new Set(),
+                        transactions: [],
                     });
                 }
 
@@ -442,6 +561,18 @@ export class RecommendationService {
                 entry.amounts.push(Number(t.amount));
                 if (t.mccCode) entry.mccCodes.add(t.mccCode);
                 if (t.merchant) entry.merchants.add(t.merchant);
+                entry.transactions.push({
+                    id: t.id,
+                    date: t.date,
+                    amount: Number(t.amount),
+                    merchant: t.merchant || undefined,
+                    mccCode: t.mccCode || undefined,
+                    isForeign: this.isForeignCurrencyTransaction(t.rawDescription ?? t.description),
+                    description: t.description || undefined,
+                    categorySlug: t.categoryId ? categorySlugs.get(t.categoryId) : undefined,
+                    subCategorySlug: t.subCategoryId ? categorySlugs.get(t.subCategoryId) : undefined,
+                    sourceCardId: t.sourceCardId || undefined,
+                });
             });
 
             const patterns: SpendingPattern[] = [];
@@ -467,7 +598,7 @@ export class RecommendationService {
                     // For average calculation, use absolute values of all transactions
                     const absoluteAmounts = amounts.map(Math.abs);
                     const averageTransaction = absoluteAmounts.reduce((sum, amt) => sum + amt, 0) / transactionCount;
-                    const monthlyAverage = this.estimateMonthlySpending(amounts, totalSpent);
+                    const monthlyAverage = this.estimateMonthlySpending(totalSpent, billingCycle);
 
                     patterns.push({
                         categoryName,
@@ -479,6 +610,7 @@ export class RecommendationService {
                         percentage: 0,
                         mccCodes: Array.from(data.mccCodes),
                         merchants: Array.from(data.merchants),
+                        transactions: data.transactions,
                     });
                 }
             });
@@ -548,6 +680,20 @@ export class RecommendationService {
         }
     }
 
+    /**
+     * Map category and subcategory ids to their slugs, used to match reward exclusions
+     */
+    private async getCategorySlugs(): Promise<Map<string, string>> {
+        const [categories, subCategories] = await Promise.all([
+            prisma.category.findMany({ select: { id: true, slug: true } }),
+            prisma.subCategory.findMany({ select: { id: true, slug: true } })
+        ]);
+
+        return new Map<string, string>(
+            [...categories, ...subCategories].map((item: { id: string; slug: string }) => [item.id, item.slug])
+        );
+    }
+
     /**
      * Get category mappings from database
      */
@@ -629,28 +775,30 @@ export class RecommendationService {
     }
 
     /**
-     * Estimate monthly spending from transaction data and project annual spending
+     * Average monthly spending over the billing cycle (the whole amount when the cycle is unknown)
      */
-    private estimateMonthlySpending(amounts: number[], totalSpent: number): number {
-        // For now, return the total spent as monthly average
-        // This will be improved with proper date-based analysis
-        return totalSpent;
+    private estimateMonthlySpending(totalSpent: number, billingCycle?: BillingCycle | null): number {
+        return totalSpent / (billingCycle?.months ?? 1);
     }
 
     /**
-     * Project annual spending based on statement duration
+     * Detect foreign-currency transactions from the statement description
+     * (currency codes, "FOREIGN"/"FX" markers or conversion-rate text)
      */
-    private projectAnnualSpending(patterns: SpendingPattern[], transactions: any[]): number {
-        if (transactions.length === 0) return 0;
+    private isForeignCurrencyTransaction(description?: string | null): boolean {
+        if (!description) return false;
+
+        return /\b(USD|EUR|GBP|SGD|AED|AUD|CAD|JPY|CHF|HKD|THB|MYR|NZD)\b|\bFOREIGN\b|\bFX\b|CONVERSION RATE/i
+            .test(description);
+    }
 
-        // Get date range from transactions
-        const dates = transactions.map(t => new Date(t.date)).sort((a, b) => a.getTime() - b.getTime());
-        const startDate = dates[0];
-        const endDate = dates[dates.length - 1];
+    /**
+     * Project annual spending based on the billing cycle length
+     */
+    private projectAnnualSpending(patterns: SpendingPattern[], billingCycle: BillingCycle | null): number {
+        if (!billingCycle) return 0;
 
-        // Calculate duration in months
-        const durationMs = endDate.getTime() - startDate.getTime();
-        const durationMonths = Math.max(1, durationMs / (1000 * 60 * 60 * 24 * 30.44)); // 30.44 days per month average
+        const durationMonths = billingCycle.months;
 
         // Total positive spending
         const totalSpending = patterns.reduce((sum, pattern) => sum + Math.max(0, pattern.totalSpent), 0);
@@ -662,29 +810,46 @@ export class RecommendationService {
             totalSpending,
             durationMonths: durationMonths.toFixed(2),
             projectedAnnualSpending: projectedAnnualSpending.toFixed(2),
+            billingCycleSource: billingCycle.source,
             dateRange: {
-                start: startDate.toISOString().split('T')[0],
-                end: endDate.toISOString().split('T')[0]
+                start: billingCycle.periodStart.toISOString().split('T')[0],
+                end: billingCycle.periodEnd.toISOString().split('T')[0]
             }
         });
 
         return projectedAnnualSpending;
     }
 
+    /**
+     * Savings options derived from the billing cycle; caps are only bucketed by cycle day
+     * when the cycle came from the statement rather than from transaction dates
+     */
+    private getBillingCycleOptions(billingCycle: BillingCycle | null): SavingsCalculationOptions {
+        if (!billingCycle) return {};
+
+        return {
+            statementMonths: billingCycle.months,
+            billingCycleStartDay: billingCycle.source === 'transactions' ? undefined : billingCycle.cycleStartDay
+        };
+    }
+
     /**
      * Build recommendation criteria from spending patterns
      */
     private buildRecommendationCriteria(
         patterns: SpendingPattern[],
         options: RecommendationOptions,
+        billingCycle?: BillingCycle | null,
     ): RecommendationCriteria {
         const totalSpending = patterns.reduce((sum, p) => sum + p.totalSpent, 0);
+        const cycleOptions = this.getBillingCycleOptions(billingCycle ?? null);
+        const monthlySpending = totalSpending / (cycleOptions.statementMonths ?? 1);
 
         // Calculate dynamic maxAnnualFee based on spending
         // For high spenders (>2L annually), allow premium cards up to 12.5k
         // For medium spenders (50k-2L), allow mid-tier cards up to 5k
         // For low spenders (<50k), stick to low/no fee cards
-        const annualSpending = Math.abs(totalSpending) * 12; // Rough annual projection
+        const annualSpending = Math.abs(monthlySpending) * 12;
         let defaultMaxAnnualFee = 500; // Conservative default
 
         if (annualSpending >= 200000) { // 2L+ annual spending
@@ -697,7 +862,7 @@ export class RecommendationService {
 
         return {
             totalSpending,
-            monthlySpending: totalSpending,
+            monthlySpending,
             topCategories: patterns.slice(0, 5),
             creditScore: options.creditScore || CreditScore.GOOD,
             preferredNetwork: options.preferredNetwork,
@@ -706,6 +871,14 @@ export class RecommendationService {
             includeBusinessCards: options.includeBusinessCards || false,
             preferredIssuer: options.preferredIssuer,
             minIncome: options.minIncome,
+            userProfile: options.userProfile,
+            ownedCardSlugs: options.ownedCardSlugs,
+            redemptionStyle: options.redemptionStyle,
+            horizonYears: options.horizonYears
+                ? Math.min(VALUE_TIMELINE_YEARS, Math.max(1, Math.round(options.horizonYears)))
+                : undefined,
+            statementMonths: cycleOptions.statementMonths,
+            billingCycleStartDay: cycleOptions.billingCycleStartDay,
         };
     }
 
@@ -727,6 +900,204 @@ export class RecommendationService {
         };
     }
 
+    /**
+     * Load the catalog cards the user says they already hold
+     */
+    private async getOwnedCards(slugs?: string[]): Promise<EnhancedCreditCard[]> {
+        if (!slugs || slugs.length === 0) {
+            return [];
+        }
+
+        const cards = await prisma.creditCard.findMany({
+            where: { slug: { in: slugs } },
+            include: {
+                issuer: true,
+                network: true,
+                category: true,
+                subCategory: true,
+                acceleratedRewards: {
+                    include: {
+                        rewardCategory: true
+                    }
+                }
+            }
+        });
+
+        const unknownSlugs = slugs.filter(slug => !cards.some((card: { slug: string }) => card.slug === slug));
+        if (unknownSlugs.length > 0) {
+            logger.warn('Ignoring owned cards not found in catalog', { unknownSlugs });
+        }
+
+        return cards.map((card: any) => this.toEnhancedCard(card));
+    }
+
+    /**
+     * What each card the statements came from earned on its own transactions
+     */
+    private async summarizeCurrentCards(
+        sessionId: string,
+        patterns: SpendingPattern[],
+        criteria: RecommendationCriteria,
+        projectedAnnualSpending: number
+    ): Promise<CurrentCardsSummary | undefined> {
+        const patternsByCard = new Map<string, SpendingPattern[]>();
+        let unattributedSpend = 0;
+
+        for (const pattern of patterns) {
+            const transactionsByCard = new Map<string, PatternTransaction[]>();
+            for (const transaction of pattern.transactions ?? []) {
+                if (!transaction.sourceCardId) {
+                    unattributedSpend += transaction.amount;
+                    continue;
+                }
+                const cardTransactions = transactionsByCard.get(transaction.sourceCardId) ?? [];
+                cardTransactions.push(transaction);
+                transactionsByCard.set(transaction.sourceCardId, cardTransactions);
+            }
+
+            transactionsByCard.forEach((transactions, cardId) => {
+                const totalSpent = transactions.reduce((sum, t) => sum + t.amount, 0);
+                const cardPatterns = patternsByCard.get(cardId) ?? [];
+                cardPatterns.push({
+                    ...pattern,
+                    totalSpent,
+                    transactionCount: transactions.length,
+                    averageTransaction: totalSpent / transactions.length,
+                    monthlyAverage: pattern.totalSpent > 0 ? pattern.monthlyAverage * (totalSpent / pattern.totalSpent) : 0,
+                    transactions
+                });
+                patternsByCard.set(cardId, cardPatterns);
+            });
+        }
+
+        if (patternsByCard.size === 0) {
+            return undefined;
+        }
+
+        const cards = await prisma.creditCard.findMany({
+            where: { id: { in: Array.from(patternsByCard.keys()) } },
+            include: {
+                issuer: true,
+                network: true,
+                category: true,
+                subCategory: true,
+                acceleratedRewards: {
+                    include: {
+                        rewardCategory: true
+                    }
+                }
+            }
+        });
+
+        // Cards that have since left the catalog can't be valued
+        patternsByCard.forEach((cardPatterns, cardId) => {
+            if (!cards.some((card: { id: string }) => card.id === cardId)) {
+                unattributedSpend += cardPatterns.reduce((sum, pattern) => sum + pattern.totalSpent, 0);
+            }
+        });
+
+        const reportedEarnings = await this.getReportedEarnings(sessionId, cards, criteria);
+
+        const totalSpending = patterns.reduce((sum, pattern) => sum + pattern.totalSpent, 0);
+        const currentCards: CurrentCardEarnings[] = await Promise.all(cards.map(async (card: any) => {
+            const cardPatterns = patternsByCard.get(card.id) ?? [];
+            const spend = cardPatterns.reduce((sum, pattern) => sum + pattern.totalSpent, 0);
+            const savings = await savingsCalculatorService.calculateCardSavings(
+                this.toEnhancedCard(card),
+                cardPatterns,
+                undefined,
+                {
+                    userProfile: criteria.userProfile,
+                    redemptionStyle: criteria.redemptionStyle,
+                    statementMonths: criteria.statementMonths,
+                    billingCycleStartDay: criteria.billingCycleStartDay,
+                    projectedAnnualSpending: totalSpending > 0 ? projectedAnnualSpending * (spend / totalSpending) : 0
+                }
+            );
+
+            const reported = reportedEarnings.get(card.id);
+
+            return {
+                cardId: card.id,
+                cardName: card.name,
+                issuerName: card.issuer?.name,
+                spend,
+                earnings: reported ?? savings.statementPeriodEarnings,
+                earningsSource: reported !== undefined ? 'statement' as const : 'modeled' as const,
+                modeledEarnings: savings.statementPeriodEarnings,
+                reportedEarnings: reported,
+                transactionCount: cardPatterns.reduce((sum, pattern) => sum + pattern.transactionCount, 0)
+            };
+        }));
+
+        return {
+            cards: currentCards.sort((a, b) => b.spend - a.spend),
+            totalSpend: currentCards.reduce((sum, card) => sum + card.spend, 0),
+            totalEarnings: currentCards.reduce((sum, card) => sum + card.earnings, 0),
+            unattributedSpend
+        };
+    }
+
+    /**
+     * What each card earned according to its statements' rewards summaries. A card only
+     * gets a reported figure when every one of its statements printed a summary.
+     */
+    private async getReportedEarnings(
+        sessionId: string,
+        cards: any[],
+        criteria: RecommendationCriteria
+    ): Promise<Map<string, number>> {
+        const statements = await prisma.statement.findMany({
+            where: { sessionId, cardId: { in: cards.map(card => card.id) }, status: 'extracted' },
+            select: { cardId: true, rewardsPointsEarned: true, cashbackCredited: true }
+        });
+
+        const reported = new Map<string, number>();
+        for (const card of cards) {
+            const cardStatements = statements.filter((statement: { cardId: string | null }) => statement.cardId === card.id);
+            const allReported = cardStatements.length > 0 && cardStatements.every(
+                (statement: { rewardsPointsEarned: unknown; cashbackCredited: unknown }) =>
+                    statement.rewardsPointsEarned !== null || statement.cashbackCredited !== null
+            );
+            if (!allReported) {
+                continue;
+            }
+
+            const pointValue = await savingsCalculatorService.getCardPointValue(this.toEnhancedCard(card), criteria.redemptionStyle);
+            reported.set(card.id, cardStatements.reduce(
+                (sum: number, statement: { rewardsPointsEarned: unknown; cashbackCredited: unknown }) =>
+                    sum + Number(statement.rewardsPointsEarned ?? 0) * pointValue + Number(statement.cashbackCredited ?? 0),
+                0
+            ));
+        }
+
+        return reported;
+    }
+
+    /**
+     * The owned card that earns most on this statement; new cards are measured against it
+     */
+    private async findBestOwnedCard(
+        ownedCards: EnhancedCreditCard[],
+        patterns: SpendingPattern[],
+        criteria: RecommendationCriteria,
+        projectedAnnualSpending?: number
+    ): Promise<EnhancedCreditCard | undefined> {
+        if (ownedCards.length === 0) {
+            return undefined;
+        }
+
+        const analyses = await savingsCalculatorService.compareCards(ownedCards, patterns, undefined, {
+            userProfile: criteria.userProfile,
+            redemptionStyle: criteria.redemptionStyle,
+            statementMonths: criteria.statementMonths,
+            billingCycleStartDay: criteria.billingCycleStartDay,
+            projectedAnnualSpending
+        });
+
+        return ownedCards.find(card => card.id === analyses[0]?.cardId);
+    }
+
     /**
      * Get eligible credit cards based on criteria
      */
@@ -805,7 +1176,14 @@ export class RecommendationService {
             cardNames: cards.map(c => c.name)
         });
 
-        return cards.map(card => ({
+        return cards.map(card => this.toEnhancedCard(card));
+    }
+
+    /**
+     * Normalize a credit card row (with issuer, network and accelerated rewards) for scoring
+     */
+    private toEnhancedCard(card: any): EnhancedCreditCard {
+        return {
             ...card,
             issuer: {
                 ...card.issuer,
@@ -821,12 +1199,15 @@ export class RecommendationService {
             eligibilityRequirements: card.eligibilityRequirements as any,
             rewardStructure: card.rewardStructure as any,
             additionalBenefits: card.additionalBenefits as any,
-            acceleratedRewards: card.acceleratedRewards.map(reward => ({
+            acceleratedRewards: card.acceleratedRewards.map((reward: any) => ({
                 ...reward,
                 rewardRate: Number(reward.rewardRate),
-                cappingLimit: reward.cappingLimit ? Number(reward.cappingLimit) : undefined
+                cappingLimit: reward.cappingLimit ? Number(reward.cappingLimit) : undefined,
+                minTransactionAmount: reward.minTransactionAmount ? Number(reward.minTransactionAmount) : undefined,
+                maxRewardPerTransaction: reward.maxRewardPerTransaction ? Number(reward.maxRewardPerTransaction) : undefined,
+                exclusions: reward.exclusions ?? undefined
             }))
-        })) as EnhancedCreditCard[];
+        } as EnhancedCreditCard;
     }
 
     /**
@@ -837,7 +1218,8 @@ export class RecommendationService {
         criteria: RecommendationCriteria,
         patterns: SpendingPattern[],
         projectedAnnualSpending?: number,
-        config?: RecommendationConfig
+        config?: RecommendationConfig,
+        baselineCard?: EnhancedCreditCard
     ): Promise<CardRecommendation[]> {
         const recommendations: CardRecommendation[] = [];
 
@@ -871,7 +1253,13 @@ export class RecommendationService {
             }));
         }
 
-        const savingsAnalyses = await savingsCalculatorService.compareCards(cards, patterns);
+        const savingsAnalyses = await savingsCalculatorService.compareCards(cards, patterns, baselineCard, {
+            userProfile: criteria.userProfile,
+            redemptionStyle: criteria.redemptionStyle,
+            statementMonths: criteria.statementMonths,
+            billingCycleStartDay: criteria.billingCycleStartDay,
+            projectedAnnualSpending
+        });
 
         logger.info('Savings analysis results', {
             totalCards: cards.length,
@@ -912,15 +1300,39 @@ export class RecommendationService {
 
         // Wait for all recommendations to complete and filter out nulls
         const allRecommendations = await Promise.all(recommendationPromises);
-        const validRecommendations = allRecommendations.filter(rec => rec !== null) as CardRecommendation[];
+        let validRecommendations = allRecommendations.filter(rec => rec !== null) as CardRecommendation[];
+
+        // With an owned card, only cards that add value on top of it are worth recommending
+        if (baselineCard) {
+            const addingValue = validRecommendations.filter(rec => (rec.incrementalAnnualValue ?? 0) > 0);
+            logger.info('Suppressed cards that add nothing over owned card', {
+                baselineCardId: baselineCard.id,
+                suppressed: validRecommendations.length - addingValue.length
+            });
+
+            validRecommendations = addingValue.map(rec => ({
+                ...rec,
+                baselineCardName: baselineCard.name,
+                pros: [
+                    `Adds ₹${Math.round(rec.incrementalAnnualValue ?? 0).toLocaleString('en-IN')} a year over your ${baselineCard.name} after fees`,
+                    ...rec.pros
+                ]
+            }));
+        }
 
         // PRIMARY SORT: Statement period earnings (most important for user value)
-        // User wants to see cards ranked by how much they would have earned
+        // User wants to see cards ranked by how much they would have earned,
+        // by how much they would gain over the card they already hold,
+        // or by cumulative net value over the horizon they asked for
+        const rankingValue = (rec: CardRecommendation): number => {
+            if (criteria.horizonYears) return rec.horizonNetValue ?? 0;
+            if (baselineCard) return rec.incrementalEarnings ?? 0;
+            return rec.estimatedAnnualCashback || 0;
+        };
         const sortedRecommendations = validRecommendations
             .sort((a, b) => {
-                // Sort by statement period earnings (estimatedAnnualCashback)
-                const aEarnings = a.estimatedAnnualCashback || 0;
-                const bEarnings = b.estimatedAnnualCashback || 0;
+                const aEarnings = rankingValue(a);
+                const bEarnings = rankingValue(b);
 
                 // Higher earnings first
                 if (Math.abs(aEarnings - bEarnings) > 0.01) {
@@ -966,6 +1378,14 @@ export class RecommendationService {
             // Determine card type based on category and fee structure
             const cardType = this.determineCardType(card);
 
+            // Gain over the owned baseline card, annualized and net of this card's fee
+            const annualizationFactor = projectedAnnualSpending && criteria.totalSpending > 0
+                ? projectedAnnualSpending / criteria.totalSpending
+                : 12;
+            const incrementalAnnualValue = savings.incrementalEarnings !== undefined
+                ? savings.incrementalEarnings * annualizationFactor - savings.effectiveAnnualFee
+                : undefined;
+
             return {
                 cardId: card.id,
                 rank: 0,
@@ -983,13 +1403,22 @@ export class RecommendationService {
                 benefitBreakdown: this.convertSavingsToBreakdown(savings),
                 confidenceScore,
 
+                baselineCardId: savings.baselineCardId,
+                incrementalEarnings: savings.incrementalEarnings,
+                incrementalAnnualValue,
+
+                valueTimeline: savings.valueTimeline,
+                horizonNetValue: criteria.horizonYears
+                    ? savings.valueTimeline[criteria.horizonYears - 1]?.cumulativeNetValue
+                    : undefined,
+
                 // Legacy fields for backward compatibility
-                statementSavings: 0,
+                statementSavings: savings.incrementalEarnings ?? 0,
                 statementEarnings: savings.statementPeriodEarnings,
                 annualSavings: 0,
                 annualEarnings: 0,
-                potentialSavings: 0,
-                currentEarnings: 0,
+                potentialSavings: savings.incrementalEarnings ?? 0,
+                currentEarnings: savings.baselineEarnings ?? 0,
                 yearlyEstimate: savings.statementPeriodEarnings,
                 feeBreakeven: undefined,
             };
@@ -1067,12 +1496,21 @@ export class RecommendationService {
         const penaltyFactors = await this.calculateNonFeePenaltyFactors(card, patterns, config);
         score -= penaltyFactors;
 
-        // 6. LIFETIME FREE BONUS - Significant boost for no-fee cards
+        // Points that lapse before reaching a redemption minimum earn nothing in practice
+        if (savings.pointsExpiry?.atRisk) {
+            score -= await this.getConfigValue('PENALTY_POINTS_EXPIRY_RISK', 10);
+        }
+
+        // 6. FEE EFFICIENCY - Uses the net fee after any spend-based waiver the user qualifies for
+        const feeEfficiencyScore = this.calculateFeeEfficiencyScore(card, savings, config);
+        score += (feeEfficiencyScore - 50) * 0.1;
+
+        // 7. LIFETIME FREE BONUS - Significant boost for no-fee cards
         if (card.isLifetimeFree) {
             score += await this.getConfigValue('BONUS_LIFETIME_FREE', 10);
         }
 
-        // 7. CUSTOMER SATISFACTION BONUS
+        // 8. CUSTOMER SATISFACTION BONUS
         if (card.customerSatisfactionScore >= 4.5) {
             score += await this.getConfigValue('BONUS_HIGH_CUSTOMER_SATISFACTION', 5);
         } else if (card.customerSatisfactionScore >= 4.0) {
@@ -1219,7 +1657,7 @@ export class RecommendationService {
         savings: CardSavingsAnalysis,
         config: RecommendationConfig
     ): number {
-        const annualFee = savings.annualFee;
+        const annualFee = savings.effectiveAnnualFee;
         const earnings = savings.statementPeriodEarnings;
 
         if (annualFee === 0) {
@@ -1230,8 +1668,11 @@ export class RecommendationService {
             return Math.max(0, 50 - (annualFee / 100));
         }
 
-        // For statement period, estimate ROI based on earnings vs fee
-        const estimatedAnnualEarnings = earnings * 12; // Simple projection
+        // ROI of a renewal year (year 2 of the value timeline) against the fee
+        const renewalYear = savings.valueTimeline[1];
+        const estimatedAnnualEarnings = renewalYear
+            ? renewalYear.rewardEarnings + renewalYear.milestoneValue
+            : earnings * 12;
         const roi = (estimatedAnnualEarnings / annualFee) * 100;
 
         if (roi >= ROI_TIERS.EXCELLENT) return 100;
@@ -1531,10 +1972,21 @@ export class RecommendationService {
             pros.push(`Welcome benefits worth ₹${Math.round(savings.signupBonusValue)}`);
         }
 
+        const annualMilestoneValue = savings.milestones.reduce((sum, milestone) => sum + milestone.annualValue, 0);
+        if (annualMilestoneValue > 0) {
+            pros.push(`Milestone benefits worth ₹${Math.round(annualMilestoneValue)} a year at your spend level`);
+        }
+
+        if (savings.redemption) {
+            pros.push(`Points worth ₹${savings.redemption.valuePerPoint.toFixed(2)} each via ${savings.redemption.description}`);
+        }
+
         if (card.isLifetimeFree) {
             pros.push('Lifetime free - no annual fee ever');
         } else if ((card.feeStructure as any)?.annualFee === 0) {
             pros.push('No annual fee');
+        } else if (savings.feeWaiver.waived && savings.annualFee > 0) {
+            pros.push(`Annual fee of ₹${savings.annualFee} waived at your spend level`);
         }
 
         const topCategory = patterns[0];
@@ -1585,13 +2037,29 @@ export class RecommendationService {
     ): Promise<string[]> {
         const cons: string[] = [];
 
-        const annualFee = (card.feeStructure as any)?.annualFee || 0;
-        if (annualFee > 2000) {
+        const annualFee = savings.effectiveAnnualFee;
+        const { feeWaiver } = savings;
+        if (annualFee > 0 && feeWaiver.shortfall > 0) {
+            cons.push(`₹${Math.ceil(feeWaiver.shortfall).toLocaleString('en-IN')} short of the ₹${annualFee} annual fee waiver ` +
+                `(needs ₹${feeWaiver.annualSpendRequired.toLocaleString('en-IN')} yearly spend)`);
+        } else if (annualFee > 2000) {
             cons.push(`High annual fee of ₹${annualFee}`);
         } else if (annualFee > 0 && annualFee <= 2000) {
             cons.push(`Annual fee: ₹${annualFee}`);
         }
 
+        // Rewards the user was not credited for because a condition is not met
+        const unmetMessages = new Set(savings.unmetConditions.map(unmet => unmet.rewardRate
+            ? `${unmet.rewardRate}% on ${unmet.rewardDescription}: ${unmet.description.toLowerCase()}`
+            : `${unmet.rewardDescription}: ${unmet.description.toLowerCase()}`));
+        cons.push(...Array.from(unmetMessages).slice(0, 2));
+
+        const { pointsExpiry } = savings;
+        if (pointsExpiry?.atRisk) {
+            cons.push(`Points likely to expire unused: ~${Math.round(pointsExpiry.monthlyPoints)} points a month ` +
+                `won't reach the ${pointsExpiry.minimumPoints}-point minimum within the ${pointsExpiry.expiryMonths}-month validity`);
+        }
+
         if (savings.statementPeriodEarnings < 100) {
             cons.push('Limited earnings potential based on current spending');
         }
@@ -1743,19 +2211,104 @@ export class RecommendationService {
     /**
      * Convert savings analysis to benefit breakdown format
      */
-    private convertSavingsToBreakdown(savings: CardSavingsAnalysis): any[] {
-        return savings.categoryBreakdown.map(category => {
+    private convertSavingsToBreakdown(savings: CardSavingsAnalysis): BenefitBreakdown[] {
+        const breakdown: BenefitBreakdown[] = savings.categoryBreakdown.map(category => {
             return {
+                lineType: 'category',
                 category: category.categoryName,
-                currentRate: 0, // No baseline comparison
+                currentRate: category.baselineEarnRate ?? 0, // Rate on the owned card, when one is given
                 cardRate: category.cardEarnRate,
                 spentAmount: category.spentAmount, // Statement period amount
                 earnedPoints: category.cardEarnings, // Statement period earnings
                 dollarValue: category.cardEarnings, // Statement period earnings
-                savingsAmount: 0, // No savings calculation
-                monthlyCap: category.monthlyCap // Include monthly cap info
+                savingsAmount: category.baselineEarnings !== undefined
+                    ? Math.max(0, category.cardEarnings - category.baselineEarnings)
+                    : 0,
+                monthlyCap: category.monthlyCap, // Include cap info
+                cappingPeriod: category.cappingPeriod,
+                uncappedValue: category.uncappedEarnings,
+                periodBreakdown: category.periodBreakdown
             };
         });
+
+        for (const exclusion of savings.excludedSpend) {
+            breakdown.push({
+                lineType: 'excluded',
+                category: exclusion.reason,
+                currentRate: 0,
+                cardRate: 0,
+                spentAmount: exclusion.spentAmount,
+                earnedPoints: 0,
+                dollarValue: 0,
+                savingsAmount: 0,
+                note: `No rewards on ${exclusion.transactionCount} transaction${exclusion.transactionCount === 1 ? '' : 's'} (already counted in the categories above)`
+            });
+        }
+
+        for (const adjustment of savings.feeAdjustments) {
+            breakdown.push({
+                lineType: adjustment.type,
+                category: adjustment.label,
+                currentRate: 0,
+                cardRate: adjustment.type === 'foreign_markup' ? -adjustment.rate : adjustment.rate,
+                spentAmount: adjustment.spentAmount,
+                earnedPoints: adjustment.value,
+                dollarValue: adjustment.value,
+                savingsAmount: 0,
+                monthlyCap: adjustment.capPerCycle,
+                cappingPeriod: adjustment.capPerCycle ? 'monthly' : undefined,
+                note: `${adjustment.transactionCount} transaction${adjustment.transactionCount === 1 ? '' : 's'}`
+            });
+        }
+
+        if (savings.pointsExpiry?.atRisk) {
+            breakdown.push({
+                lineType: 'points_expiry',
+                category: 'Points expiring before redemption',
+                currentRate: 0,
+                cardRate: 0,
+                spentAmount: 0,
+                earnedPoints: -savings.pointsExpiry.forfeitedValue,
+                dollarValue: -savings.pointsExpiry.forfeitedValue,
+                savingsAmount: 0,
+                note: `About ${Math.floor(savings.pointsExpiry.balanceAtExpiry)} points build up within ` +
+                    `${savings.pointsExpiry.expiryMonths} months; redemption needs ${savings.pointsExpiry.minimumPoints}`
+            });
+        }
+
+        if (savings.milestones.length > 0) {
+            const reached = savings.milestones.filter(milestone => milestone.reached);
+            breakdown.push({
+                lineType: 'milestone',
+                category: 'Milestone benefits',
+                currentRate: 0,
+                cardRate: 0,
+                spentAmount: 0,
+                earnedPoints: savings.milestoneValue,
+                dollarValue: savings.milestoneValue, // Statement-period share of the milestones reached
+                savingsAmount: 0,
+                note: savings.nextMilestone
+                    ? this.formatNextMilestone(savings.nextMilestone)
+                    : `All ${reached.length} milestone${reached.length === 1 ? '' : 's'} reached at your spend level`
+            });
+        }
+
+        return breakdown;
+    }
+
+    /**
+     * Describe the closest unreached milestone, e.g. "Spend ₹20,000 more per quarter to unlock ..."
+     */
+    private formatNextMilestone(milestone: MilestoneProgress): string {
+        const periodLabels: Record<string, string> = {
+            monthly: 'month',
+            quarterly: 'quarter',
+            yearly: 'year'
+        };
+        const shortfall = Math.ceil(milestone.shortfall).toLocaleString('en-IN');
+        const value = Math.round(milestone.valuePerOccurrence).toLocaleString('en-IN');
+
+        return `Spend ₹${shortfall} more per ${periodLabels[milestone.period]} to unlock ${milestone.benefitName} (worth ₹${value})`;
     }
 
     /**
@@ -0,0 +1,63 @@
+/**
+ * Redemption Catalog Service
+ * Values a card's reward units by the best redemption path available for the user's redemption style
+ */
+
+import {
+    REDEMPTION_FEE_BATCH_POINTS,
+    REDEMPTION_STYLE_TYPES,
+    RedemptionStyle
+} from '@/shared/constants/recommendation.constants';
+import type { EnhancedCreditCard, RedemptionOption, RedemptionPath } from '@/shared/types/recommendation.types';
+
+export class RedemptionCatalogService {
+    /**
+     * Redemption options seeded on the card, if any
+     */
+    getCatalog(card: EnhancedCreditCard): RedemptionOption[] {
+        const options = card.rewardStructure?.redemptionOptions;
+        return Array.isArray(options)
+            ? options.filter((option: RedemptionOption) => typeof option?.conversionRate === 'number')
+            : [];
+    }
+
+    /**
+     * Rupee value of one reward unit redeemed through a specific option, net of fees
+     */
+    valueOption(option: RedemptionOption): number {
+        const grossValue = option.conversionRate * (option.partnerUnitValue ?? 1);
+        const batchPoints = Math.max(option.minimumPoints ?? 0, REDEMPTION_FEE_BATCH_POINTS);
+        const feePerPoint = option.fee ? option.fee / batchPoints : 0;
+
+        return Math.max(0, grossValue - feePerPoint);
+    }
+
+    /**
+     * Best redemption path for the style, or null when the card has no usable catalog entry
+     */
+    selectBestPath(card: EnhancedCreditCard, style: RedemptionStyle = RedemptionStyle.CASH_LIKE): RedemptionPath | null {
+        const allowedTypes = REDEMPTION_STYLE_TYPES[style];
+        let best: RedemptionPath | null = null;
+
+        for (const option of this.getCatalog(card)) {
+            if (!allowedTypes.includes(option.type)) continue;
+
+            const valuePerPoint = this.valueOption(option);
+            if (!best || valuePerPoint > best.valuePerPoint) {
+                best = {
+                    style,
+                    type: option.type,
+                    description: option.description,
+                    valuePerPoint,
+                    minimumPoints: option.minimumPoints,
+                    transferPartners: option.transferPartners
+                };
+            }
+        }
+
+        return best;
+    }
+}
+
+// Export singleton instance
+export const redemptionCatalogService = new RedemptionCatalogService();
@@ -0,0 +1,233 @@
+/**
+ * Reward Conditions Service
+ * Registry of evaluators for the condition keys seeded on accelerated rewards and card benefits
+ */
+
+import { logger } from '@/shared/utils/logger.util';
+import type {
+    PatternTransaction,
+    SpendingPattern,
+    UserProfile
+} from '@/shared/types/recommendation.types';
+
+export interface ConditionContext {
+    profile: UserProfile;
+    pattern?: SpendingPattern;
+    monthlySpending?: number;
+}
+
+export interface ConditionResult {
+    condition: string;
+    met: boolean;
+    description: string;
+    // When present the condition only holds for a subset of the pattern's transactions
+    transactionFilter?: (transaction: PatternTransaction) => boolean;
+}
+
+export interface ConditionsEvaluation {
+    allMet: boolean;
+    results: ConditionResult[];
+    unmetConditions: ConditionResult[];
+    transactionFilter?: (transaction: PatternTransaction) => boolean;
+}
+
+type ConditionEvaluator = (context: ConditionContext) => Omit<ConditionResult, 'condition'>;
+
+const DAY_MS = 86_400_000;
+
+// Cards approved after this date qualify for card_approval_after_dec_2024 benefits
+const DEC_2024_APPROVAL_CUTOFF = new Date('2024-12-31T00:00:00.000Z');
+
+// Monthly spend above which monthly_spend_above_150k rewards apply, in rupees
+const HIGH_MONTHLY_SPEND = 150_000;
+
+// getUTCDay() values for the weekend
+const SUNDAY = 0;
+const SATURDAY = 6;
+
+export class RewardConditionsService {
+    private readonly registry = new Map<string, ConditionEvaluator>();
+
+    constructor() {
+        this.registerDefaultConditions();
+    }
+
+    /**
+     * Register (or replace) the evaluator for a condition key
+     */
+    register(condition: string, evaluator: ConditionEvaluator): void {
+        this.registry.set(condition, evaluator);
+    }
+
+    /**
+     * Check whether an evaluator exists for a condition key
+     */
+    isRegistered(condition: string): boolean {
+        return this.registry.has(condition) || this.resolvePatternEvaluator(condition) !== null;
+    }
+
+    /**
+     * Evaluate a single condition key against the user profile
+     */
+    evaluateCondition(condition: string, context: ConditionContext): ConditionResult {
+        const evaluator = this.registry.get(condition) ?? this.resolvePatternEvaluator(condition);
+
+        if (!evaluator) {
+            // Unknown conditions are informational; do not penalise cards for them
+            logger.debug('No evaluator registered for reward condition', { condition });
+            return { condition, met: true, description: this.humanize(condition) };
+        }
+
+        return { condition, ...evaluator(context) };
+    }
+
+    /**
+     * Evaluate every condition attached to a reward or benefit
+     */
+    evaluateConditions(conditions: string[] | undefined, context: ConditionContext): ConditionsEvaluation {
+        const results = (conditions ?? []).map(condition => this.evaluateCondition(condition, context));
+        const unmetConditions = results.filter(result => !result.met);
+        const filters = results
+            .filter(result => result.met && result.transactionFilter)
+            .map(result => result.transactionFilter!);
+
+        return {
+            allMet: unmetConditions.length === 0,
+            results,
+            unmetConditions,
+            transactionFilter: filters.length > 0
+                ? (transaction: PatternTransaction) => filters.every(filter => filter(transaction))
+                : undefined
+        };
+    }
+
+    /**
+     * Turn a condition key into readable text for pros/cons
+     */
+    humanize(condition: string): string {
+        const text = condition.replace(/_/g, ' ');
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+
+    // ==================== PRIVATE METHODS ====================
+
+    private registerDefaultConditions(): void {
+        // Memberships
+        this.register('amazon_prime_membership', ({ profile }) => ({
+            met: this.hasMembership(profile, 'amazon_prime'),
+            description: 'Requires an Amazon Prime membership'
+        }));
+        this.register('non_prime_members_only', ({ profile }) => ({
+            met: !this.hasMembership(profile, 'amazon_prime'),
+            description: 'Only for customers without Amazon Prime'
+        }));
+
+        // Card approval date
+        this.register('card_approval_after_dec_2024', ({ profile }) => ({
+            met: this.getApprovalDate(profile) > DEC_2024_APPROVAL_CUTOFF,
+            description: 'Only for cards approved after December 2024'
+        }));
+
+        // Channel / platform restrictions
+        this.register('smartbuy_portal_only', ({ profile }) => ({
+            met: profile.usesIssuerTravelPortals === true,
+            description: 'Only on bookings made through HDFC SmartBuy'
+        }));
+        this.register('travel_edge_portal_only', ({ profile }) => ({
+            met: profile.usesIssuerTravelPortals === true,
+            description: 'Only on bookings made through Axis Travel Edge'
+        }));
+        this.register('google_pay_android_only', ({ profile }) => ({
+            met: (profile.paymentApps ?? []).includes('google_pay') && profile.devicePlatform !== 'ios',
+            description: 'Only on bill payments via Google Pay on Android'
+        }));
+        this.register('rupay_variant_only', ({ profile }) => ({
+            met: profile.cardVariant?.toLowerCase() === 'rupay',
+            description: 'Only on the RuPay variant of the card (UPI spends)'
+        }));
+        this.register('online_transactions_only', () => ({
+            met: true,
+            description: 'Only on online transactions',
+            transactionFilter: transaction => transaction.channel !== 'offline'
+        }));
+        this.register('offline_transactions_only', () => ({
+            met: true,
+            description: 'Only on in-store transactions',
+            transactionFilter: transaction => transaction.channel !== 'online'
+        }));
+
+        // Spend-based restrictions
+        this.register('utilities_and_recharges', ({ pattern }) => ({
+            met: !pattern || /utilit|bill|recharge/i.test(pattern.categoryName),
+            description: 'Only on utility bills and recharges'
+        }));
+        this.register('monthly_spend_above_150k', ({ monthlySpending }) => ({
+            met: (monthlySpending ?? 0) > HIGH_MONTHLY_SPEND,
+            description: 'Only on monthly spends above ₹1.5 lakh'
+        }));
+
+        // Date-based restrictions
+        this.register('weekend_only', () => ({
+            met: true,
+            description: 'Only on weekend transactions',
+            transactionFilter: transaction => {
+                const day = new Date(transaction.date).getUTCDay();
+                return day === SUNDAY || day === SATURDAY;
+            }
+        }));
+        this.register('birthday_plus_minus_one_day', ({ profile }) => {
+            const birthDate = profile.birthDate ? new Date(profile.birthDate) : null;
+            return {
+                met: birthDate !== null && !isNaN(birthDate.getTime()),
+                description: 'Only on spends within a day of your birthday',
+                transactionFilter: birthDate
+                    ? transaction => this.isNearBirthday(new Date(transaction.date), birthDate)
+                    : undefined
+            };
+        });
+
+        // Conditions we cannot verify from statement data are assumed met
+        this.register('non_emi_transactions', () => ({
+            met: true,
+            description: 'Not applicable on EMI transactions'
+        }));
+        this.register('special_promotions', () => ({
+            met: false,
+            description: 'Only during limited-time promotions'
+        }));
+    }
+
+    /**
+     * Evaluators for parameterised condition keys such as transactions_above_2500
+     */
+    private resolvePatternEvaluator(condition: string): ConditionEvaluator | null {
+        const minimumMatch = condition.match(/^(?:transactions_above|min_transaction)_(\d+)$/);
+        if (minimumMatch) {
+            const minimum = Number(minimumMatch[1]);
+            return () => ({
+                met: true,
+                description: `Only on transactions above ₹${minimum}`,
+                transactionFilter: transaction => transaction.amount >= minimum
+            });
+        }
+
+        return null;
+    }
+
+    private hasMembership(profile: UserProfile, membership: string): boolean {
+        return (profile.memberships ?? []).some(item => item.toLowerCase() === membership);
+    }
+
+    private getApprovalDate(profile: UserProfile): Date {
+        const approvalDate = profile.cardApprovalDate ? new Date(profile.cardApprovalDate) : new Date();
+        return isNaN(approvalDate.getTime()) ? new Date() : approvalDate;
+    }
+
+    private isNearBirthday(date: Date, birthDate: Date): boolean {
+        const birthday = Date.UTC(date.getUTCFullYear(), birthDate.getUTCMonth(), birthDate.getUTCDate());
+        return Math.abs(date.getTime() - birthday) <= DAY_MS;
+    }
+}
+
+// Export singleton instance
+export const rewardConditionsService = new RewardConditionsService();
@@ -1,6 +1,25 @@
-import { SpendingPattern } from '../types/recommendation.types';
+import {
+    EnhancedCreditCard,
+    PatternTransaction,
+    PeriodEarnings,
+    RedemptionPath,
+    RewardExclusion,
+    SpendingPattern,
+    TransactionEarning,
+    UserProfile,
+    ValueTimelineYear
+} from '../types/recommendation.types';
 import { configService } from './config.service';
-import { RewardCurrency } from '../constants/recommendation.constants';
+import { ConditionContext, ConditionResult, rewardConditionsService } from './reward-conditions.service';
+import { redemptionCatalogService } from './redemption-catalog.service';
+import { billingCycleService } from './billing-cycle.service';
+import {
+    CappingPeriod,
+    DEFAULT_REWARD_EXCLUSIONS,
+    RedemptionStyle,
+    RewardCurrency,
+    VALUE_TIMELINE_YEARS
+} from '../constants/recommendation.constants';
 import { logger } from '../utils/logger.util';
 
 export interface CardSavingsAnalysis {
@@ -11,6 +30,90 @@ export interface CardSavingsAnalysis {
     signupBonusValue: number;
     joiningFee: number;
     annualFee: number;
+    feeWaiver: FeeWaiverStatus;
+    effectiveAnnualFee: number; // Annual fee after any spend-based waiver the user qualifies for
+    unmetConditions: UnmetRewardCondition[]; // Rewards/benefits the user would not qualify for
+    milestoneValue: number; // Milestone benefits reached, prorated to the statement period (included in earnings)
+    milestones: MilestoneProgress[];
+    nextMilestone?: MilestoneProgress;
+    feeAdjustments: FeeAdjustment[]; // Fuel surcharge waived (+) and foreign markup charged (-), included in earnings
+    excludedSpend: ExcludedSpend[]; // Spend that earned nothing because of the card's exclusions
+    redemption?: RedemptionPath; // Redemption path the points were valued at, when the card has a catalog
+    pointsExpiry?: PointsExpiryRisk; // Set for cards whose points expire and need a minimum to redeem
+    valueTimeline: ValueTimelineYear[]; // Years 1-5 at the projected spend, with cumulative net value
+    // Set when compared against a card the user already holds
+    baselineCardId?: string;
+    baselineEarnings?: number; // Baseline card's statement period earnings
+    incrementalEarnings?: number; // Statement period earnings minus the baseline's, milestones and fee adjustments included; negative when it earns less
+}
+
+export interface PointsExpiryRisk {
+    expiryMonths: number;
+    minimumPoints: number; // Smallest useful redemption
+    monthlyPoints: number; // Projected accrual
+    balanceAtExpiry: number; // Most points held at once before the oldest start expiring
+    monthsToMinimum: number;
+    atRisk: boolean; // Points expire before the minimum is reached
+    forfeitedValue: number; // Statement period earnings removed because of it
+}
+
+interface ValueTimelineInputs {
+    annualRewardEarnings: number;
+    annualMilestoneValue: number;
+    signupBonusValue: number;
+    joiningFee: number;
+    annualFee: number;
+    feeWaiver: FeeWaiverStatus;
+    monthlySpending: number;
+}
+
+export interface ExcludedSpend {
+    reason: string;
+    spentAmount: number;
+    transactionCount: number;
+}
+
+interface TransactionSimulation {
+    ledger: TransactionEarning[];
+    unmetConditions: UnmetRewardCondition[];
+}
+
+export interface FeeAdjustment {
+    type: 'fuel_surcharge_waiver' | 'foreign_markup';
+    label: string;
+    rate: number; // Waiver or markup percentage
+    spentAmount: number; // Spend the rate applied to
+    transactionCount: number;
+    value: number; // Signed rupee impact for the statement period
+    capPerCycle?: number;
+}
+
+export interface FeeWaiverStatus {
+    waiverType: string;
+    annualSpendRequired: number;
+    projectedAnnualSpending: number;
+    waived: boolean;
+    shortfall: number; // Extra annual spend needed for the waiver (0 when waived or not waivable)
+}
+
+export interface MilestoneProgress {
+    benefitName: string;
+    period: CappingPeriod;
+    spendThreshold: number; // Spend required within one period
+    projectedPeriodSpend: number; // User's annualized spend expressed per period
+    occurrencesPerYear: number; // How many times a year the milestone is reached at the projected spend
+    valuePerOccurrence: number; // Rupee value of one milestone reward
+    annualValue: number;
+    reached: boolean;
+    shortfall: number; // Extra spend per period needed to reach it
+}
+
+export interface UnmetRewardCondition {
+    categoryName: string;
+    rewardDescription: string;
+    rewardRate?: number;
+    condition: string;
+    description: string;
 }
 
 export interface CategorySavings {
@@ -18,8 +121,48 @@ export interface CategorySavings {
     spentAmount: number;
     cardEarnRate: number;
     cardEarnings: number; // Gross earnings for this category in statement period
+    uncappedEarnings: number; // Earnings before any capping limit is applied
     percentageOfTotalSpend: number;
-    monthlyCap?: number; // Monthly capping limit for this category
+    monthlyCap?: number; // Capping limit for this category, applied once per cappingPeriod
+    cappingPeriod?: CappingPeriod;
+    periodBreakdown?: PeriodEarnings[]; // Capped vs uncapped earnings per capping period
+    unmetConditions?: UnmetRewardCondition[];
+    excludedSpend?: number; // Part of spentAmount that earned nothing
+    exclusionReason?: string; // Set when the whole category is excluded (aggregate fallback only)
+    baselineEarnRate?: number; // Baseline card's effective rate on this category
+    baselineEarnings?: number;
+}
+
+export interface SavingsCalculationOptions {
+    // Day of month the billing cycle starts on; caps are bucketed by calendar periods when omitted
+    billingCycleStartDay?: number;
+    // Length of the statement's billing cycle in months; counted from transaction months when omitted
+    statementMonths?: number;
+    // Profile that reward conditions are evaluated against; unknown facts use conservative defaults
+    userProfile?: UserProfile;
+    // Annual spend projected from the statement; falls back to monthly spend x 12
+    projectedAnnualSpending?: number;
+    // How the user redeems points; cash-like when omitted
+    redemptionStyle?: RedemptionStyle;
+}
+
+interface RewardSelection {
+    reward: any;
+    transactionFilter?: (transaction: PatternTransaction) => boolean;
+    unmetConditions: UnmetRewardCondition[];
+}
+
+const FUEL_MCC_CODES = ['5541', '5542'];
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+
+interface RawPeriodEarnings {
+    periodKey: string;
+    periodStart: Date;
+    periodEnd: Date;
+    spentAmount: number;
+    uncappedRaw: number;
+    cappedRaw: number;
 }
 
 export interface BenefitMatch {
@@ -32,17 +175,36 @@ export interface BenefitMatch {
 
 /**
  * Simplified savings calculator for credit card recommendations
- * This service calculates gross earnings for the statement period only
- * No baseline subtraction, no annualization
+ * This service calculates gross earnings for the statement period only (no annualization);
+ * when a baseline card is given, the gain over it is reported for the whole card, with a per-category breakdown
  */
 export class SavingsCalculatorService {
     /**
      * Calculate statement period earnings for a card
      */
     async calculateCardSavings(
-        card: any,
+        card: EnhancedCreditCard,
+        spendingPatterns: SpendingPattern[],
+        baselineCard?: EnhancedCreditCard,
+        options: SavingsCalculationOptions = {}
+    ): Promise<CardSavingsAnalysis> {
+        const analysis = await this.calculateGrossSavings(card, spendingPatterns, options);
+
+        if (!baselineCard || baselineCard.id === card.id) {
+            return analysis;
+        }
+
+        const baseline = await this.calculateGrossSavings(baselineCard, spendingPatterns, options);
+        return this.applyBaseline(analysis, baseline);
+    }
+
+    /**
+     * Statement period earnings for a card on its own
+     */
+    private async calculateGrossSavings(
+        card: EnhancedCreditCard,
         spendingPatterns: SpendingPattern[],
-        baselineCard?: any
+        options: SavingsCalculationOptions
     ): Promise<CardSavingsAnalysis> {
         // Filter out negative amounts (credits/refunds)
         const positiveSpendingPatterns = spendingPatterns.filter(
@@ -55,45 +217,105 @@ export class SavingsCalculatorService {
 
         if (totalPositiveSpend === 0) {
             // Fallback for edge case with no positive spending
-            return this.createEmptySavingsAnalysis(card.id,
+            return this.createEmptySavingsAnalysis(card,
                 Number(card.feeStructure?.joiningFee || 0),
                 Number(card.feeStructure?.annualFee || 0));
         }
 
+        const statementMonths = options.statementMonths ?? this.countStatementMonths(positiveSpendingPatterns);
+        const monthlySpending = totalPositiveSpend / statementMonths;
+
         // Calculate category-wise earnings
-        const categoryBreakdown: CategorySavings[] = [];
+        let categoryBreakdown: CategorySavings[] = [];
+        let excludedSpend: ExcludedSpend[] = [];
+        const unmetConditions: UnmetRewardCondition[] = [];
         let totalCardEarnings = 0;
 
-        for (const pattern of positiveSpendingPatterns) {
-            const categorySavings = await this.calculateCategorySavings(
-                card,
-                pattern,
-                totalPositiveSpend
+        // Run each transaction through the earn rules when the patterns carry them
+        const canSimulate = positiveSpendingPatterns.every(pattern => (pattern.transactions ?? []).length > 0);
+        if (canSimulate) {
+            const pointValue = await this.getCardPointValue(card, options.redemptionStyle);
+            const simulation = this.runTransactionSimulation(card, positiveSpendingPatterns, options, monthlySpending, pointValue);
+
+            categoryBreakdown = this.rollUpLedger(
+                positiveSpendingPatterns,
+                simulation,
+                totalPositiveSpend,
+                options.billingCycleStartDay
             );
+            unmetConditions.push(...simulation.unmetConditions);
+            excludedSpend = this.summarizeExclusions(simulation.ledger);
+            totalCardEarnings = categoryBreakdown.reduce((sum, category) => sum + category.cardEarnings, 0);
+        } else {
+            // Aggregate fallback for patterns without transaction detail
+            for (const pattern of positiveSpendingPatterns) {
+                const categorySavings = await this.calculateCategorySavings(
+                    card,
+                    pattern,
+                    totalPositiveSpend,
+                    options,
+                    monthlySpending
+                );
+
+                unmetConditions.push(...(categorySavings.unmetConditions ?? []));
+                if (categorySavings.exclusionReason) {
+                    excludedSpend.push({
+                        reason: categorySavings.exclusionReason,
+                        spentAmount: pattern.totalSpent,
+                        transactionCount: pattern.transactionCount
+                    });
+                }
 
-            categoryBreakdown.push(categorySavings);
-            totalCardEarnings += categorySavings.cardEarnings;
+                categoryBreakdown.push(categorySavings);
+                totalCardEarnings += categorySavings.cardEarnings;
+            }
         }
 
+        const rewardEarnings = totalCardEarnings;
+
         // Handle fees from new structure
         const joiningFee = Number(card.feeStructure?.joiningFee || 0);
-        const annualFee = Number(card.feeStructure?.annualFee || card.annualFee || 0);
+        const annualFee = Number(card.feeStructure?.annualFee || 0);
+        const feeWaiver = this.evaluateFeeWaiver(card, options.projectedAnnualSpending ?? monthlySpending * 12);
 
         // Signup bonus calculation from additional benefits
         let signupBonusValue = 0;
-        if (card.additionalBenefits?.length > 0) {
-            const welcomeBenefits = card.additionalBenefits.find((b: any) => b.categoryId === 'welcome_benefits');
-            if (welcomeBenefits?.benefits?.length > 0) {
-                signupBonusValue = welcomeBenefits.benefits.reduce((sum: number, benefit: any) => {
-                    return sum + (Number(benefit.benefitValue) || 0);
-                }, 0);
-            }
+        const welcomeBenefits = card.additionalBenefits?.find(b => b.categoryId === 'welcome_benefits');
+        if (welcomeBenefits && welcomeBenefits.benefits.length > 0) {
+            signupBonusValue = welcomeBenefits.benefits.reduce((sum, benefit) => {
+                const evaluation = rewardConditionsService.evaluateConditions(benefit.conditions, {
+                    profile: options.userProfile ?? {},
+                    monthlySpending
+                });
+
+                if (!evaluation.allMet) {
+                    unmetConditions.push(...this.toUnmetConditions(
+                        'Welcome benefits',
+                        benefit.benefitName ?? benefit.description ?? 'Welcome benefit',
+                        undefined,
+                        evaluation.unmetConditions
+                    ));
+                    return sum;
+                }
+
+                return sum + (Number(benefit.benefitValue) || 0);
+            }, 0);
         }
 
-        // Fallback to legacy signupBonus field if exists
-        if (signupBonusValue === 0 && card.signupBonus) {
-            const pointValueMultiplier = await this.getPointValue(card.rewardCurrency || 'default');
-            signupBonusValue = Number(card.signupBonus) * pointValueMultiplier;
+        // Milestone benefits: annualized spend checked against each threshold, prorated to the statement
+        const milestones = await this.calculateMilestoneProgress(card, monthlySpending, options.redemptionStyle);
+        const annualMilestoneValue = milestones.reduce((sum, milestone) => sum + milestone.annualValue, 0);
+        const milestoneValue = annualMilestoneValue * (statementMonths / 12);
+        totalCardEarnings += milestoneValue;
+
+        // Fuel surcharge waiver and foreign-currency markup, checked per transaction
+        const feeAdjustments = this.calculateFeeAdjustments(card, positiveSpendingPatterns, options);
+        totalCardEarnings += feeAdjustments.reduce((sum, adjustment) => sum + adjustment.value, 0);
+
+        // Points that expire before reaching a useful redemption are worth nothing
+        const pointsExpiry = await this.evaluatePointsExpiry(card, rewardEarnings, statementMonths, options.redemptionStyle);
+        if (pointsExpiry?.atRisk) {
+            totalCardEarnings -= pointsExpiry.forfeitedValue;
         }
 
         // Debug logging for card-level earnings
@@ -115,50 +337,570 @@ export class SavingsCalculatorService {
             categoryBreakdown,
             signupBonusValue,
             joiningFee,
-            annualFee
+            annualFee,
+            feeWaiver,
+            effectiveAnnualFee: feeWaiver.waived ? 0 : annualFee,
+            unmetConditions,
+            milestoneValue,
+            milestones,
+            nextMilestone: this.findNextMilestone(milestones),
+            feeAdjustments,
+            excludedSpend,
+            redemption: redemptionCatalogService.selectBestPath(card, options.redemptionStyle) ?? undefined,
+            pointsExpiry,
+            valueTimeline: this.buildValueTimeline(card, {
+                annualRewardEarnings: (totalCardEarnings - milestoneValue) * (12 / statementMonths),
+                annualMilestoneValue,
+                signupBonusValue,
+                joiningFee,
+                annualFee,
+                feeWaiver,
+                monthlySpending
+            })
         };
     }
 
+    /**
+     * Per-transaction earnings ledger for a card
+     */
+    async simulateTransactions(
+        card: EnhancedCreditCard,
+        spendingPatterns: SpendingPattern[],
+        options: SavingsCalculationOptions = {}
+    ): Promise<TransactionEarning[]> {
+        const positiveSpendingPatterns = spendingPatterns.filter(pattern => pattern.totalSpent > 0);
+        const totalPositiveSpend = positiveSpendingPatterns.reduce((sum, pattern) => sum + pattern.totalSpent, 0);
+        const monthlySpending = totalPositiveSpend
+            / (options.statementMonths ?? this.countStatementMonths(positiveSpendingPatterns));
+        const pointValue = await this.getCardPointValue(card, options.redemptionStyle);
+
+        return this.runTransactionSimulation(card, positiveSpendingPatterns, options, monthlySpending, pointValue).ledger;
+    }
+
+    /**
+     * Apply exclusions, reward matching, conditions, minimums and caps to each transaction in date order
+     */
+    private runTransactionSimulation(
+        card: EnhancedCreditCard,
+        patterns: SpendingPattern[],
+        options: SavingsCalculationOptions,
+        monthlySpending: number,
+        pointValue: number
+    ): TransactionSimulation {
+        const baseEarnRate = Number(card.rewardStructure?.baseRewardRate || 1.0);
+        const rewards = card.acceleratedRewards ?? [];
+        const capUsage = new Map<string, number>();
+        const unmetConditions = new Map<string, UnmetRewardCondition>();
+
+        const entries = patterns
+            .flatMap(pattern => (pattern.transactions ?? []).map(transaction => ({ pattern, transaction })))
+            .sort((a, b) => new Date(a.transaction.date).getTime() - new Date(b.transaction.date).getTime());
+
+        const ledger = entries.map(({ pattern, transaction }): TransactionEarning => {
+            const entry = {
+                transactionId: transaction.id,
+                date: transaction.date,
+                merchant: transaction.merchant,
+                mccCode: transaction.mccCode,
+                categoryName: pattern.categoryName,
+                amount: transaction.amount
+            };
+
+            const exclusion = this.findMatchingExclusion(card.rewardStructure?.excludedCategories, transaction);
+            if (exclusion) {
+                return {
+                    ...entry,
+                    earnRate: 0,
+                    earnedPoints: 0,
+                    uncappedEarnings: 0,
+                    earnings: 0,
+                    capped: false,
+                    excluded: true,
+                    exclusionReason: exclusion.description ?? exclusion.categoryId
+                };
+            }
+
+            // Match rewards against this transaction's own merchant and MCC, not the whole category
+            const transactionPattern: SpendingPattern = {
+                ...pattern,
+                totalSpent: transaction.amount,
+                transactionCount: 1,
+                averageTransaction: transaction.amount,
+                monthlyAverage: transaction.amount,
+                mccCodes: transaction.mccCode ? [transaction.mccCode] : [],
+                merchants: transaction.merchant ? [transaction.merchant] : [],
+                transactions: [transaction]
+            };
+            const selection = this.selectApplicableReward(rewards, transactionPattern, {
+                profile: options.userProfile ?? {},
+                pattern,
+                monthlySpending
+            }, this.withChannel(transaction));
+
+            for (const unmet of selection.unmetConditions) {
+                unmetConditions.set(`${unmet.rewardDescription}|${unmet.condition}`, unmet);
+            }
+
+            const reward = selection.reward;
+            const earnRate = reward ? Number(reward.rewardRate) : baseEarnRate;
+            const uncappedPoints = transaction.amount * (earnRate / 100);
+            let earnedPoints = uncappedPoints;
+
+            if (reward?.maxRewardPerTransaction) {
+                earnedPoints = Math.min(earnedPoints, Number(reward.maxRewardPerTransaction));
+            }
+
+            let cappingLimit: number | undefined;
+            let cappingPeriod: CappingPeriod | undefined;
+            let periodKey: string | undefined;
+
+            if (reward?.cappingLimit && reward.cappingPeriod) {
+                cappingLimit = Number(reward.cappingLimit);
+                cappingPeriod = this.normalizeCappingPeriod(reward.cappingPeriod);
+                periodKey = this.getCappingPeriodBounds(
+                    new Date(transaction.date),
+                    cappingPeriod,
+                    options.billingCycleStartDay
+                ).periodKey;
+
+                // e.g. 'quarterly_per_merchant' caps each merchant separately
+                const merchantKey = String(reward.cappingPeriod).includes('per_merchant')
+                    ? this.normalizeMerchantName(transaction.merchant ?? '')
+                    : '';
+                const usageKey = `${reward.id ?? reward.description}|${periodKey}|${merchantKey}`;
+                const used = capUsage.get(usageKey) ?? 0;
+
+                earnedPoints = Math.max(0, Math.min(earnedPoints, cappingLimit - used));
+                capUsage.set(usageKey, used + earnedPoints);
+            }
+
+            return {
+                ...entry,
+                rewardDescription: reward?.description,
+                earnRate,
+                earnedPoints,
+                uncappedEarnings: uncappedPoints * pointValue,
+                earnings: earnedPoints * pointValue,
+                capped: earnedPoints < uncappedPoints,
+                excluded: false,
+                cappingLimit,
+                cappingPeriod,
+                periodKey
+            };
+        });
+
+        return { ledger, unmetConditions: Array.from(unmetConditions.values()) };
+    }
+
+    /**
+     * Find the exclusion rule a transaction falls under, matching by MCC, category slug or merchant pattern.
+     * Rules without explicit matchers use DEFAULT_REWARD_EXCLUSIONS for their categoryId.
+     */
+    private findMatchingExclusion(
+        exclusions: RewardExclusion[] | undefined,
+        transaction: PatternTransaction
+    ): RewardExclusion | undefined {
+        const merchantText = this.normalizeMerchantPattern(`${transaction.merchant ?? ''} ${transaction.description ?? ''}`);
+        const slugs = [transaction.categorySlug, transaction.subCategorySlug].filter(Boolean);
+
+        return (exclusions ?? []).find(exclusion => {
+            const rules = this.resolveExclusionRules(exclusion);
+
+            return (transaction.mccCode !== undefined && rules.mccCodes.includes(transaction.mccCode)) ||
+                rules.categorySlugs.some(slug => slugs.includes(slug)) ||
+                (merchantText.length > 0 && rules.merchantPatterns.some(pattern =>
+                    merchantText.includes(this.normalizeMerchantPattern(pattern))));
+        });
+    }
+
+    private resolveExclusionRules(exclusion: RewardExclusion): Required<Omit<RewardExclusion, 'categoryId' | 'description'>> {
+        const defaults = DEFAULT_REWARD_EXCLUSIONS[exclusion.categoryId] ?? {};
+
+        return {
+            mccCodes: exclusion.mccCodes ?? defaults.mccCodes ?? [],
+            categorySlugs: exclusion.categorySlugs ?? defaults.categorySlugs ?? [],
+            merchantPatterns: exclusion.merchantPatterns ?? defaults.merchantPatterns ?? []
+        };
+    }
+
+    /**
+     * Aggregate the transaction ledger back into per-category savings
+     */
+    private rollUpLedger(
+        patterns: SpendingPattern[],
+        simulation: TransactionSimulation,
+        totalSpend: number,
+        billingCycleStartDay?: number
+    ): CategorySavings[] {
+        return patterns.map(pattern => {
+            const entries = simulation.ledger.filter(entry => entry.categoryName === pattern.categoryName);
+            const weightedRate = entries.reduce((sum, entry) => sum + entry.amount * entry.earnRate, 0);
+
+            // Report the cap of the capped reward that covered most of this category's spend
+            const cappedSpend = new Map<string, number>();
+            for (const entry of entries) {
+                if (entry.cappingLimit && entry.rewardDescription) {
+                    cappedSpend.set(entry.rewardDescription, (cappedSpend.get(entry.rewardDescription) ?? 0) + entry.amount);
+                }
+            }
+            const cappedReward = Array.from(cappedSpend.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+            const cappedEntries = entries.filter(entry => cappedReward && entry.rewardDescription === cappedReward);
+
+            const periods = new Map<string, PeriodEarnings>();
+            for (const entry of cappedEntries) {
+                if (!periods.has(entry.periodKey!)) {
+                    const bounds = this.getCappingPeriodBounds(
+                        new Date(entry.date),
+                        entry.cappingPeriod!,
+                        billingCycleStartDay
+                    );
+                    periods.set(entry.periodKey!, {
+                        periodKey: entry.periodKey!,
+                        periodStart: bounds.periodStart,
+                        periodEnd: bounds.periodEnd,
+                        spentAmount: 0,
+                        uncappedEarnings: 0,
+                        cappedEarnings: 0,
+                        capReached: false
+                    });
+                }
+
+                const period = periods.get(entry.periodKey!)!;
+                period.spentAmount += entry.amount;
+                period.uncappedEarnings += entry.uncappedEarnings;
+                period.cappedEarnings += entry.earnings;
+                period.capReached = period.capReached || entry.capped;
+            }
+
+            const categoryUnmet = simulation.unmetConditions.filter(unmet => unmet.categoryName === pattern.categoryName);
+
+            return {
+                categoryName: pattern.categoryName,
+                spentAmount: pattern.totalSpent,
+                cardEarnRate: pattern.totalSpent > 0 ? Math.round((weightedRate / pattern.totalSpent) * 100) / 100 : 0,
+                cardEarnings: entries.reduce((sum, entry) => sum + entry.earnings, 0),
+                uncappedEarnings: entries.reduce((sum, entry) => sum + entry.uncappedEarnings, 0),
+                percentageOfTotalSpend: (pattern.totalSpent / totalSpend) * 100,
+                monthlyCap: cappedEntries[0]?.cappingLimit,
+                cappingPeriod: cappedEntries[0]?.cappingPeriod,
+                periodBreakdown: periods.size > 0
+                    ? Array.from(periods.values()).sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime())
+                    : undefined,
+                unmetConditions: categoryUnmet.length > 0 ? categoryUnmet : undefined,
+                excludedSpend: entries.filter(entry => entry.excluded).reduce((sum, entry) => sum + entry.amount, 0)
+            };
+        });
+    }
+
+    /**
+     * Compare a card with one the user already holds. The gain is the difference between the
+     * two cards' whole statement-period earnings, so milestones, fee adjustments, expiring points
+     * and categories where this card earns less all count; per-category baseline figures are
+     * added for display only.
+     */
+    private applyBaseline(analysis: CardSavingsAnalysis, baseline: CardSavingsAnalysis): CardSavingsAnalysis {
+        const categoryBreakdown = analysis.categoryBreakdown.map(category => {
+            const baselineCategory = baseline.categoryBreakdown.find(item => item.categoryName === category.categoryName);
+            return {
+                ...category,
+                baselineEarnRate: baselineCategory?.cardEarnRate ?? 0,
+                baselineEarnings: baselineCategory?.cardEarnings ?? 0
+            };
+        });
+
+        return {
+            ...analysis,
+            categoryBreakdown,
+            baselineCardId: baseline.cardId,
+            baselineEarnings: baseline.statementPeriodEarnings,
+            incrementalEarnings: analysis.statementPeriodEarnings - baseline.statementPeriodEarnings
+        };
+    }
+
+    /**
+     * Group excluded ledger entries by exclusion reason
+     */
+    private summarizeExclusions(ledger: TransactionEarning[]): ExcludedSpend[] {
+        const byReason = new Map<string, ExcludedSpend>();
+
+        for (const entry of ledger.filter(item => item.excluded)) {
+            const reason = entry.exclusionReason ?? 'Excluded from rewards';
+            const summary = byReason.get(reason) ?? { reason, spentAmount: 0, transactionCount: 0 };
+            summary.spentAmount += entry.amount;
+            summary.transactionCount += 1;
+            byReason.set(reason, summary);
+        }
+
+        return Array.from(byReason.values()).sort((a, b) => b.spentAmount - a.spentAmount);
+    }
+
+    /**
+     * Year-by-year value: joining fee and welcome bonus in year 1, renewal fee (after any waiver) from year 2
+     */
+    private buildValueTimeline(card: EnhancedCreditCard, inputs: ValueTimelineInputs): ValueTimelineYear[] {
+        const criteria = card.feeStructure?.feeWaiverCriteria;
+        const renewalFee = Number(card.feeStructure?.renewalFee ?? inputs.annualFee);
+
+        // Joining fee is reversed when the joining spend is met within the waiver window
+        const joiningWindowSpend = inputs.monthlySpending * (Number(criteria?.joiningWaiverPeriod ?? 0) / AVERAGE_DAYS_PER_MONTH);
+        const joiningFeeWaived = inputs.feeWaiver.waiverType === 'lifetime_free' ||
+            (criteria?.type === 'joining_spend_based' && joiningWindowSpend >= Number(criteria.joiningSpendRequired ?? Infinity));
+
+        const timeline: ValueTimelineYear[] = [];
+        let cumulativeNetValue = 0;
+
+        for (let year = 1; year <= VALUE_TIMELINE_YEARS; year++) {
+            const firstYear = year === 1;
+            const feeWaived = firstYear ? joiningFeeWaived : inputs.feeWaiver.waived;
+            const fee = feeWaived ? 0 : (firstYear ? inputs.joiningFee : renewalFee);
+            const welcomeBonus = firstYear ? inputs.signupBonusValue : 0;
+            const netValue = inputs.annualRewardEarnings + inputs.annualMilestoneValue + welcomeBonus - fee;
+            cumulativeNetValue += netValue;
+
+            timeline.push({
+                year,
+                rewardEarnings: inputs.annualRewardEarnings,
+                milestoneValue: inputs.annualMilestoneValue,
+                welcomeBonus,
+                fee,
+                feeWaived,
+                netValue,
+                cumulativeNetValue
+            });
+        }
+
+        return timeline;
+    }
+
+    /**
+     * Compare projected annual spend with the card's feeWaiverCriteria
+     */
+    evaluateFeeWaiver(card: EnhancedCreditCard, projectedAnnualSpending: number): FeeWaiverStatus {
+        const criteria = card.feeStructure?.feeWaiverCriteria;
+        const waiverType = criteria?.type ?? (card.isLifetimeFree ? 'lifetime_free' : 'no_waiver');
+        const annualSpendRequired = Number(criteria?.annualSpendRequired ?? 0);
+
+        if (waiverType === 'lifetime_free') {
+            return { waiverType, annualSpendRequired: 0, projectedAnnualSpending, waived: true, shortfall: 0 };
+        }
+
+        if (waiverType === 'no_waiver' || annualSpendRequired <= 0) {
+            return { waiverType, annualSpendRequired, projectedAnnualSpending, waived: false, shortfall: 0 };
+        }
+
+        const waived = projectedAnnualSpending >= annualSpendRequired;
+        return {
+            waiverType,
+            annualSpendRequired,
+            projectedAnnualSpending,
+            waived,
+            shortfall: waived ? 0 : annualSpendRequired - projectedAnnualSpending
+        };
+    }
+
+    /**
+     * Fuel surcharge waived on eligible fuel transactions (capped per billing cycle) and
+     * markup charged on foreign-currency transactions
+     */
+    private calculateFeeAdjustments(
+        card: EnhancedCreditCard,
+        patterns: SpendingPattern[],
+        options: SavingsCalculationOptions
+    ): FeeAdjustment[] {
+        const transactions = patterns.flatMap(pattern => pattern.transactions ?? []);
+        const adjustments: FeeAdjustment[] = [];
+
+        const fuelWaiver = card.feeStructure?.fuelSurchargeWaiver;
+        if (fuelWaiver?.isAvailable) {
+            const minTransaction = Number(fuelWaiver.minTransaction ?? 0);
+            const maxTransaction = Number(fuelWaiver.maxTransaction ?? Infinity);
+            const waiverPercentage = Number(fuelWaiver.waiverPercentage ?? 1);
+            const maxWaiverPerCycle = Number(fuelWaiver.maxWaiverPerCycle ?? Infinity);
+
+            const eligible = transactions.filter(transaction =>
+                transaction.mccCode !== undefined && FUEL_MCC_CODES.includes(transaction.mccCode) &&
+                transaction.amount >= minTransaction && transaction.amount <= maxTransaction
+            );
+
+            if (eligible.length > 0) {
+                const waiverPerCycle = new Map<string, number>();
+                for (const transaction of eligible) {
+                    const { periodKey } = this.getCappingPeriodBounds(
+                        new Date(transaction.date),
+                        CappingPeriod.MONTHLY,
+                        options.billingCycleStartDay
+                    );
+                    waiverPerCycle.set(
+                        periodKey,
+                        (waiverPerCycle.get(periodKey) ?? 0) + transaction.amount * (waiverPercentage / 100)
+                    );
+                }
+
+                adjustments.push({
+                    type: 'fuel_surcharge_waiver',
+                    label: 'Fuel surcharge waiver',
+                    rate: waiverPercentage,
+                    spentAmount: eligible.reduce((sum, transaction) => sum + transaction.amount, 0),
+                    transactionCount: eligible.length,
+                    value: Array.from(waiverPerCycle.values())
+                        .reduce((sum, waiver) => sum + Math.min(waiver, maxWaiverPerCycle), 0),
+                    capPerCycle: isFinite(maxWaiverPerCycle) ? maxWaiverPerCycle : undefined
+                });
+            }
+        }
+
+        const markupRate = Number(card.feeStructure?.foreignMarkupFee ?? 0);
+        const foreign = transactions.filter(transaction => transaction.isForeign);
+        if (foreign.length > 0 && markupRate > 0) {
+            const foreignSpend = foreign.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+            adjustments.push({
+                type: 'foreign_markup',
+                label: 'Foreign currency markup',
+                rate: markupRate,
+                spentAmount: foreignSpend,
+                transactionCount: foreign.length,
+                value: -foreignSpend * (markupRate / 100)
+            });
+        }
+
+        return adjustments;
+    }
+
     /**
      * Calculate earnings for a specific category using accelerated rewards structure
      */
     private async calculateCategorySavings(
-        card: any,
+        card: EnhancedCreditCard,
         pattern: SpendingPattern,
-        totalSpend: number
+        totalSpend: number,
+        options: SavingsCalculationOptions = {},
+        monthlySpending?: number
     ): Promise<CategorySavings> {
-        // Find best matching accelerated reward for this category
-        const bestReward = this.findBestAcceleratedReward(card.acceleratedRewards || [], pattern);
+        // Without transaction detail, a category is excluded only when every one of its MCCs is
+        const exclusions = pattern.mccCodes.map(mccCode =>
+            this.findMatchingExclusion(card.rewardStructure?.excludedCategories, { date: new Date(), amount: 0, mccCode })
+        );
+        if (exclusions.length > 0 && exclusions.every(Boolean)) {
+            return {
+                categoryName: pattern.categoryName,
+                spentAmount: pattern.totalSpent,
+                cardEarnRate: 0,
+                cardEarnings: 0,
+                uncappedEarnings: 0,
+                percentageOfTotalSpend: (pattern.totalSpent / totalSpend) * 100,
+                excludedSpend: pattern.totalSpent,
+                exclusionReason: exclusions[0]!.description ?? exclusions[0]!.categoryId
+            };
+        }
+
+        // Find the best matching accelerated reward whose conditions the user meets
+        const selection = this.selectApplicableReward(card.acceleratedRewards ?? [], pattern, {
+            profile: options.userProfile ?? {},
+            pattern,
+            monthlySpending
+        });
+        const bestReward = selection.reward;
 
         // Determine card earn rate
-        let cardEarnRate = card.rewardStructure?.baseRewardRate || card.baseRewardRate || 1.0;
+        const baseEarnRate = card.rewardStructure?.baseRewardRate || 1.0;
+        let cardEarnRate = baseEarnRate;
 
         // Use accelerated reward rate if found and applicable
-        if (bestReward && this.isRewardApplicable(bestReward, pattern)) {
+        if (bestReward) {
             cardEarnRate = bestReward.rewardRate;
         }
 
+        // Conditions such as weekend_only or transactions_above_N only cover part of the spend;
+        // the accelerated rate applies to that subset and the base rate to the rest
+        let eligiblePattern = pattern;
+        let ineligibleSpend = 0;
+        if (bestReward && selection.transactionFilter && pattern.transactions?.length) {
+            const eligibleTransactions = pattern.transactions
+                .map(transaction => this.withChannel(transaction))
+                .filter(selection.transactionFilter);
+            const eligibleSpend = eligibleTransactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+            eligiblePattern = { ...pattern, totalSpent: eligibleSpend, transactions: eligibleTransactions };
+            ineligibleSpend = Math.max(0, pattern.totalSpent - eligibleSpend);
+        }
+
+        const ineligibleEarningsRaw = ineligibleSpend * (baseEarnRate / 100);
+
         // Calculate uncapped earnings first
-        const uncappedEarningsRaw = pattern.totalSpent * (cardEarnRate / 100);
+        const uncappedEarningsRaw = eligiblePattern.totalSpent * (cardEarnRate / 100) + ineligibleEarningsRaw;
 
-        // Apply capping to EARNINGS (not spending)
+        // Apply capping to EARNINGS (not spending), once per capping period
         let monthlyCap: number | undefined = undefined;
+        let cappingPeriod: CappingPeriod | undefined = undefined;
         let cardEarningsRaw = uncappedEarningsRaw;
+        let rawPeriods: RawPeriodEarnings[] = [];
 
         if (bestReward?.cappingLimit && bestReward.cappingPeriod) {
-            monthlyCap = bestReward.cappingLimit;
-            // Cap is applied to the EARNINGS amount, not the spending
-            cardEarningsRaw = Math.min(uncappedEarningsRaw, bestReward.cappingLimit);
+            monthlyCap = Number(bestReward.cappingLimit);
+            cappingPeriod = this.normalizeCappingPeriod(bestReward.cappingPeriod);
+            rawPeriods = this.calculatePeriodEarnings(
+                eligiblePattern,
+                cardEarnRate,
+                monthlyCap,
+                cappingPeriod,
+                options.billingCycleStartDay
+            );
+
+            // Without dated transactions the whole statement is treated as a single period
+            cardEarningsRaw = ineligibleEarningsRaw + (rawPeriods.length > 0
+                ? rawPeriods.reduce((sum, period) => sum + period.cappedRaw, 0)
+                : Math.min(uncappedEarningsRaw - ineligibleEarningsRaw, monthlyCap));
+        }
+
+        // Report the blended rate when only part of the spend earned the accelerated rate
+        if (ineligibleSpend > 0 && pattern.totalSpent > 0) {
+            cardEarnRate = Math.round((uncappedEarningsRaw / pattern.totalSpent) * 10000) / 100;
         }
 
         // Convert points to cash value based on reward currency with better fallback logic
-        let rewardCurrency = card.rewardCurrency;
+        const pointValue = await this.getCardPointValue(card, options.redemptionStyle);
+
+        // Convert earnings to dollar value based on point value
+        const cardEarnings = cardEarningsRaw * pointValue;
+        const uncappedEarnings = uncappedEarningsRaw * pointValue;
+
+        return {
+            categoryName: pattern.categoryName,
+            spentAmount: pattern.totalSpent,
+            cardEarnRate,
+            cardEarnings: isNaN(cardEarnings) ? 0 : cardEarnings,
+            uncappedEarnings: isNaN(uncappedEarnings) ? 0 : uncappedEarnings,
+            percentageOfTotalSpend: (pattern.totalSpent / totalSpend) * 100,
+            monthlyCap,
+            cappingPeriod,
+            periodBreakdown: rawPeriods.length > 0
+                ? rawPeriods.map(period => ({
+                    periodKey: period.periodKey,
+                    periodStart: period.periodStart,
+                    periodEnd: period.periodEnd,
+                    spentAmount: period.spentAmount,
+                    uncappedEarnings: period.uncappedRaw * pointValue,
+                    cappedEarnings: period.cappedRaw * pointValue,
+                    capReached: period.uncappedRaw > period.cappedRaw
+                }))
+                : undefined,
+            unmetConditions: selection.unmetConditions.length > 0 ? selection.unmetConditions : undefined
+        };
+    }
 
-        // If no reward currency is set, try to infer from rewardStructure
-        if (!rewardCurrency && card.rewardStructure?.rewardCurrency) {
-            rewardCurrency = card.rewardStructure.rewardCurrency;
+    /**
+     * Resolve the rupee value of one reward unit for a card
+     */
+    async getCardPointValue(card: EnhancedCreditCard, redemptionStyle?: RedemptionStyle): Promise<number> {
+        // Cards with a redemption catalog are valued through the best path for the user's style
+        const redemptionPath = redemptionCatalogService.selectBestPath(card, redemptionStyle);
+        if (redemptionPath && redemptionPath.valuePerPoint > 0) {
+            return redemptionPath.valuePerPoint;
         }
 
+        let rewardCurrency: string | undefined = card.rewardStructure?.rewardCurrency;
+
         // If still no currency, use the reward type to determine appropriate currency
         if (!rewardCurrency && card.rewardStructure?.rewardType) {
             if (card.rewardStructure.rewardType === 'cashback') {
@@ -174,37 +916,322 @@ export class SavingsCalculatorService {
 
         // Safety check for NaN values
         if (isNaN(pointValue) || pointValue <= 0) {
-            logger.warn(`Invalid point value for currency ${card.rewardCurrency}, using fallback`, {
+            logger.warn(`Invalid point value for currency ${rewardCurrency}, using fallback`, {
                 cardId: card.id,
-                rewardCurrency: card.rewardCurrency,
+                rewardCurrency,
                 pointValue
             });
-            const fallbackPointValue = 0.25;
-            let cardEarnings = cardEarningsRaw * fallbackPointValue;
+            return 0.25;
+        }
 
-            return {
-                categoryName: pattern.categoryName,
-                spentAmount: pattern.totalSpent,
-                cardEarnRate,
-                cardEarnings: isNaN(cardEarnings) ? 0 : cardEarnings,
-                percentageOfTotalSpend: (pattern.totalSpent / totalSpend) * 100,
-                monthlyCap
-            };
+        return pointValue;
+    }
+
+    /**
+     * Check whether projected accrual reaches the redemption minimum before the oldest points expire
+     */
+    private async evaluatePointsExpiry(
+        card: EnhancedCreditCard,
+        rewardEarnings: number,
+        statementMonths: number,
+        redemptionStyle?: RedemptionStyle
+    ): Promise<PointsExpiryRisk | undefined> {
+        const { rewardStructure } = card;
+        const expiryMonths = Number(rewardStructure?.pointsExpiry ?? rewardStructure?.pointsConversion?.validityMonths ?? 0);
+        const minimumPoints = redemptionCatalogService.selectBestPath(card, redemptionStyle)?.minimumPoints ??
+            Number(rewardStructure?.pointsConversion?.minimumRedemption ?? 0);
+
+        if (expiryMonths <= 0 || minimumPoints <= 0 || rewardEarnings <= 0) {
+            return undefined;
         }
 
-        // Convert earnings to dollar value based on point value
-        let cardEarnings = cardEarningsRaw * pointValue;
+        const pointValue = await this.getCardPointValue(card, redemptionStyle);
+        const monthlyPoints = rewardEarnings / pointValue / statementMonths;
+        const balanceAtExpiry = monthlyPoints * expiryMonths;
+        const atRisk = balanceAtExpiry < minimumPoints;
 
         return {
-            categoryName: pattern.categoryName,
-            spentAmount: pattern.totalSpent,
-            cardEarnRate,
-            cardEarnings: isNaN(cardEarnings) ? 0 : cardEarnings,
-            percentageOfTotalSpend: (pattern.totalSpent / totalSpend) * 100,
-            monthlyCap
+            expiryMonths,
+            minimumPoints,
+            monthlyPoints,
+            balanceAtExpiry,
+            monthsToMinimum: minimumPoints / monthlyPoints,
+            atRisk,
+            forfeitedValue: atRisk ? rewardEarnings : 0
+        };
+    }
+
+    /**
+     * Check the card's milestone benefits (e.g. quarterly_spend_150k) against the user's annualized spend
+     */
+    private async calculateMilestoneProgress(
+        card: EnhancedCreditCard,
+        monthlySpending: number,
+        redemptionStyle?: RedemptionStyle
+    ): Promise<MilestoneProgress[]> {
+        const milestoneBenefits = card.additionalBenefits?.find(b => b.categoryId === 'milestone_benefits');
+        if (!milestoneBenefits?.benefits?.length) {
+            return [];
+        }
+
+        const annualSpending = monthlySpending * 12;
+        const milestones: MilestoneProgress[] = [];
+        let pointValue: number | undefined;
+
+        for (const benefit of milestoneBenefits.benefits) {
+            if (benefit.isActive === false) continue;
+
+            const threshold = (benefit.conditions ?? [])
+                .map((condition: string) => this.parseMilestoneCondition(condition))
+                .find((parsed: { period: CappingPeriod; amount: number } | null) => parsed !== null);
+            if (!threshold) continue;
+
+            // Vouchers are seeded in INR; bonus points are converted at the card's point value
+            let valuePerOccurrence = Number(benefit.benefitValue) || 0;
+            if (benefit.benefitCurrency && benefit.benefitCurrency !== 'INR') {
+                pointValue ??= await this.getCardPointValue(card, redemptionStyle);
+                valuePerOccurrence *= pointValue;
+            }
+
+            const periodsPerYear = this.getPeriodsPerYear(threshold.period);
+            const projectedPeriodSpend = annualSpending / periodsPerYear;
+            const reached = projectedPeriodSpend >= threshold.amount;
+
+            milestones.push({
+                benefitName: benefit.benefitName ?? benefit.description ?? 'Milestone benefit',
+                period: threshold.period,
+                spendThreshold: threshold.amount,
+                projectedPeriodSpend,
+                occurrencesPerYear: reached ? periodsPerYear : 0,
+                valuePerOccurrence,
+                annualValue: reached ? valuePerOccurrence * periodsPerYear : 0,
+                reached,
+                shortfall: reached ? 0 : threshold.amount - projectedPeriodSpend
+            });
+        }
+
+        return milestones;
+    }
+
+    /**
+     * Parse milestone condition keys such as monthly_spend_80k, quarterly_spend_100k or annual_spend_500k
+     */
+    private parseMilestoneCondition(condition: string): { period: CappingPeriod; amount: number } | null {
+        const match = condition.match(/^(monthly|quarterly|annual|yearly)_spend_(\d+(?:\.\d+)?)(k|l|lakh)?$/);
+        if (!match) {
+            return null;
+        }
+
+        const multipliers: Record<string, number> = { k: 1000, l: 100000, lakh: 100000 };
+        const amount = Number(match[2]) * (match[3] ? multipliers[match[3]] : 1);
+
+        return { period: this.normalizeCappingPeriod(match[1]), amount };
+    }
+
+    private getPeriodsPerYear(period: CappingPeriod): number {
+        if (period === CappingPeriod.YEARLY) return 1;
+        if (period === CappingPeriod.QUARTERLY) return 4;
+        return 12;
+    }
+
+    /**
+     * The unreached milestone the user is closest to, relative to its threshold
+     */
+    private findNextMilestone(milestones: MilestoneProgress[]): MilestoneProgress | undefined {
+        return milestones
+            .filter(milestone => !milestone.reached)
+            .sort((a, b) => a.shortfall / a.spendThreshold - b.shortfall / b.spendThreshold)[0];
+    }
+
+    /**
+     * Pick the highest-matching accelerated reward that is applicable and whose conditions are met,
+     * falling back to lower-ranked rewards (e.g. the non-Prime rate) when a condition fails.
+     * Given a transaction, also skips rewards that filter it out, exclude it or need a larger amount.
+     */
+    private selectApplicableReward(
+        acceleratedRewards: any[],
+        pattern: SpendingPattern,
+        context: ConditionContext,
+        transaction?: PatternTransaction
+    ): RewardSelection {
+        const unmetConditions: UnmetRewardCondition[] = [];
+        const candidates = acceleratedRewards
+            .map(reward => ({ reward, matchScore: this.calculateRewardMatchScore(reward, pattern) }))
+            .filter(candidate => candidate.matchScore > 0)
+            .sort((a, b) => b.matchScore - a.matchScore);
+
+        for (const { reward } of candidates) {
+            if (!this.isRewardApplicable(reward, pattern)) {
+                continue;
+            }
+
+            const evaluation = rewardConditionsService.evaluateConditions(reward.conditions, context);
+            if (evaluation.allMet) {
+                // A single transaction the reward filters out or excludes may still earn under the next reward
+                if (transaction && (
+                    (evaluation.transactionFilter && !evaluation.transactionFilter(transaction))
+                    || (reward.minTransactionAmount && transaction.amount < Number(reward.minTransactionAmount))
+                    || this.findMatchingExclusion(reward.exclusions, transaction)
+                )) {
+                    continue;
+                }
+
+                return { reward, transactionFilter: evaluation.transactionFilter, unmetConditions };
+            }
+
+            unmetConditions.push(...this.toUnmetConditions(
+                pattern.categoryName,
+                reward.description ?? pattern.categoryName,
+                reward.rewardRate,
+                evaluation.unmetConditions
+            ));
+        }
+
+        return { reward: null, unmetConditions };
+    }
+
+    private toUnmetConditions(
+        categoryName: string,
+        rewardDescription: string,
+        rewardRate: number | undefined,
+        results: ConditionResult[]
+    ): UnmetRewardCondition[] {
+        return results.map(result => ({
+            categoryName,
+            rewardDescription,
+            rewardRate,
+            condition: result.condition,
+            description: result.description
+        }));
+    }
+
+    /**
+     * Tag a transaction as online/offline from its merchant name when the channel is unknown
+     */
+    private withChannel(transaction: PatternTransaction): PatternTransaction {
+        if (transaction.channel || !transaction.merchant) {
+            return transaction;
+        }
+
+        return {
+            ...transaction,
+            channel: this.isOnlineTransaction(transaction.merchant) ? 'online' : 'offline'
         };
     }
 
+    /**
+     * Months spanned by the patterns' transactions (at least one), measured the way
+     * billing cycles are, so one cycle straddling two calendar months counts once
+     */
+    private countStatementMonths(patterns: SpendingPattern[]): number {
+        const dates = patterns.flatMap(pattern =>
+            (pattern.transactions ?? []).map(transaction => new Date(transaction.date))
+        );
+
+        return billingCycleService.detect(null, dates)?.months ?? 1;
+    }
+
+    /**
+     * Map seeded capping periods (e.g. 'quarterly_per_merchant') onto the CappingPeriod enum
+     */
+    private normalizeCappingPeriod(period: string): CappingPeriod {
+        const normalized = period.toLowerCase();
+
+        if (normalized.startsWith(CappingPeriod.QUARTERLY)) return CappingPeriod.QUARTERLY;
+        if (normalized.startsWith(CappingPeriod.YEARLY) || normalized.startsWith('annual')) return CappingPeriod.YEARLY;
+
+        return CappingPeriod.MONTHLY;
+    }
+
+    /**
+     * Bucket a pattern's transactions into capping periods and enforce the cap in each bucket
+     */
+    private calculatePeriodEarnings(
+        pattern: SpendingPattern,
+        earnRate: number,
+        cappingLimit: number,
+        cappingPeriod: CappingPeriod,
+        billingCycleStartDay?: number
+    ): RawPeriodEarnings[] {
+        const transactions: PatternTransaction[] = pattern.transactions || [];
+        const buckets = new Map<string, RawPeriodEarnings>();
+
+        for (const transaction of transactions) {
+            const bounds = this.getCappingPeriodBounds(new Date(transaction.date), cappingPeriod, billingCycleStartDay);
+
+            if (!buckets.has(bounds.periodKey)) {
+                buckets.set(bounds.periodKey, {
+                    ...bounds,
+                    spentAmount: 0,
+                    uncappedRaw: 0,
+                    cappedRaw: 0
+                });
+            }
+
+            buckets.get(bounds.periodKey)!.spentAmount += transaction.amount;
+        }
+
+        return Array.from(buckets.values())
+            .map(bucket => {
+                const uncappedRaw = bucket.spentAmount * (earnRate / 100);
+                return {
+                    ...bucket,
+                    uncappedRaw,
+                    cappedRaw: Math.min(uncappedRaw, cappingLimit)
+                };
+            })
+            .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+    }
+
+    /**
+     * Resolve the calendar (or billing-cycle) period a transaction date falls into
+     */
+    private getCappingPeriodBounds(
+        date: Date,
+        cappingPeriod: CappingPeriod,
+        billingCycleStartDay?: number
+    ): { periodKey: string; periodStart: Date; periodEnd: Date } {
+        const startDay = billingCycleStartDay && billingCycleStartDay > 1
+            ? Math.min(billingCycleStartDay, 28)
+            : 1;
+
+        // A transaction before the cycle start day belongs to the cycle that began last month
+        let year = date.getUTCFullYear();
+        let month = date.getUTCMonth();
+        if (date.getUTCDate() < startDay) {
+            month -= 1;
+            if (month < 0) {
+                month = 11;
+                year -= 1;
+            }
+        }
+
+        let periodKey: string;
+        let startMonth: number;
+        let lengthInMonths: number;
+
+        if (cappingPeriod === CappingPeriod.YEARLY) {
+            periodKey = `${year}`;
+            startMonth = 0;
+            lengthInMonths = 12;
+        } else if (cappingPeriod === CappingPeriod.QUARTERLY) {
+            const quarter = Math.floor(month / 3);
+            periodKey = `${year}-Q${quarter + 1}`;
+            startMonth = quarter * 3;
+            lengthInMonths = 3;
+        } else {
+            periodKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+            startMonth = month;
+            lengthInMonths = 1;
+        }
+
+        const periodStart = new Date(Date.UTC(year, startMonth, startDay));
+        const nextPeriodStart = new Date(Date.UTC(year, startMonth + lengthInMonths, startDay));
+        const periodEnd = new Date(nextPeriodStart.getTime() - 24 * 60 * 60 * 1000);
+
+        return { periodKey, periodStart, periodEnd };
+    }
+
     /**
      * Find best matching accelerated reward for the new structure
      */
@@ -360,18 +1387,9 @@ export class SavingsCalculatorService {
     }
 
     /**
-     * Check if reward is applicable based on conditions and merchant patterns
+     * Check if reward is applicable based on merchant patterns (conditions are evaluated separately)
      */
     private isRewardApplicable(reward: any, pattern: SpendingPattern): boolean {
-        // Check conditions if they exist
-        if (reward.conditions && Array.isArray(reward.conditions) && reward.conditions.length > 0) {
-            // For now, assume all conditions are met
-            // This could be enhanced to check specific conditions like:
-            // - amazon_prime_membership
-            // - minimum_transaction_amount
-            // - specific_merchant_patterns
-        }
-
         // CRITICAL: For brand-specific rewards, merchant patterns must match
         if (reward.merchantPatterns && Array.isArray(reward.merchantPatterns) && reward.merchantPatterns.length > 0) {
             const merchantMatch = this.checkMerchantPatternMatch(reward.merchantPatterns, pattern);
@@ -505,7 +1523,7 @@ export class SavingsCalculatorService {
      * Calculate how many months needed to recover annual fee through extra cashback
      */
     private calculateFeeBreakevenSpending(
-        card: any,
+        card: EnhancedCreditCard,
         spendingPatterns: SpendingPattern[],
         annualFee: number,
         totalSpending: number
@@ -893,14 +1911,32 @@ export class SavingsCalculatorService {
     /**
      * Create empty savings analysis for edge cases
      */
-    private createEmptySavingsAnalysis(cardId: string, joiningFee: number, annualFee: number): CardSavingsAnalysis {
+    private createEmptySavingsAnalysis(card: EnhancedCreditCard, joiningFee: number, annualFee: number): CardSavingsAnalysis {
+        const feeWaiver = this.evaluateFeeWaiver(card, 0);
+
         return {
-            cardId,
+            cardId: card.id,
             statementPeriodEarnings: 0,
             categoryBreakdown: [],
             signupBonusValue: 0,
             joiningFee,
-            annualFee
+            annualFee,
+            feeWaiver,
+            effectiveAnnualFee: feeWaiver.waived ? 0 : annualFee,
+            unmetConditions: [],
+            milestoneValue: 0,
+            milestones: [],
+            feeAdjustments: [],
+            excludedSpend: [],
+            valueTimeline: this.buildValueTimeline(card, {
+                annualRewardEarnings: 0,
+                annualMilestoneValue: 0,
+                signupBonusValue: 0,
+                joiningFee,
+                annualFee,
+                feeWaiver,
+                monthlySpending: 0
+            })
         };
     }
 
@@ -918,12 +1954,20 @@ export class SavingsCalculatorService {
      * Compare multiple cards and rank by earnings potential
      */
     async compareCards(
-        cards: any[],
+        cards: EnhancedCreditCard[],
         spendingPatterns: SpendingPattern[],
-        baselineCard?: any
+        baselineCard?: EnhancedCreditCard,
+        options: SavingsCalculationOptions = {}
     ): Promise<CardSavingsAnalysis[]> {
+        // Baseline is computed once and applied to every card
+        const baseline = baselineCard
+            ? await this.calculateGrossSavings(baselineCard, spendingPatterns, options)
+            : undefined;
         const analyses = await Promise.all(
-            cards.map(card => this.calculateCardSavings(card, spendingPatterns, baselineCard))
+            cards.map(async card => {
+                const analysis = await this.calculateGrossSavings(card, spendingPatterns, options);
+                return baseline && card.id !== baseline.cardId ? this.applyBaseline(analysis, baseline) : analysis;
+            })
         );
 
         // Sort by statement period earnings
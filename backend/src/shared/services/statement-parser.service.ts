@@ -0,0 +1,435 @@
+/**
+ * Statement Parser Service
+ * Deterministic, rule-based parsers for known issuer statement layouts. Extraction tries
+ * these first and only falls back to the AI model when no template recognises the
+ * statement or the best template isn't confident in what it parsed
+ */
+
+import { CardIssuer } from '@/shared/constants/recommendation.constants';
+import { logger } from '@/shared/utils/logger.util';
+import { billingCycleService } from './billing-cycle.service';
+import type {
+    StatementBalanceSummary,
+    StatementRewardsSummary,
+    Transaction,
+    TransactionExtractionResult
+} from './gemini-ai.service';
+
+export interface StatementParser {
+    readonly issuer: CardIssuer;
+    readonly name: string;
+    /** How sure the parser is that the text uses its layout (0-1) */
+    detect(text: string): number;
+    parse(text: string): TransactionExtractionResult;
+}
+
+export interface StatementParserMatch {
+    parser: StatementParser;
+    detectionConfidence: number;
+    result: TransactionExtractionResult;
+}
+
+interface StatementTemplate {
+    issuer: CardIssuer;
+    name: string;
+    issuerPattern: RegExp; // Must appear for the template to apply at all
+    layoutMarkers: RegExp[]; // Headings specific to the issuer's statement layout
+    datePattern: string; // Date at the start of a transaction row
+    rowPrefix?: string; // Columns between the date and the description (time, reference number)
+    pointsColumn?: boolean; // Reward points printed just before the amount
+    markerPattern: string; // Debit/credit marker after the amount; credits start with "C"
+    yearlessDates?: boolean; // Rows print only day and month; the year comes from the statement period
+}
+
+// Indian digit grouping (1,23,456.78) as well as plain amounts
+const AMOUNT_PATTERN = String.raw`(?:\d{1,3}(?:,\d{2,3})+|\d+)\.\d{2}`;
+const NUMERIC_DATE = String.raw`\d{2}/\d{2}/\d{4}`;
+const TIME_PREFIX = String.raw`(?:\s*\|)?(?:\s*\d{2}:\d{2}(?::\d{2})?)?`;
+const FULL_DATE = /[A-Za-z]{3,9}\s+\d{1,2},?\s+\d{4}|\d{2}\/\d{2}\/\d{4}/g;
+
+const TEMPLATE_ROW_CONFIDENCE = 0.9;
+const MIN_DETECTION_CONFIDENCE = 0.5;
+const ISSUER_MATCH_CONFIDENCE = 0.5; // Issuer found but none of its layout markers
+const FULL_CONFIDENCE_ROW_COUNT = 3; // Fewer rows than this is too little to trust a layout match
+
+const PAYMENT_PATTERN = /payment|thank\s*you|received|autopay|auto\s*debit|neft|imps|upi/i;
+const INTEREST_PATTERN = /finance\s+charge|interest/i;
+const FEE_PATTERN = /\bfees?\b|charges?\b|\bgst\b|\bigst\b|surcharge|mark\s*up/i;
+
+// A summary printed as a header row names at least this many figures
+const MIN_SUMMARY_HEADER_LABELS = 3;
+
+// Rewards summary headings, and the labels of each figure within it
+const REWARDS_HEADING = /reward\s*points?|membership\s+rewards|edge\s+rewards?|rewards?\s+summary/i;
+const REWARDS_WINDOW_LENGTH = 600;
+const REWARDS_LABELS: [keyof StatementRewardsSummary, RegExp][] = [
+    ['openingPoints', /opening(?:\s+balance)?/i],
+    ['pointsEarned', /(?:points\s+)?earned|accrued/i],
+    ['pointsRedeemed', /redeemed/i],
+    ['closingPoints', /closing(?:\s+balance)?|available\s+(?:points|balance)/i]
+];
+const CASHBACK_PATTERN = /cashback\s+(?:credited|earned)[^\d\n]{0,30}([\d,]+(?:\.\d{1,2})?)/i;
+
+// Account summary headings, and the labels of each amount within it. Finance charges
+// printed in a column of their own count towards the debits, as their rows do.
+const BALANCE_HEADING = /account\s+summary|statement\s+summary|payment\s+summary|card\s+summary/i;
+const BALANCE_WINDOW_LENGTH = 600;
+const BALANCE_LABELS: [keyof StatementBalanceSummary, RegExp][] = [
+    ['previousBalance', /previous\s+(?:statement\s+)?balance|opening\s+balance|last\s+statement\s+balance/i],
+    ['totalCredits', /payments?\s*(?:\/|&|and)?\s*(?:other\s+)?credits?|total\s+credits?/i],
+    ['totalDebits', /purchases?\s*(?:\/|&|and)?\s*(?:other\s+)?(?:debits?|charges)|total\s+debits?/i],
+    ['totalDebits', /finance\s+charges?/i],
+    ['closingBalance', /total\s+(?:amount\s+)?dues?|closing\s+balance|total\s+outstanding/i]
+];
+// An amount with its optional "Cr"/"Dr" marker; a balance marked "Cr" is in credit
+const BALANCE_AMOUNT = new RegExp(`(${AMOUNT_PATTERN})(?:\\s*(Cr|Dr)\\b)?`, 'gi');
+
+/**
+ * A statement layout described by its issuer markers and the shape of a transaction row
+ */
+export class TemplateStatementParser implements StatementParser {
+    readonly issuer: CardIssuer;
+    readonly name: string;
+    private readonly rowStart: RegExp;
+    private readonly row: RegExp;
+
+    constructor(private readonly template: StatementTemplate) {
+        this.issuer = template.issuer;
+        this.name = template.name;
+        this.rowStart = new RegExp(`^${template.datePattern}`, 'i');
+        this.row = new RegExp(
+            `^(${template.datePattern})${template.rowPrefix ?? ''}\\s*(.+?)` +
+            `${template.pointsColumn ? String.raw`(?:\s+-?\d{1,5})?` : ''}` +
+            `\\s*(${AMOUNT_PATTERN})\\s*(${template.markerPattern})?$`,
+            'i'
+        );
+    }
+
+    detect(text: string): number {
+        if (!this.template.issuerPattern.test(text)) {
+            return 0;
+        }
+
+        const markersFound = this.template.layoutMarkers.filter(marker => marker.test(text)).length;
+        return ISSUER_MATCH_CONFIDENCE +
+            (1 - ISSUER_MATCH_CONFIDENCE) * (markersFound / this.template.layoutMarkers.length);
+    }
+
+    parse(text: string): TransactionExtractionResult {
+        const warnings: string[] = [];
+        const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+        const candidateLines = lines.filter(line => this.rowStart.test(line));
+
+        const statementEnd = this.template.yearlessDates ? this.getStatementEnd(text) : undefined;
+        if (this.template.yearlessDates && !statementEnd) {
+            warnings.push('Statement period not found; rows without a year could not be dated');
+        }
+
+        const transactions: Transaction[] = [];
+        for (const line of candidateLines) {
+            const transaction = this.parseRow(line, statementEnd);
+            if (transaction) {
+                transactions.push(transaction);
+            }
+        }
+
+        const unparsed = candidateLines.length - transactions.length;
+        if (unparsed > 0) {
+            warnings.push(`${unparsed} dated line(s) did not match the ${this.name} row layout`);
+        }
+
+        // Coverage of the dated lines, scaled down when there are too few rows to judge the layout
+        const coverage = candidateLines.length > 0 ? transactions.length / candidateLines.length : 0;
+        const rowsFactor = Math.min(1, transactions.length / FULL_CONFIDENCE_ROW_COUNT);
+        const confidence = Math.round(this.detect(text) * coverage * rowsFactor * 100) / 100;
+
+        return {
+            transactions,
+            totalFound: transactions.length,
+            confidence,
+            rewardsSummary: this.parseRewardsSummary(text),
+            balanceSummary: this.parseBalanceSummary(text),
+            processingNotes: `Parsed with the ${this.name} template`,
+            warnings
+        };
+    }
+
+    private parseRow(line: string, statementEnd?: Date): Transaction | null {
+        const match = this.row.exec(line);
+        if (!match) {
+            return null;
+        }
+
+        const [, rawDate, rawDescription, rawAmount, marker] = match;
+        const date = this.parseRowDate(rawDate, statementEnd);
+        const description = rawDescription.replace(/\s+/g, ' ').trim();
+        const amount = Number(rawAmount.replace(/,/g, ''));
+
+        if (!date || description.length < 2 || !isFinite(amount) || amount === 0) {
+            return null;
+        }
+
+        const isCredit = /^c/i.test(marker ?? '');
+
+        return {
+            date,
+            description,
+            merchant: this.cleanMerchant(description),
+            amount: isCredit ? -amount : amount,
+            type: this.getTransactionType(description, isCredit),
+            confidence: TEMPLATE_ROW_CONFIDENCE
+        };
+    }
+
+    private parseRowDate(value: string, statementEnd?: Date): string | undefined {
+        let date: Date | undefined;
+
+        if (this.template.yearlessDates) {
+            if (!statementEnd) return undefined;
+
+            // Rows from the month(s) before a January statement belong to the previous year
+            date = billingCycleService.parseDate(`${value} ${statementEnd.getUTCFullYear()}`);
+            if (date && date.getTime() > statementEnd.getTime()) {
+                date = billingCycleService.parseDate(`${value} ${statementEnd.getUTCFullYear() - 1}`);
+            }
+        } else {
+            date = billingCycleService.parseDate(value);
+        }
+
+        return date?.toISOString().slice(0, 10);
+    }
+
+    private getStatementEnd(text: string): Date | undefined {
+        const dates = billingCycleService.parseStatementDates(text);
+        if (dates.periodEnd ?? dates.statementDate) {
+            return dates.periodEnd ?? dates.statementDate;
+        }
+
+        // Otherwise the latest full date printed anywhere on the statement
+        return (text.match(FULL_DATE) ?? [])
+            .map(value => billingCycleService.parseDate(value))
+            .filter((date): date is Date => Boolean(date))
+            .sort((a, b) => b.getTime() - a.getTime())[0];
+    }
+
+    private getTransactionType(description: string, isCredit: boolean): Transaction['type'] {
+        if (isCredit) {
+            return PAYMENT_PATTERN.test(description) ? 'payment' : 'credit';
+        }
+        if (INTEREST_PATTERN.test(description)) return 'interest';
+        if (FEE_PATTERN.test(description)) return 'fee';
+        return 'debit';
+    }
+
+    /**
+     * Drop reference numbers and the trailing country code from a row description
+     */
+    private cleanMerchant(description: string): string {
+        const merchant = description
+            .replace(/\b\d{6,}\b/g, ' ')
+            .replace(/\s+(?:IN|IND|INDIA)$/i, '')
+            .replace(/[\s,.-]+$/, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+
+        return merchant.length >= 2 ? merchant : description;
+    }
+
+    /**
+     * Read the rewards summary, either as label/value pairs or as a header row of
+     * labels followed by a row of values
+     */
+    private parseRewardsSummary(text: string): StatementRewardsSummary | undefined {
+        const summary: StatementRewardsSummary = {};
+
+        const heading = REWARDS_HEADING.exec(text);
+        if (heading) {
+            const window = text.slice(heading.index, heading.index + REWARDS_WINDOW_LENGTH);
+            const lines = window.split('\n');
+
+            for (let i = 0; i < lines.length - 1; i++) {
+                const labels = REWARDS_LABELS
+                    .map(([field, label]) => ({ field, index: lines[i].search(label) }))
+                    .filter(({ index }) => index >= 0)
+                    .sort((a, b) => a.index - b.index);
+                const values = lines[i + 1].match(/[\d,]+(?:\.\d+)?/g) ?? [];
+
+                if (labels.length >= MIN_SUMMARY_HEADER_LABELS && values.length === labels.length && !/\d/.test(lines[i])) {
+                    labels.forEach(({ field }, index) => {
+                        summary[field] = Number(values[index].replace(/,/g, ''));
+                    });
+                    break;
+                }
+            }
+
+            if (Object.keys(summary).length === 0) {
+                for (const [field, label] of REWARDS_LABELS) {
+                    const value = new RegExp(`(?:${label.source})[^\\d\\n]{0,40}([\\d,]+(?:\\.\\d+)?)`, 'i').exec(window);
+                    if (value) {
+                        summary[field] = Number(value[1].replace(/,/g, ''));
+                    }
+                }
+            }
+        }
+
+        const cashback = CASHBACK_PATTERN.exec(text);
+        if (cashback) {
+            summary.cashbackCredited = Number(cashback[1].replace(/,/g, ''));
+        }
+
+        return Object.keys(summary).length > 0 ? summary : undefined;
+    }
+
+    /**
+     * Read the account summary, either as a header row of labels followed by a
+     * row of amounts or as label/amount pairs
+     */
+    private parseBalanceSummary(text: string): StatementBalanceSummary | undefined {
+        const heading = BALANCE_HEADING.exec(text);
+        if (!heading) {
+            return undefined;
+        }
+
+        const summary: StatementBalanceSummary = {};
+        const add = (field: keyof StatementBalanceSummary, [, amount, marker]: RegExpMatchArray) => {
+            const value = Number(amount.replace(/,/g, ''));
+            const isCredit = /^c/i.test(marker ?? '');
+            // Totals are always positive; only balances can be in credit
+            const signed = isCredit && (field === 'previousBalance' || field === 'closingBalance') ? -value : value;
+            summary[field] = this.round((summary[field] ?? 0) + signed);
+        };
+
+        const window = text.slice(heading.index, heading.index + BALANCE_WINDOW_LENGTH);
+        const lines = window.split('\n');
+
+        for (let i = 0; i < lines.length - 1; i++) {
+            const labels = BALANCE_LABELS
+                .map(([field, label]) => ({ field, index: lines[i].search(label) }))
+                .filter(({ index }) => index >= 0)
+                .sort((a, b) => a.index - b.index);
+            const values = [...lines[i + 1].matchAll(BALANCE_AMOUNT)];
+
+            if (labels.length >= MIN_SUMMARY_HEADER_LABELS && values.length === labels.length && !/\d/.test(lines[i])) {
+                labels.forEach(({ field }, index) => add(field, values[index]));
+                break;
+            }
+        }
+
+        if (Object.keys(summary).length === 0) {
+            for (const [field, label] of BALANCE_LABELS) {
+                const value = new RegExp(`(?:${label.source})[^\\d\\n]{0,40}${BALANCE_AMOUNT.source}`, 'i').exec(window);
+                if (value) {
+                    add(field, value);
+                }
+            }
+        }
+
+        return Object.keys(summary).length > 0 ? summary : undefined;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+export class StatementParserService {
+    private parsers: StatementParser[] = [];
+
+    /**
+     * Add a parser to the registry
+     */
+    register(parser: StatementParser): void {
+        this.parsers.push(parser);
+    }
+
+    getParsers(): StatementParser[] {
+        return [...this.parsers];
+    }
+
+    /**
+     * Parse the statement with the template that recognises it and parses it best.
+     * Returns null when no template recognises the layout.
+     */
+    parse(text: string, issuerHint?: string): StatementParserMatch | null {
+        const hint = issuerHint?.toLowerCase();
+        const candidates = this.parsers
+            .filter(parser => !hint || parser.issuer === hint)
+            .map(parser => ({ parser, detectionConfidence: parser.detect(text) }))
+            .filter(({ detectionConfidence }) => detectionConfidence >= MIN_DETECTION_CONFIDENCE);
+
+        let best: StatementParserMatch | null = null;
+        for (const candidate of candidates) {
+            try {
+                const result = candidate.parser.parse(text);
+                if (!best || result.confidence > best.result.confidence) {
+                    best = { ...candidate, result };
+                }
+            } catch (error) {
+                logger.warn('Statement template failed to parse', { parser: candidate.parser.name, error });
+            }
+        }
+
+        if (best) {
+            logger.info('Statement template matched', {
+                parser: best.parser.name,
+                detectionConfidence: best.detectionConfidence,
+                confidence: best.result.confidence,
+                transactionsFound: best.result.totalFound
+            });
+        }
+
+        return best;
+    }
+}
+
+// Export singleton instance, with a template for each supported issuer
+export const statementParserService = new StatementParserService();
+
+statementParserService.register(new TemplateStatementParser({
+    issuer: CardIssuer.HDFC,
+    name: 'HDFC Bank',
+    issuerPattern: /HDFC\s*Bank/i,
+    layoutMarkers: [/Domestic\s+Transactions/i, /International\s+Transactions/i, /Transaction\s+Description/i, /Reward\s+Points/i],
+    datePattern: NUMERIC_DATE,
+    rowPrefix: TIME_PREFIX,
+    markerPattern: 'Cr'
+}));
+
+statementParserService.register(new TemplateStatementParser({
+    issuer: CardIssuer.ICICI,
+    name: 'ICICI Bank',
+    issuerPattern: /ICICI\s*Bank/i,
+    layoutMarkers: [/Ser\.?\s*No/i, /Transaction\s+Details/i, /Reward\s+Points/i, /Intl\.?\s*#?\s*amount/i],
+    datePattern: NUMERIC_DATE,
+    rowPrefix: String.raw`(?:\s+\d{8,12})?`,
+    pointsColumn: true,
+    markerPattern: 'CR'
+}));
+
+statementParserService.register(new TemplateStatementParser({
+    issuer: CardIssuer.AXIS,
+    name: 'Axis Bank',
+    issuerPattern: /Axis\s*Bank/i,
+    layoutMarkers: [/Transaction\s+Details/i, /Merchant\s+Category/i, /EDGE\s+Rewards?/i, /Card\s+Summary/i],
+    datePattern: NUMERIC_DATE,
+    markerPattern: 'Dr|Cr'
+}));
+
+statementParserService.register(new TemplateStatementParser({
+    issuer: CardIssuer.SBI,
+    name: 'SBI Card',
+    issuerPattern: /SBI\s*Card/i,
+    layoutMarkers: [/Transactions\s+for/i, /Reward\s+(?:Points\s+)?Summary/i, /Account\s+Summary/i],
+    datePattern: String.raw`\d{2}\s+[A-Za-z]{3}\s+\d{2}`,
+    markerPattern: '[CD]'
+}));
+
+statementParserService.register(new TemplateStatementParser({
+    issuer: CardIssuer.AMEX,
+    name: 'American Express',
+    issuerPattern: /American\s*Express/i,
+    layoutMarkers: [/Card\s*Member/i, /Details\s+of\s+transactions|Transaction\s+details/i, /Membership\s+Rewards/i],
+    datePattern: String.raw`(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]{0,6}\s+\d{1,2}`,
+    markerPattern: 'CR',
+    yearlessDates: true
+}));
@@ -1,17 +1,28 @@
 import {
-    // ParsedPDFResult,
+    ParsedPDFResult,
     pdfParserService,
     PDFParsingStats,
 } from './pdf-parser.service';
 import {
     geminiAIService,
+    StatementBalanceSummary,
+    StatementRewardsSummary,
     Transaction,
-    // TransactionExtractionResult,
+    TransactionExtractionResult,
 } from './gemini-ai.service';
+import { BillingCycle, billingCycleService } from './billing-cycle.service';
+import { CardDetection, cardDetectionService } from './card-detection.service';
+import { statementParserService } from './statement-parser.service';
+import { llmProviderService } from './llm-provider.service';
+import {
+    BalanceReconciliation,
+    balanceReconciliationService,
+} from './balance-reconciliation.service';
 import { prisma } from '@/database/db';
 import { logger } from '@/shared/utils/logger.util';
 import { ApiError } from '@/shared/utils/api-error.util';
 import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { env } from '@/shared/config/env.config';
 
 /**
  * Transaction Extraction Service
@@ -21,18 +32,36 @@ import { StatusCodes } from '@/shared/constants/http-status.constants';
 export interface ExtractionContext {
     sessionId: string;
     sessionToken: string;
+    statementId?: string; // Statement row this file belongs to, for multi-statement sessions
+    jobId?: string; // Processing job doing the extraction, for AI usage accounting
     filePath: string;
     fileName: string;
     fileSize: number;
+    password?: string; // For password-protected statements; only ever held in memory
     issuer?: string;
     expectedTransactionCount?: number;
 }
 
+// Which parser produced the transactions: an issuer template, or the AI model
+export interface ExtractionParser {
+    type: 'template' | 'ai';
+    name: string;
+    issuer?: string;
+    confidence: number;
+    fallbackReason?: string; // Why the AI model was used instead of a template
+}
+
 export interface ExtractionResult {
     success: boolean;
+    parser: ExtractionParser;
     transactions: Transaction[];
     totalExtracted: number;
     pdfStats: PDFParsingStats;
+    billingCycle: BillingCycle | null;
+    cardDetection: CardDetection | null;
+    rewardsSummary: StatementRewardsSummary | null;
+    cardVariant: string | null;
+    reconciliation: BalanceReconciliation;
     extractionStats: {
         confidence: number;
         processingTime: number;
@@ -49,6 +78,24 @@ export interface ExtractionResult {
     };
 }
 
+// A run of whole pages sent to the AI model in one prompt
+interface ExtractionChunk {
+    text: string;
+    firstPage: number;
+    lastPage: number;
+}
+
+// The card and billing period a statement covers, for matching duplicates across statements
+interface StatementPeriod {
+    cardKey: string;
+    start: Date;
+    end: Date;
+}
+
+// Lines of the previous chunk repeated at the start of the next, so a row split
+// across the boundary is complete in at least one chunk
+const CHUNK_OVERLAP_LINES = 5;
+
 export interface ExtractionProgress {
     step: string;
     progress: number; // 0-100
@@ -80,7 +127,10 @@ export class TransactionExtractionService {
                 message: 'Parsing PDF file and extracting text',
             });
 
-            const pdfResult = await pdfParserService.parsePDF(context.filePath);
+            const pdfResult = await pdfParserService.parsePDF(
+                context.filePath,
+                context.password,
+            );
             const pdfStats = pdfParserService.analyzePDFContent(pdfResult);
 
             await this.reportProgress(onProgress, {
@@ -102,27 +152,53 @@ export class TransactionExtractionService {
 
             const cleanedText = pdfParserService.cleanTextForAI(pdfResult.text);
 
-            // Step 3: Extract transactions with AI (60% progress)
+            // Step 3: Extract transactions with the issuer's template, falling back
+            // to AI when no template recognises the statement (60% progress)
+            const templateMatch = statementParserService.parse(
+                cleanedText,
+                context.issuer,
+            );
+            const useTemplate =
+                templateMatch !== null &&
+                templateMatch.result.confidence >=
+                    env.STATEMENT_PARSER_MIN_CONFIDENCE;
+
             await this.reportProgress(onProgress, {
-                step: 'ai_extraction',
+                step: useTemplate ? 'template_extraction' : 'ai_extraction',
                 progress: 40,
-                message: 'Analyzing text with AI to extract transactions',
+                message: useTemplate
+                    ? `Reading transactions using the ${templateMatch.parser.name} statement layout`
+                    : 'Analyzing text with AI to extract transactions',
             });
 
-            const aiResult = await geminiAIService.extractTransactions(cleanedText, {
-                fileName: context.fileName,
-                fileSize: context.fileSize,
-                issuer: context.issuer,
-                expectedTransactionCount: context.expectedTransactionCount,
-            });
+            const parsedResult = useTemplate
+                ? templateMatch.result
+                : await this.extractWithAI(pdfResult, cleanedText, context, onProgress);
+
+            const parser: ExtractionParser = useTemplate
+                ? {
+                    type: 'template',
+                    name: templateMatch.parser.name,
+                    issuer: templateMatch.parser.issuer,
+                    confidence: parsedResult.confidence,
+                }
+                : {
+                    type: 'ai',
+                    name: llmProviderService.getProvider('extraction').model,
+                    confidence: parsedResult.confidence,
+                    fallbackReason: templateMatch
+                        ? `${templateMatch.parser.name} template confidence ${templateMatch.result.confidence} below ${env.STATEMENT_PARSER_MIN_CONFIDENCE}`
+                        : 'No issuer template matched the statement',
+                };
 
             await this.reportProgress(onProgress, {
-                step: 'ai_completed',
+                step: useTemplate ? 'template_completed' : 'ai_completed',
                 progress: 60,
-                message: `AI extraction completed - found ${aiResult.totalFound} transactions`,
+                message: `${useTemplate ? 'Template' : 'AI'} extraction completed - found ${parsedResult.totalFound} transactions`,
                 details: {
-                    transactionsFound: aiResult.totalFound,
-                    confidence: aiResult.confidence,
+                    transactionsFound: parsedResult.totalFound,
+                    confidence: parsedResult.confidence,
+                    parser: parser.name,
                 },
             });
 
@@ -134,10 +210,10 @@ export class TransactionExtractionService {
             });
 
             const validation = geminiAIService.validateTransactionData(
-                aiResult.transactions,
+                parsedResult.transactions,
             );
             const cleanedTransactions = this.cleanAndValidateTransactions(
-                aiResult.transactions,
+                parsedResult.transactions,
             );
 
             // Step 5: Store transactions in database (90% progress)
@@ -147,7 +223,59 @@ export class TransactionExtractionService {
                 message: 'Storing transactions in database',
             });
 
-            await this.storeTransactions(context.sessionId, cleanedTransactions);
+            // Which card the statement belongs to, so its transactions carry the attribution
+            const cardDetection = context.statementId
+                ? await cardDetectionService.detectAndStore(
+                    context.statementId,
+                    pdfResult.text,
+                    parsedResult.cardVariant,
+                )
+                : null;
+
+            // The issuer's own rewards figures are the baseline for current earnings
+            if (context.statementId) {
+                await this.storeRewardsSummary(
+                    context.statementId,
+                    parsedResult.rewardsSummary,
+                    parsedResult.cardVariant,
+                );
+            }
+
+            await this.storeTransactions(
+                context.sessionId,
+                cleanedTransactions,
+                context.statementId,
+                cardDetection?.cardId,
+            );
+
+            // Check the extracted amounts add up to the statement's own totals
+            await this.reportProgress(onProgress, {
+                step: 'reconciling_balances',
+                progress: 85,
+                message: 'Reconciling transactions against statement totals',
+            });
+
+            const reconciliation = context.statementId
+                ? await balanceReconciliationService.reconcileAndStore(
+                    context.sessionId,
+                    context.statementId,
+                    cleanedTransactions,
+                    parsedResult.balanceSummary,
+                )
+                : balanceReconciliationService.reconcile(
+                    cleanedTransactions,
+                    parsedResult.balanceSummary,
+                );
+
+            // Statement period from the statement text, or the transaction date range
+            const billingCycle = await billingCycleService.detectAndStore(
+                context.sessionId,
+                context.statementId,
+                pdfResult.text,
+                cleanedTransactions
+                    .filter((t) => t.amount > 0)
+                    .map((t) => new Date(t.date)),
+            );
 
             // Step 6: Complete processing (100% progress)
             await this.reportProgress(onProgress, {
@@ -160,16 +288,23 @@ export class TransactionExtractionService {
 
             const result: ExtractionResult = {
                 success: true,
+                parser,
                 transactions: cleanedTransactions,
                 totalExtracted: cleanedTransactions.length,
                 pdfStats,
+                billingCycle,
+                cardDetection,
+                rewardsSummary: parsedResult.rewardsSummary ?? null,
+                cardVariant: parsedResult.cardVariant ?? null,
+                reconciliation,
                 extractionStats: {
-                    confidence: aiResult.confidence,
+                    confidence: parsedResult.confidence,
                     processingTime,
                     validationIssues: validation.issues,
                     warnings: [
-                        ...(aiResult.warnings || []),
+                        ...(parsedResult.warnings || []),
                         ...(validation.suggestions || []),
+                        ...reconciliation.warnings,
                     ],
                 },
                 metadata: {
@@ -186,6 +321,8 @@ export class TransactionExtractionService {
                 transactionsExtracted: result.totalExtracted,
                 processingTimeMs: processingTime,
                 confidence: result.extractionStats.confidence,
+                parser: parser.name,
+                parserType: parser.type,
             });
 
             return result;
@@ -297,6 +434,139 @@ export class TransactionExtractionService {
         return this.extractTransactionsFromPDF(context);
     }
 
+    /**
+     * Remove transactions that appear on more than one statement of the same card
+     * (overlapping billing periods). For each date/amount/description the statement with
+     * the most occurrences keeps its rows, so genuine repeats within a statement survive.
+     * Statements of different cards never share rows: the same charge on two cards is two charges.
+     */
+    async deduplicateStatements(sessionId: string): Promise<number> {
+        const [statements, transactions] = await Promise.all([
+            prisma.statement.findMany({
+                where: { sessionId },
+                select: {
+                    id: true,
+                    issuerId: true,
+                    cardId: true,
+                    billingPeriodStart: true,
+                    billingPeriodEnd: true,
+                },
+            }),
+            prisma.transaction.findMany({
+                where: { sessionId, statementId: { not: null } },
+                select: {
+                    id: true,
+                    statementId: true,
+                    date: true,
+                    amount: true,
+                    description: true,
+                },
+            }),
+        ]);
+
+        const periods = this.getStatementPeriods(statements, transactions);
+
+        // key -> statementId -> transaction ids
+        const occurrences = new Map<string, Map<string, string[]>>();
+        for (const t of transactions) {
+            const key = this.getDuplicateKey(t);
+            const byStatement = occurrences.get(key) ?? new Map<string, string[]>();
+            const ids = byStatement.get(t.statementId!) ?? [];
+            ids.push(t.id);
+            byStatement.set(t.statementId!, ids);
+            occurrences.set(key, byStatement);
+        }
+
+        const duplicateIds: string[] = [];
+        const duplicatesByStatement = new Map<string, number>();
+        occurrences.forEach((byStatement) => {
+            if (byStatement.size < 2) return;
+
+            // A statement loses its rows only to a kept statement it overlaps with
+            const keepers: string[] = [];
+            Array.from(byStatement.entries())
+                .sort((a, b) => b[1].length - a[1].length)
+                .forEach(([statementId, ids]) => {
+                    const overlapping = keepers.some((keeper) =>
+                        this.statementsOverlap(periods.get(keeper), periods.get(statementId)),
+                    );
+                    if (!overlapping) {
+                        keepers.push(statementId);
+                        return;
+                    }
+
+                    duplicateIds.push(...ids);
+                    duplicatesByStatement.set(
+                        statementId,
+                        (duplicatesByStatement.get(statementId) ?? 0) + ids.length,
+                    );
+                });
+        });
+
+        if (duplicateIds.length === 0) return 0;
+
+        await prisma.transaction.deleteMany({
+            where: { id: { in: duplicateIds } },
+        });
+        await Promise.all(
+            Array.from(duplicatesByStatement.entries()).map(([statementId, count]) =>
+                prisma.statement.update({
+                    where: { id: statementId },
+                    data: { duplicateCount: count },
+                }),
+            ),
+        );
+
+        logger.info('Removed transactions duplicated across statements', {
+            sessionId,
+            duplicatesRemoved: duplicateIds.length,
+            statementsAffected: duplicatesByStatement.size,
+        });
+
+        return duplicateIds.length;
+    }
+
+    /**
+     * Card and billing period of each statement; the period falls back to the span of the
+     * statement's transactions when no billing cycle was stored
+     */
+    private getStatementPeriods(
+        statements: {
+            id: string;
+            issuerId: string | null;
+            cardId: string | null;
+            billingPeriodStart: Date | null;
+            billingPeriodEnd: Date | null;
+        }[],
+        transactions: { statementId: string | null; date: Date }[],
+    ): Map<string, StatementPeriod> {
+        const periods = new Map<string, StatementPeriod>();
+
+        for (const statement of statements) {
+            const dates = transactions
+                .filter((t) => t.statementId === statement.id)
+                .map((t) => t.date.getTime());
+            const start = statement.billingPeriodStart ?? (dates.length > 0 ? new Date(Math.min(...dates)) : null);
+            const end = statement.billingPeriodEnd ?? (dates.length > 0 ? new Date(Math.max(...dates)) : null);
+            if (!start || !end) continue;
+
+            periods.set(statement.id, {
+                // Statements whose card wasn't detected only match others of the same issuer
+                cardKey: statement.cardId ?? `unknown:${statement.issuerId ?? ''}`,
+                start,
+                end,
+            });
+        }
+
+        return periods;
+    }
+
+    private statementsOverlap(a?: StatementPeriod, b?: StatementPeriod): boolean {
+        if (!a || !b) return false;
+
+        return a.cardKey === b.cardKey && a.start <= b.end && b.start <= a.end;
+    }
+
     /**
      * Get extraction statistics for a session
      */
@@ -442,12 +712,33 @@ export class TransactionExtractionService {
             });
     }
 
+    /**
+     * Identity of a transaction for cross-statement deduplication
+     */
+    private getDuplicateKey(transaction: {
+        date: Date | string;
+        amount: unknown;
+        description: string;
+    }): string {
+        const text = transaction.description
+            .toLowerCase()
+            .replace(/[^a-z0-9]/g, '');
+
+        return [
+            new Date(transaction.date).toISOString().split('T')[0],
+            Number(transaction.amount).toFixed(2),
+            text,
+        ].join('|');
+    }
+
     /**
      * Store transactions in database
      */
     private async storeTransactions(
         sessionId: string,
         transactions: Transaction[],
+        statementId?: string,
+        sourceCardId?: string,
     ): Promise<void> {
         if (transactions.length === 0) {
             logger.warn('No transactions to store', { sessionId });
@@ -455,15 +746,17 @@ export class TransactionExtractionService {
         }
 
         try {
-            // Delete existing transactions for this session (in case of re-extraction)
+            // Delete existing transactions for this statement or session (in case of re-extraction)
             await prisma.transaction.deleteMany({
-                where: { sessionId },
+                where: statementId ? { statementId } : { sessionId },
             });
 
             // Insert new transactions
             await prisma.transaction.createMany({
                 data: transactions.map((t) => ({
                     sessionId,
+                    statementId,
+                    sourceCardId,
                     date: new Date(t.date),
                     description: t.description,
                     merchant: t.merchant,
@@ -491,6 +784,251 @@ export class TransactionExtractionService {
         }
     }
 
+    /**
+     * Extract transactions with AI. Long statements are split into chunks of whole
+     * pages, extracted in parallel and merged, so none outgrow the model's limits.
+     */
+    private async extractWithAI(
+        pdfResult: ParsedPDFResult,
+        cleanedText: string,
+        context: ExtractionContext,
+        onProgress?: (progress: ExtractionProgress) => Promise<void>,
+    ): Promise<TransactionExtractionResult> {
+        const chunks = this.buildChunks(
+            pdfParserService
+                .extractPages(pdfResult)
+                .map((page) => pdfParserService.cleanTextForAI(page)),
+        );
+
+        if (chunks.length <= 1) {
+            return geminiAIService.extractTransactions(cleanedText, {
+                fileName: context.fileName,
+                fileSize: context.fileSize,
+                issuer: context.issuer,
+                expectedTransactionCount: context.expectedTransactionCount,
+                usageContext: { sessionId: context.sessionId, jobId: context.jobId },
+            });
+        }
+
+        logger.info('Extracting long statement in chunks', {
+            sessionId: context.sessionId,
+            fileName: context.fileName,
+            pages: pdfResult.pages,
+            chunks: chunks.length,
+        });
+
+        let completedChunks = 0;
+        const results = await this.mapWithConcurrency(
+            chunks,
+            env.EXTRACTION_CHUNK_CONCURRENCY,
+            async (chunk, index) => {
+                const result = await geminiAIService.extractTransactions(chunk.text, {
+                    fileName: `${context.fileName} (pages ${chunk.firstPage}-${chunk.lastPage})`,
+                    issuer: context.issuer,
+                    usageContext: { sessionId: context.sessionId, jobId: context.jobId },
+                });
+
+                completedChunks++;
+                await this.reportProgress(onProgress, {
+                    step: 'ai_extraction_chunk',
+                    progress: 40 + Math.round((completedChunks / chunks.length) * 20),
+                    message: `Extracted pages ${chunk.firstPage}-${chunk.lastPage} (${completedChunks} of ${chunks.length} chunks)`,
+                    details: {
+                        chunk: index + 1,
+                        totalChunks: chunks.length,
+                        firstPage: chunk.firstPage,
+                        lastPage: chunk.lastPage,
+                        transactionsFound: result.totalFound,
+                    },
+                });
+
+                return result;
+            },
+        );
+
+        return this.mergeChunkResults(chunks, results);
+    }
+
+    /**
+     * Group pages into chunks under the size limit. A page is only split when it is
+     * larger than a chunk on its own; each chunk after the first repeats the tail
+     * of the one before it.
+     */
+    private buildChunks(pages: string[]): ExtractionChunk[] {
+        const maxChars = env.EXTRACTION_CHUNK_MAX_CHARS;
+        const parts: { text: string; page: number }[] = [];
+
+        pages.forEach((page, index) => {
+            if (page.length <= maxChars) {
+                parts.push({ text: page, page: index + 1 });
+                return;
+            }
+
+            let part = '';
+            for (const line of page.split('\n')) {
+                if (part && part.length + line.length + 1 > maxChars) {
+                    parts.push({ text: part, page: index + 1 });
+                    part = '';
+                }
+                part = part ? `${part}\n${line}` : line;
+            }
+            if (part) parts.push({ text: part, page: index + 1 });
+        });
+
+        const chunks: ExtractionChunk[] = [];
+        for (const part of parts) {
+            const current = chunks[chunks.length - 1];
+            if (current && current.text.length + part.text.length + 2 <= maxChars) {
+                current.text = `${current.text}\n\n${part.text}`;
+                current.lastPage = part.page;
+            } else {
+                chunks.push({ text: part.text, firstPage: part.page, lastPage: part.page });
+            }
+        }
+
+        return chunks.map((chunk, index) => {
+            if (index === 0) return chunk;
+
+            const overlap = chunks[index - 1].text
+                .split('\n')
+                .filter((line) => line.trim().length > 0)
+                .slice(-CHUNK_OVERLAP_LINES)
+                .join('\n');
+            return { ...chunk, text: `${overlap}\n${chunk.text}` };
+        });
+    }
+
+    /**
+     * Merge chunk results in page order, dropping rows extracted twice because
+     * they sat in the overlap between two chunks
+     */
+    private mergeChunkResults(
+        chunks: ExtractionChunk[],
+        results: TransactionExtractionResult[],
+    ): TransactionExtractionResult {
+        const transactions: Transaction[] = [];
+        const warnings: string[] = [];
+        let boundaryDuplicates = 0;
+
+        results.forEach((result, index) => {
+            const chunk = chunks[index];
+            warnings.push(
+                ...(result.warnings ?? []).map(
+                    (warning) => `Pages ${chunk.firstPage}-${chunk.lastPage}: ${warning}`,
+                ),
+            );
+
+            // Only the previous chunk's last rows can reappear, at the start of this one
+            const previousTail = new Map<string, number>();
+            transactions.slice(-CHUNK_OVERLAP_LINES).forEach((t) => {
+                const key = this.getDuplicateKey(t);
+                previousTail.set(key, (previousTail.get(key) ?? 0) + 1);
+            });
+
+            result.transactions.forEach((t, position) => {
+                const key = this.getDuplicateKey(t);
+                const repeats = previousTail.get(key) ?? 0;
+                if (index > 0 && position < CHUNK_OVERLAP_LINES && repeats > 0) {
+                    previousTail.set(key, repeats - 1);
+                    boundaryDuplicates++;
+                    return;
+                }
+                transactions.push(t);
+            });
+        });
+
+        // Weight each chunk's confidence by the rows it contributed
+        const totalFound = results.reduce((sum, r) => sum + r.transactions.length, 0);
+        const confidence = totalFound > 0
+            ? results.reduce((sum, r) => sum + r.confidence * r.transactions.length, 0) / totalFound
+            : results.reduce((sum, r) => sum + r.confidence, 0) / results.length;
+
+        return {
+            transactions,
+            totalFound: transactions.length,
+            confidence,
+            rewardsSummary: results.find((r) => r.rewardsSummary)?.rewardsSummary,
+            cardVariant: results.find((r) => r.cardVariant)?.cardVariant,
+            balanceSummary: this.mergeBalanceSummaries(results),
+            processingNotes: `Extracted in ${chunks.length} chunks; ${boundaryDuplicates} duplicate(s) removed at chunk boundaries`,
+            warnings,
+        };
+    }
+
+    /**
+     * Combine the account summary across chunks: the previous balance usually sits on
+     * the first page and the totals on a later one, so take each figure where first found
+     */
+    private mergeBalanceSummaries(
+        results: TransactionExtractionResult[],
+    ): StatementBalanceSummary | undefined {
+        const merged: StatementBalanceSummary = {};
+        for (const summary of results.map((r) => r.balanceSummary)) {
+            for (const [field, value] of Object.entries(summary ?? {})) {
+                const key = field as keyof StatementBalanceSummary;
+                if (merged[key] === undefined && value !== undefined) {
+                    merged[key] = value;
+                }
+            }
+        }
+
+        return Object.keys(merged).length > 0 ? merged : undefined;
+    }
+
+    /**
+     * Run an async task over items with at most `limit` running at once, keeping result order
+     */
+    private async mapWithConcurrency<T, R>(
+        items: T[],
+        limit: number,
+        task: (item: T, index: number) => Promise<R>,
+    ): Promise<R[]> {
+        const results: R[] = new Array(items.length);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await task(items[index], index);
+            }
+        };
+
+        await Promise.all(
+            Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker),
+        );
+
+        return results;
+    }
+
+    /**
+     * Store the statement's printed rewards summary and card variant
+     */
+    private async storeRewardsSummary(
+        statementId: string,
+        summary: StatementRewardsSummary | undefined,
+        cardVariant: string | undefined,
+    ): Promise<void> {
+        await prisma.statement.update({
+            where: { id: statementId },
+            data: {
+                cardVariant: cardVariant ?? null,
+                rewardsOpeningPoints: summary?.openingPoints ?? null,
+                rewardsPointsEarned: summary?.pointsEarned ?? null,
+                rewardsPointsRedeemed: summary?.pointsRedeemed ?? null,
+                rewardsClosingPoints: summary?.closingPoints ?? null,
+                cashbackCredited: summary?.cashbackCredited ?? null,
+            },
+        });
+
+        if (summary) {
+            logger.info('Statement rewards summary captured', {
+                statementId,
+                cardVariant,
+                ...summary,
+            });
+        }
+    }
+
     /**
      * Report progress to callback
      */
@@ -2,7 +2,15 @@
  * Comprehensive Type Definitions for Recommendation System
  */
 
-import { CreditScore, CardNetwork, CardIssuer, RewardCurrency } from '../constants/recommendation.constants';
+import {
+    CreditScore,
+    CardNetwork,
+    CardIssuer,
+    RewardCurrency,
+    CappingPeriod,
+    RedemptionStyle,
+    RedemptionType
+} from '../constants/recommendation.constants';
 
 // ==================== CORE INTERFACES ====================
 
@@ -16,6 +24,21 @@ export interface SpendingPattern {
     percentage: number;
     mccCodes: string[];
     merchants?: string[];
+    transactions?: PatternTransaction[]; // Dated debits backing this pattern (used for per-period caps)
+}
+
+export interface PatternTransaction {
+    id?: string; // Transaction row id, when the pattern was built from stored transactions
+    date: Date;
+    amount: number;
+    merchant?: string;
+    mccCode?: string;
+    channel?: 'online' | 'offline';
+    isForeign?: boolean; // Billed in a foreign currency / by an overseas merchant
+    description?: string;
+    categorySlug?: string;
+    subCategorySlug?: string;
+    sourceCardId?: string; // Card the transaction was charged to, when its statement's card is known
 }
 
 export interface RecommendationCriteria {
@@ -29,6 +52,12 @@ export interface RecommendationCriteria {
     includeBusinessCards?: boolean;
     preferredIssuer?: CardIssuer;
     minIncome?: number;
+    userProfile?: UserProfile;
+    ownedCardSlugs?: string[];
+    redemptionStyle?: RedemptionStyle;
+    horizonYears?: number;
+    statementMonths?: number; // Billing cycle length the statement covers
+    billingCycleStartDay?: number; // Day of month the cycle starts, when read from the statement
 }
 
 export interface CardRecommendation {
@@ -48,6 +77,19 @@ export interface CardRecommendation {
     benefitBreakdown: BenefitBreakdown[];
     confidenceScore: number;
 
+    // Gain over the best card the user already holds (only when owned cards are given)
+    baselineCardId?: string;
+    baselineCardName?: string;
+    incrementalEarnings?: number;     // Statement period earnings gained over the baseline card (negative when it earns less)
+    incrementalAnnualValue?: number;  // Annualized gain minus this card's effective annual fee
+
+    // Years 1-5 at the projected spend; horizonNetValue is the cumulative value at the requested horizon
+    valueTimeline?: ValueTimelineYear[];
+    horizonNetValue?: number;
+
+    // Statement period earnings over what the user's current cards earned (only when all spend is attributed)
+    earningsOverCurrentCards?: number;
+
     // Legacy fields (backwards compatibility - keep for now but hidden from main response)
     statementSavings?: number;
     statementEarnings?: number;
@@ -60,6 +102,17 @@ export interface CardRecommendation {
     scoreBreakdown?: ScoreBreakdown;
 }
 
+export interface ValueTimelineYear {
+    year: number;
+    rewardEarnings: number;   // Annualized rewards, fee adjustments and expiry discount
+    milestoneValue: number;
+    welcomeBonus: number;     // Year 1 only
+    fee: number;              // Joining fee in year 1, renewal fee afterwards, after waivers
+    feeWaived: boolean;
+    netValue: number;
+    cumulativeNetValue: number;
+}
+
 export interface BenefitBreakdown {
     category: string;
     currentRate: number;
@@ -68,7 +121,54 @@ export interface BenefitBreakdown {
     earnedPoints: number;
     dollarValue: number;
     savingsAmount?: number;
-    monthlyCap?: number; // Monthly capping limit for rewards
+    monthlyCap?: number; // Capping limit for rewards, applied once per cappingPeriod
+    cappingPeriod?: string; // monthly, quarterly, yearly
+    uncappedValue?: number; // What the category would have earned without the cap
+    periodBreakdown?: PeriodEarnings[];
+    lineType?: 'category' | 'milestone' | 'fuel_surcharge_waiver' | 'foreign_markup' | 'excluded' | 'points_expiry';
+    note?: string; // e.g. "Spend ₹X more per quarter to unlock Y"
+}
+
+export interface PeriodEarnings {
+    periodKey: string; // e.g. 2025-03, 2025-Q1, 2025
+    periodStart: Date;
+    periodEnd: Date;
+    spentAmount: number;
+    uncappedEarnings: number;
+    cappedEarnings: number;
+    capReached: boolean;
+}
+
+// One transaction run through a card's earn rules
+export interface TransactionEarning {
+    transactionId?: string;
+    date: Date;
+    merchant?: string;
+    mccCode?: string;
+    categoryName: string;
+    amount: number;
+    rewardDescription?: string; // Accelerated reward applied; the base rate applies when absent
+    earnRate: number;
+    earnedPoints: number; // Reward units after caps
+    uncappedEarnings: number; // Rupee value before caps
+    earnings: number; // Rupee value after caps
+    capped: boolean;
+    excluded: boolean;
+    exclusionReason?: string;
+    cappingLimit?: number;
+    cappingPeriod?: CappingPeriod;
+    periodKey?: string; // Capping period the transaction counted against
+}
+
+export interface TransactionLedger {
+    sessionId: string;
+    cardId: string;
+    cardName: string;
+    totalSpend: number;
+    totalEarnings: number;
+    excludedSpend: number;
+    cappedTransactions: number;
+    entries: TransactionEarning[];
 }
 
 export interface RecommendationResult {
@@ -80,6 +180,26 @@ export interface RecommendationResult {
     generatedAt: Date;
     summary: RecommendationSummary;
     analysis?: SpendingAnalysis;
+    currentCards?: CurrentCardsSummary; // What the cards the statements came from actually earned
+}
+
+export interface CurrentCardEarnings {
+    cardId: string;
+    cardName: string;
+    issuerName?: string;
+    spend: number;
+    earnings: number; // Statement period earnings: reported when the statements show them, otherwise modeled
+    earningsSource: 'statement' | 'modeled';
+    modeledEarnings: number; // What the catalog rules say this card should have earned
+    reportedEarnings?: number; // Points earned (valued) plus cashback credited, per the statements' rewards summary
+    transactionCount: number;
+}
+
+export interface CurrentCardsSummary {
+    cards: CurrentCardEarnings[];
+    totalSpend: number;
+    totalEarnings: number;
+    unattributedSpend: number; // Spend from statements whose card is unknown
 }
 
 export interface RecommendationSummary {
@@ -172,6 +292,25 @@ export interface FeeStructure {
     cashAdvanceFee?: number;
     overlimitFee?: number;
     lateFee?: number;
+    feeWaiverCriteria?: FeeWaiverCriteria;
+    foreignMarkupFee?: number; // % charged on foreign-currency transactions
+    fuelSurchargeWaiver?: FuelSurchargeWaiver;
+}
+
+export interface FuelSurchargeWaiver {
+    isAvailable: boolean;
+    waiverPercentage: number;
+    minTransaction: number;
+    maxTransaction: number;
+    maxWaiverPerCycle: number;
+}
+
+export interface FeeWaiverCriteria {
+    type: 'lifetime_free' | 'spend_based' | 'joining_spend_based' | 'no_waiver';
+    annualSpendRequired: number;
+    waiverPeriod: string | null;
+    joiningSpendRequired?: number;
+    joiningWaiverPeriod?: number; // days
 }
 
 export interface EligibilityRequirements {
@@ -190,8 +329,48 @@ export interface RewardStructure {
     rewardType: string;
     rewardCurrency: RewardCurrency;
     baseRewardRate: number;
-    pointsExpiry?: number;
-    redemptionOptions: string[];
+    pointsExpiry?: number; // Months until unredeemed points lapse
+    pointsConversion?: PointsConversion;
+    redemptionOptions?: RedemptionOption[]; // Redemption catalog; config point values apply when absent
+    excludedCategories?: RewardExclusion[]; // Spend that earns nothing on this card
+}
+
+// How a points card's units convert to rupees, as seeded on cards without a redemption catalog
+export interface PointsConversion {
+    isApplicable: boolean;
+    conversionRate: number | null; // Rupees per reward unit
+    minimumRedemption: number | null; // Smallest redemption allowed, in reward units
+    validityMonths?: number; // Months until unredeemed points lapse
+}
+
+// One way to redeem the card's reward units
+export interface RedemptionOption {
+    type: RedemptionType;
+    description: string;
+    conversionRate: number; // Rupees per reward unit, or partner units per reward unit for transfers
+    partnerUnitValue?: number; // Rupee value of one partner mile/point (transfers only)
+    transferPartners?: string[];
+    fee?: number; // Rupees charged per redemption
+    minimumPoints?: number; // Smallest redemption allowed
+}
+
+// Redemption option chosen to value a card's points for a redemption style
+export interface RedemptionPath {
+    style: RedemptionStyle;
+    type: RedemptionType;
+    description: string;
+    valuePerPoint: number; // Net of redemption fees
+    minimumPoints?: number;
+    transferPartners?: string[];
+}
+
+// Spend excluded from rewards, keyed by MCC, category/subcategory slug or merchant pattern
+export interface RewardExclusion {
+    categoryId: string;
+    description?: string;
+    mccCodes?: string[];
+    categorySlugs?: string[];
+    merchantPatterns?: string[];
 }
 
 export interface AdditionalBenefit {
@@ -202,9 +381,12 @@ export interface AdditionalBenefit {
 
 export interface BenefitDetail {
     benefitType: string;
+    benefitName?: string;
     benefitValue: string;
+    benefitCurrency?: string; // INR, percentage, or a reward currency for bonus points
     description: string;
     conditions?: string[];
+    isActive?: boolean;
 }
 
 export interface AcceleratedRewardInfo {
@@ -215,6 +397,9 @@ export interface AcceleratedRewardInfo {
     conditions: string[];
     cappingLimit?: number;
     cappingPeriod?: string;
+    minTransactionAmount?: number; // Smaller transactions fall back to the next reward or the base rate
+    maxRewardPerTransaction?: number; // Per-transaction cap, in reward units
+    exclusions?: RewardExclusion[]; // Spend that falls back to the base rate for this reward
     description: string;
 }
 
@@ -390,6 +575,62 @@ export interface RecommendationOptions {
     prioritizeSignupBonus?: boolean;
     includeInactiveCards?: boolean;
     customWeights?: Partial<WeightConfig>;
+    userProfile?: UserProfile;
+    ownedCardSlugs?: string[]; // Catalog slugs of cards the user already holds
+    redemptionStyle?: RedemptionStyle; // How the user redeems points; defaults to cash-like
+    horizonYears?: number; // Rank by cumulative net value over this many years (1-5)
+}
+
+// Facts about the user that accelerated-reward and benefit conditions are evaluated against
+export interface UserProfile {
+    memberships?: string[];           // e.g. amazon_prime
+    cardApprovalDate?: string;        // ISO date the new card would be approved on (defaults to today)
+    usesIssuerTravelPortals?: boolean; // Books via SmartBuy / Travel Edge style portals
+    paymentApps?: string[];           // e.g. google_pay, phonepe
+    devicePlatform?: 'android' | 'ios';
+    cardVariant?: string;             // Network variant the user would apply for, e.g. rupay
+    birthDate?: string;               // ISO date
+}
+
+// Portfolio mode: best 2-3 card combination with spend routed to the strongest card
+export interface PortfolioOptions extends RecommendationOptions {
+    maxCards?: number; // Largest combination to consider (2 or 3)
+}
+
+export interface PortfolioRoute {
+    categoryName: string;
+    merchants?: string[]; // Set when only these merchants of the category go to this card
+    cardId: string;
+    cardName: string;
+    spentAmount: number; // Statement period amount
+    earnings: number; // Statement period earnings after caps
+    instruction: string; // e.g. "Use Amazon Pay ICICI for Amazon in Shopping"
+}
+
+export interface PortfolioCardValue {
+    cardId: string;
+    cardName: string;
+    spentAmount: number; // Statement period spend routed to the card
+    annualEarnings: number;
+    effectiveAnnualFee: number;
+    netAnnualValue: number;
+}
+
+export interface CardPortfolio {
+    cards: PortfolioCardValue[];
+    annualEarnings: number;
+    annualFees: number;
+    netAnnualValue: number; // Combined earnings after all fees
+    gainOverBestSingleCard: number;
+    routing: PortfolioRoute[];
+}
+
+export interface PortfolioResult {
+    sessionId: string;
+    projectedAnnualSpending: number;
+    bestSingleCard: PortfolioCardValue | null;
+    portfolio: CardPortfolio | null;
+    alternatives: CardPortfolio[];
 }
 
 // ==================== DATABASE QUERY TYPES ====================
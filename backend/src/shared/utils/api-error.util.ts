@@ -1,9 +1,11 @@
 export class ApiError extends Error {
   public readonly statusCode: number;
+  public readonly code?: string; // Machine-readable code clients can branch on
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
+    this.code = code;
     Object.setPrototypeOf(this, ApiError.prototype);
   }
 }
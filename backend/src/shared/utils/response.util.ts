@@ -79,18 +79,29 @@ export class ResponseUtil {
    * @param {string} message - Error message
    * @param {number} statusCode - HTTP status code
    * @param {object} errors - Validation errors
+   * @param {string} code - Machine-readable error code
    */
   static error(
     res: Response,
     message = 'Internal Server Error',
     statusCode: number = StatusCodes.INTERNAL_SERVER_ERROR,
     errors: object | null = null,
+    code?: string,
   ): Response {
-    const response: { status: string; message: string; errors?: object } = {
+    const response: {
+      status: string;
+      message: string;
+      code?: string;
+      errors?: object;
+    } = {
       status: 'error',
       message,
     };
 
+    if (code) {
+      response.code = code;
+    }
+
     if (errors) {
       response.errors = errors;
     }
@@ -0,0 +1,37 @@
+declare module 'pdf-parse' {
+    namespace PdfParse {
+        // pdf-parse hands its input straight to pdf.js getDocument, which also
+        // accepts a parameter object, e.g. to open a password-protected file
+        interface DocumentParameters {
+            data: Buffer;
+            password?: string;
+        }
+
+        // The pdf.js page handed to a custom page renderer
+        interface PageData {
+            getTextContent(options?: {
+                normalizeWhitespace?: boolean;
+                disableCombineTextItems?: boolean;
+            }): Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+        }
+
+        interface Options {
+            pagerender?: (pageData: PageData) => string | Promise<string>;
+            max?: number;
+            version?: 'default' | 'v1.9.426' | 'v1.10.100' | 'v1.10.88' | 'v2.0.550';
+        }
+
+        interface Result {
+            numpages: number;
+            numrender: number;
+            info: any;
+            metadata: any;
+            version: string;
+            text: string;
+        }
+    }
+
+    function PdfParse(source: Buffer | PdfParse.DocumentParameters, options?: PdfParse.Options): Promise<PdfParse.Result>;
+
+    export = PdfParse;
+}
@@ -0,0 +1,198 @@
+import { prisma } from '@/database/db';
+import { env } from '@/shared/config/env.config';
+import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
+import {
+  AIUsageEntry,
+  aiUsageService,
+} from '@/shared/services/ai-usage.service';
+import { logger } from '@/shared/utils/logger.util';
+
+jest.mock('@/database/db', () => ({
+  prisma: {
+    session: { updateMany: jest.fn(), findUnique: jest.fn() },
+    aIUsageRecord: { create: jest.fn(), groupBy: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  session: { updateMany: jest.Mock; findUnique: jest.Mock };
+  aIUsageRecord: { create: jest.Mock; groupBy: jest.Mock };
+};
+
+const BUDGET = 10_000;
+
+const entry = (extra: Partial<AIUsageEntry> = {}): AIUsageEntry => ({
+  sessionId: 'session_1',
+  jobId: 'job_1',
+  task: 'extraction',
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  usage: { inputTokens: 1000, outputTokens: 200 },
+  promptLength: 4000,
+  responseLength: 800,
+  latencyMs: 1500,
+  success: true,
+  ...extra,
+});
+
+describe('aiUsageService', () => {
+  const originalBudget = env.AI_SESSION_TOKEN_BUDGET;
+
+  beforeEach(() => {
+    env.AI_SESSION_TOKEN_BUDGET = BUDGET;
+  });
+
+  afterEach(() => {
+    env.AI_SESSION_TOKEN_BUDGET = originalBudget;
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('reserveTokens', () => {
+    it('reserves the estimated prompt tokens while the session is under budget', async () => {
+      db.session.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(
+        aiUsageService.reserveTokens({ sessionId: 'session_1' }, 4001),
+      ).resolves.toBe(1001);
+      expect(db.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session_1', aiTokensUsed: { lt: BUDGET } },
+        data: { aiTokensUsed: { increment: 1001 } },
+      });
+    });
+
+    it('refuses a call once the session has used its budget', async () => {
+      db.session.updateMany.mockResolvedValue({ count: 0 });
+      db.session.findUnique.mockResolvedValue({ aiTokensUsed: BUDGET + 250 });
+      const warn = jest.spyOn(logger, 'warn');
+
+      await expect(
+        aiUsageService.reserveTokens(
+          { sessionId: 'session_1', jobId: 'job_1' },
+          4000,
+        ),
+      ).rejects.toMatchObject({
+        code: ERROR_CODES.AI_BUDGET_EXCEEDED,
+        statusCode: StatusCodes.TOO_MANY_REQUESTS,
+      });
+      expect(warn).toHaveBeenCalledWith(
+        'AI token budget exceeded for session',
+        expect.objectContaining({ sessionId: 'session_1', jobId: 'job_1' }),
+      );
+    });
+
+    it('charges nothing for a session that no longer exists', async () => {
+      db.session.updateMany.mockResolvedValue({ count: 0 });
+      db.session.findUnique.mockResolvedValue(null);
+
+      await expect(
+        aiUsageService.reserveTokens({ sessionId: 'session_gone' }, 4000),
+      ).resolves.toBe(0);
+    });
+
+    it.each([
+      ['without a session', undefined, BUDGET],
+      ['with no budget configured', { sessionId: 'session_1' }, 0],
+    ])('reserves nothing %s', async (_case, context, budget) => {
+      env.AI_SESSION_TOKEN_BUDGET = budget;
+
+      await expect(aiUsageService.reserveTokens(context, 4000)).resolves.toBe(
+        0,
+      );
+      expect(db.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    it('records the call and settles the reservation to the tokens used', async () => {
+      await aiUsageService.record(entry({ reservedTokens: 1000 }));
+
+      expect(db.aIUsageRecord.create).toHaveBeenCalledWith({
+        data: {
+          sessionId: 'session_1',
+          jobId: 'job_1',
+          task: 'extraction',
+          provider: 'gemini',
+          model: 'gemini-2.5-flash',
+          inputTokens: 1000,
+          outputTokens: 200,
+          tokensEstimated: false,
+          latencyMs: 1500,
+          estimatedCost: (1000 * 0.3 + 200 * 2.5) / 1_000_000,
+          success: true,
+        },
+      });
+      expect(db.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session_1' },
+        data: { aiTokensUsed: { increment: 200 } },
+      });
+    });
+
+    it('estimates tokens from text length when the provider reports none', async () => {
+      await aiUsageService.record(entry({ usage: undefined, success: false }));
+
+      expect(db.aIUsageRecord.create.mock.calls[0][0].data).toMatchObject({
+        inputTokens: 1000,
+        outputTokens: 200,
+        tokensEstimated: true,
+        success: false,
+      });
+    });
+
+    it('logs a failed write instead of failing the call', async () => {
+      db.aIUsageRecord.create.mockRejectedValue(new Error('connection lost'));
+      const warn = jest.spyOn(logger, 'warn');
+
+      await expect(aiUsageService.record(entry())).resolves.toBeUndefined();
+      expect(warn).toHaveBeenCalledWith(
+        'Failed to record AI usage',
+        expect.objectContaining({
+          task: 'extraction',
+          sessionId: 'session_1',
+          jobId: 'job_1',
+        }),
+      );
+      expect(db.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('prices a model by its name prefix, and unknown models at nothing', () => {
+    expect(
+      aiUsageService.estimateCost('gemini-2.5-flash-lite-001', 1_000_000, 0),
+    ).toBe(0.1);
+    expect(aiUsageService.estimateCost('llama3.1', 1_000_000, 1_000_000)).toBe(
+      0,
+    );
+  });
+
+  it('sums usage per job, with its failed calls', async () => {
+    db.aIUsageRecord.groupBy
+      .mockResolvedValueOnce([
+        {
+          jobId: 'job_1',
+          _count: { _all: 3 },
+          _sum: {
+            inputTokens: 3000,
+            outputTokens: 600,
+            latencyMs: 4200,
+            estimatedCost: 0.0024,
+          },
+        },
+      ])
+      .mockResolvedValueOnce([{ jobId: 'job_1', _count: { _all: 1 } }]);
+
+    const usage = await aiUsageService.getJobUsage(['job_1', 'job_2']);
+
+    expect(Array.from(usage.keys())).toEqual(['job_1']);
+    expect(usage.get('job_1')).toEqual({
+      calls: 3,
+      failedCalls: 1,
+      inputTokens: 3000,
+      outputTokens: 600,
+      totalTokens: 3600,
+      latencyMs: 4200,
+      estimatedCost: 0.0024,
+    });
+  });
+});
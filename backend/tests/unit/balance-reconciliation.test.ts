@@ -0,0 +1,89 @@
+import { balanceReconciliationService } from '@/shared/services/balance-reconciliation.service';
+
+// Charges positive, payments and refunds negative, as extracted
+const transactions = [
+  { amount: 1200 },
+  { amount: 450.5 },
+  { amount: 1800 },
+  { amount: -12500 },
+  { amount: 1460 },
+];
+
+const summary = {
+  previousBalance: 12500,
+  totalDebits: 4910.5,
+  totalCredits: 12500,
+  closingBalance: 4910.5,
+};
+
+describe('balanceReconciliationService.reconcile', () => {
+  it('reconciles transactions that match the printed summary', () => {
+    const result = balanceReconciliationService.reconcile(
+      transactions,
+      summary,
+    );
+
+    expect(result).toEqual({
+      status: 'reconciled',
+      score: 1,
+      extractedDebits: 4910.5,
+      extractedCredits: 12500,
+      deltas: { debits: 0, credits: 0, closingBalance: 0 },
+      warnings: [],
+    });
+  });
+
+  it('flags a missed charge in both the debits and the closing balance', () => {
+    const result = balanceReconciliationService.reconcile(
+      transactions.filter((t) => t.amount !== 1800),
+      summary,
+    );
+
+    expect(result.status).toBe('mismatch');
+    expect(result.score).toBeLessThan(1);
+    expect(result.deltas).toEqual({
+      debits: -1800,
+      credits: 0,
+      closingBalance: -1800,
+    });
+    expect(result.warnings).toHaveLength(2);
+  });
+
+  it('checks the closing balance against a balance in credit', () => {
+    const result = balanceReconciliationService.reconcile(
+      [{ amount: 250.75 }, { amount: 5000 }, { amount: -2000 }],
+      {
+        previousBalance: -1000,
+        totalDebits: 5250.75,
+        totalCredits: 2000,
+        closingBalance: 2250.75,
+      },
+    );
+
+    expect(result.status).toBe('reconciled');
+    expect(result.deltas.closingBalance).toBe(0);
+  });
+
+  it('warns when the printed summary does not add up on its own', () => {
+    const result = balanceReconciliationService.reconcile(transactions, {
+      ...summary,
+      totalDebits: 4190.5,
+    });
+
+    expect(result.status).toBe('mismatch');
+    expect(result.warnings).toContain(
+      'Statement summary does not add up (off by -720.00); its totals may have been misread',
+    );
+  });
+
+  it('is unavailable without printed totals', () => {
+    const result = balanceReconciliationService.reconcile(
+      transactions,
+      undefined,
+    );
+
+    expect(result.status).toBe('unavailable');
+    expect(result.score).toBeNull();
+    expect(result.extractedDebits).toBe(4910.5);
+  });
+});
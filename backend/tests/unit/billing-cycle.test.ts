@@ -0,0 +1,90 @@
+import { billingCycleService } from '@/shared/services/billing-cycle.service';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe('billingCycleService', () => {
+  describe('parseDate', () => {
+    it.each([
+      ['2025-09-15', '2025-09-15'],
+      ['15/09/2025', '2025-09-15'],
+      ['15-09-25', '2025-09-15'],
+      ['15 Sep 2025', '2025-09-15'],
+      ['15 September 25', '2025-09-15'],
+      ['Sep 15, 2025', '2025-09-15'],
+    ])('reads %s', (value, expected) => {
+      expect(
+        billingCycleService.parseDate(value)?.toISOString().slice(0, 10),
+      ).toBe(expected);
+    });
+
+    it.each(['31/02/2025', '15/13/2025', 'Foo 15, 2025', 'yesterday'])(
+      'rejects %s',
+      (value) => {
+        expect(billingCycleService.parseDate(value)).toBeUndefined();
+      },
+    );
+  });
+
+  describe('detect', () => {
+    it('prefers the printed statement period', () => {
+      const cycle = billingCycleService.detect(
+        'Statement Period : 13 Jul 2025 to 12 Aug 2025\nPayment Due Date 01 Sep 2025',
+        [day('2025-07-20')],
+      );
+
+      expect(cycle).toMatchObject({
+        periodStart: day('2025-07-13'),
+        periodEnd: day('2025-08-12'),
+        paymentDueDate: day('2025-09-01'),
+        source: 'statement_period',
+        cycleStartDay: 13,
+      });
+    });
+
+    it('opens the cycle the day after the previous statement date', () => {
+      const cycle = billingCycleService.detect('Statement Date: 15/10/2025', [
+        day('2025-09-20'),
+      ]);
+
+      expect(cycle?.periodStart).toEqual(day('2025-09-16'));
+      expect(cycle?.periodEnd).toEqual(day('2025-10-15'));
+      expect(cycle?.source).toBe('statement_date');
+    });
+
+    it('falls back to the transaction dates', () => {
+      const cycle = billingCycleService.detect(null, [
+        day('2025-03-10'),
+        day('2025-01-05'),
+      ]);
+
+      expect(cycle?.periodStart).toEqual(day('2025-01-05'));
+      expect(cycle?.periodEnd).toEqual(day('2025-03-10'));
+      expect(cycle?.source).toBe('transactions');
+    });
+  });
+
+  describe('merge', () => {
+    const cycle = (start: string, end: string) =>
+      billingCycleService.detect(`Billing Period: ${start} to ${end}`, [])!;
+
+    it('counts back-to-back statements as one span', () => {
+      const merged = billingCycleService.merge([
+        cycle('16/08/2025', '15/09/2025'),
+        cycle('16/09/2025', '15/10/2025'),
+      ]);
+
+      expect(merged?.periodStart).toEqual(day('2025-08-16'));
+      expect(merged?.periodEnd).toEqual(day('2025-10-15'));
+      expect(merged?.months).toBeCloseTo(61 / 30.44);
+    });
+
+    it('leaves gaps between statements out of the months covered', () => {
+      const merged = billingCycleService.merge([
+        cycle('16/01/2025', '15/02/2025'),
+        cycle('16/06/2025', '15/07/2025'),
+      ]);
+
+      expect(merged?.months).toBeCloseTo((31 + 30) / 30.44);
+    });
+  });
+});
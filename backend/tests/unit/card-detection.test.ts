@@ -0,0 +1,188 @@
+import { prisma } from '@/database/db';
+import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { cardDetectionService } from '@/shared/services/card-detection.service';
+
+jest.mock('@/database/db', () => ({
+  prisma: {
+    cardIssuer: { findMany: jest.fn() },
+    creditCard: { findMany: jest.fn(), findFirst: jest.fn() },
+    statement: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    transaction: { updateMany: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  cardIssuer: { findMany: jest.Mock };
+  creditCard: { findMany: jest.Mock; findFirst: jest.Mock };
+  statement: { findUnique: jest.Mock; findFirst: jest.Mock; update: jest.Mock };
+  transaction: { updateMany: jest.Mock };
+};
+
+const issuers = [
+  { id: 'issuer_hdfc', name: 'HDFC Bank', slug: 'hdfc-bank' },
+  { id: 'issuer_sbi', name: 'SBI Card', slug: 'sbi-card' },
+];
+
+const hdfcCards = [
+  { id: 'card_regalia', name: 'HDFC Regalia Credit Card' },
+  { id: 'card_regalia_gold', name: 'HDFC Regalia Gold Credit Card' },
+  { id: 'card_millennia', name: 'HDFC Millennia Credit Card' },
+];
+
+describe('cardDetectionService', () => {
+  beforeEach(() => {
+    db.cardIssuer.findMany.mockResolvedValue(issuers);
+    db.creditCard.findMany.mockResolvedValue(hdfcCards);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('detect', () => {
+    it('picks the issuer named most often and its most specific card', async () => {
+      const detection = await cardDetectionService.detect(
+        'HDFC Bank Credit Card Statement\nRegalia Gold\nPaid to SBI Life Insurance\nHDFC Bank Ltd',
+      );
+
+      expect(detection).toEqual({
+        issuerId: 'issuer_hdfc',
+        issuerName: 'HDFC Bank',
+        cardId: 'card_regalia_gold',
+        cardName: 'HDFC Regalia Gold Credit Card',
+        confidence: 0.9,
+      });
+      expect(db.creditCard.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { issuerId: 'issuer_hdfc', isActive: true },
+        }),
+      );
+    });
+
+    it('prefers the card variant printed on the statement', async () => {
+      const detection = await cardDetectionService.detect(
+        'HDFC Bank statement. Upgrade to Regalia Gold today!',
+        'Millennia',
+      );
+
+      expect(detection.cardId).toBe('card_millennia');
+    });
+
+    it('falls back to the issuer alone when no card name matches', async () => {
+      const detection = await cardDetectionService.detect(
+        'HDFC statement for your Diners Club card',
+      );
+
+      expect(detection).toEqual({
+        issuerId: 'issuer_hdfc',
+        issuerName: 'HDFC Bank',
+        cardId: undefined,
+        cardName: undefined,
+        confidence: 0.5,
+      });
+    });
+
+    it('detects nothing without a known issuer', async () => {
+      await expect(
+        cardDetectionService.detect('Kotak Mahindra Bank statement'),
+      ).resolves.toEqual({ confidence: 0 });
+      expect(db.creditCard.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('detectAndStore', () => {
+    it('stores the detection on the statement', async () => {
+      db.statement.findUnique.mockResolvedValue({ cardConfirmed: false });
+
+      await cardDetectionService.detectAndStore(
+        'statement_1',
+        'HDFC Bank Millennia statement',
+      );
+
+      expect(db.statement.update).toHaveBeenCalledWith({
+        where: { id: 'statement_1' },
+        data: {
+          issuerId: 'issuer_hdfc',
+          cardId: 'card_millennia',
+          cardDetectionConfidence: 0.9,
+        },
+      });
+    });
+
+    it('keeps a card the user already confirmed', async () => {
+      db.statement.findUnique.mockResolvedValue({
+        cardConfirmed: true,
+        issuerId: 'issuer_sbi',
+        cardId: 'card_cashback',
+      });
+
+      await expect(
+        cardDetectionService.detectAndStore(
+          'statement_1',
+          'HDFC Bank Millennia statement',
+        ),
+      ).resolves.toEqual({
+        issuerId: 'issuer_sbi',
+        cardId: 'card_cashback',
+        confidence: 1,
+      });
+      expect(db.statement.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmCard', () => {
+    it('confirms the card and re-attributes the statement transactions', async () => {
+      db.statement.findFirst.mockResolvedValue({ id: 'statement_1' });
+      db.creditCard.findFirst.mockResolvedValue({
+        id: 'card_cashback',
+        name: 'SBI Cashback Card',
+        issuerId: 'issuer_sbi',
+        issuer: { name: 'SBI Card' },
+      });
+
+      await cardDetectionService.confirmCard(
+        'session_1',
+        'statement_1',
+        'sbi-cashback',
+      );
+
+      expect(db.statement.update).toHaveBeenCalledWith({
+        where: { id: 'statement_1' },
+        data: {
+          issuerId: 'issuer_sbi',
+          cardId: 'card_cashback',
+          cardDetectionConfidence: 1,
+          cardConfirmed: true,
+        },
+      });
+      expect(db.transaction.updateMany).toHaveBeenCalledWith({
+        where: { statementId: 'statement_1' },
+        data: { sourceCardId: 'card_cashback' },
+      });
+    });
+
+    it.each([
+      ['statement', null, { id: 'card_cashback' }, 'Statement not found'],
+      ['card', { id: 'statement_1' }, null, 'Credit card not found'],
+    ])(
+      'rejects an unknown %s',
+      async (_missing, statement, creditCard, message) => {
+        db.statement.findFirst.mockResolvedValue(statement);
+        db.creditCard.findFirst.mockResolvedValue(creditCard);
+
+        await expect(
+          cardDetectionService.confirmCard(
+            'session_1',
+            'statement_1',
+            'card_cashback',
+          ),
+        ).rejects.toMatchObject({ message, statusCode: StatusCodes.NOT_FOUND });
+        expect(db.transaction.updateMany).not.toHaveBeenCalled();
+      },
+    );
+  });
+});
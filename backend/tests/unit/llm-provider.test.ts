@@ -0,0 +1,252 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { env } from '@/shared/config/env.config';
+import {
+  GeminiProvider,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderService,
+  OpenAICompatibleProvider,
+  RecordingProvider,
+  ReplayProvider,
+} from '@/shared/services/llm-provider.service';
+
+describe('LLM recording and replay', () => {
+  const prompt =
+    'Extract the transactions from this statement: 01/09/2025 AMAZON 1,200.00';
+  const response = {
+    text: '{"transactions":[],"confidence":0.9}',
+    usage: { inputTokens: 120, outputTokens: 15 },
+  };
+  const originalDir = env.LLM_RECORDINGS_DIR;
+  const originalMode = env.LLM_RECORDING_MODE;
+  const originalApiKey = env.GEMINI_API_KEY;
+  let recordingsDir: string;
+
+  beforeEach(() => {
+    recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-recordings-'));
+    env.LLM_RECORDINGS_DIR = recordingsDir;
+  });
+
+  afterEach(() => {
+    fs.rmSync(recordingsDir, { recursive: true, force: true });
+    env.LLM_RECORDINGS_DIR = originalDir;
+    env.LLM_RECORDING_MODE = originalMode;
+    env.GEMINI_API_KEY = originalApiKey;
+  });
+
+  const recordResponse = async () => {
+    const backend: LLMProvider = {
+      type: 'openai',
+      model: 'local-model',
+      generate: jest.fn().mockResolvedValue(response),
+    };
+    await new RecordingProvider('extraction', backend).generate(prompt);
+    return backend;
+  };
+
+  it('replays a recorded response without calling the backend', async () => {
+    const backend = await recordResponse();
+
+    const replayed = await new ReplayProvider(
+      'extraction',
+      'openai',
+      'local-model',
+    ).generate(prompt);
+
+    expect(replayed).toEqual(response);
+    expect(backend.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores recordings by prompt hash, without the statement text', async () => {
+    await recordResponse();
+
+    const [file] = fs.readdirSync(path.join(recordingsDir, 'extraction'));
+    const contents = fs.readFileSync(
+      path.join(recordingsDir, 'extraction', file),
+      'utf8',
+    );
+
+    expect(file).toMatch(/^[0-9a-f]{64}\.json$/);
+    expect(contents).not.toContain('AMAZON');
+    expect(JSON.parse(contents)).toMatchObject({
+      task: 'extraction',
+      provider: 'openai',
+      model: 'local-model',
+      response,
+    });
+  });
+
+  it('fails on a prompt that was never recorded, for the task', async () => {
+    await recordResponse();
+
+    await expect(
+      new ReplayProvider('extraction', 'openai', 'local-model').generate(
+        `${prompt} (edited)`,
+      ),
+    ).rejects.toThrow(LLMProviderError);
+    await expect(
+      new ReplayProvider('mcc_discovery', 'openai', 'local-model').generate(
+        prompt,
+      ),
+    ).rejects.toThrow('No recorded mcc_discovery response');
+  });
+
+  it('replays in replay mode without any backend configured', async () => {
+    await recordResponse();
+    env.LLM_RECORDING_MODE = 'replay';
+    env.GEMINI_API_KEY = undefined;
+
+    const provider = new LLMProviderService().getProvider('extraction');
+
+    expect(provider).toBeInstanceOf(ReplayProvider);
+    await expect(provider.generate(prompt)).resolves.toEqual(response);
+  });
+});
+
+describe('LLM providers', () => {
+  const original = {
+    LLM_RECORDING_MODE: env.LLM_RECORDING_MODE,
+    LLM_EXTRACTION_PROVIDER: env.LLM_EXTRACTION_PROVIDER,
+    LLM_MCC_DISCOVERY_PROVIDER: env.LLM_MCC_DISCOVERY_PROVIDER,
+    OPENAI_COMPATIBLE_BASE_URL: env.OPENAI_COMPATIBLE_BASE_URL,
+    OPENAI_COMPATIBLE_MODEL: env.OPENAI_COMPATIBLE_MODEL,
+    LLM_REQUEST_TIMEOUT_MS: env.LLM_REQUEST_TIMEOUT_MS,
+  };
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    Object.assign(env, original);
+    jest.restoreAllMocks();
+  });
+
+  const completion = (body: object, status = 200) =>
+    new Response(JSON.stringify(body), { status });
+
+  it('runs each task on its configured backend', () => {
+    env.LLM_RECORDING_MODE = 'off';
+    env.LLM_EXTRACTION_PROVIDER = 'openai';
+    env.LLM_MCC_DISCOVERY_PROVIDER = 'gemini';
+    env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+    env.OPENAI_COMPATIBLE_MODEL = 'llama3.1';
+    const service = new LLMProviderService();
+
+    expect(service.getProvider('extraction')).toBeInstanceOf(
+      OpenAICompatibleProvider,
+    );
+    expect(service.getProvider('extraction').model).toBe('llama3.1');
+    expect(service.getProvider('mcc_discovery')).toBeInstanceOf(GeminiProvider);
+  });
+
+  it('refuses an OpenAI-compatible task without a server to send it to', () => {
+    env.LLM_RECORDING_MODE = 'off';
+    env.LLM_EXTRACTION_PROVIDER = 'openai';
+    env.OPENAI_COMPATIBLE_BASE_URL = undefined;
+
+    expect(() => new LLMProviderService().getProvider('extraction')).toThrow(
+      'OPENAI_COMPATIBLE_BASE_URL and a model are required',
+    );
+  });
+
+  it('requests a structured chat completion and reads its usage', async () => {
+    fetchMock.mockResolvedValue(
+      completion({
+        choices: [{ message: { content: '{"results":[]}' } }],
+        usage: { prompt_tokens: 40, completion_tokens: 8 },
+      }),
+    );
+    const schema = { type: 'object' };
+
+    const response = await new OpenAICompatibleProvider(
+      'http://localhost:11434/v1/',
+      'llama3.1',
+      'local-key',
+    ).generate('Find the MCC codes', { responseSchema: schema });
+
+    expect(response).toEqual({
+      text: '{"results":[]}',
+      usage: { inputTokens: 40, outputTokens: 8 },
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.get('Authorization')).toBe('Bearer local-key');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'llama3.1',
+      temperature: 0,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema },
+      },
+    });
+  });
+
+  it('reports the status and the start of the body of a failed request', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(`model not found${' '.repeat(300)}trailing`, {
+        status: 404,
+      }),
+    );
+
+    const request = new OpenAICompatibleProvider(
+      'http://localhost:11434/v1',
+      'llama3.1',
+    ).generate('Find the MCC codes');
+
+    await expect(request).rejects.toMatchObject({
+      name: 'LLMProviderError',
+      status: 404,
+    });
+    await expect(request).rejects.toThrow(
+      /^llama3\.1 request failed with status 404: model not found\s*$/,
+    );
+  });
+
+  it('gives up on a request that outlasts LLM_REQUEST_TIMEOUT_MS', async () => {
+    env.LLM_REQUEST_TIMEOUT_MS = 20;
+    // A server that never answers; only the abort signal ends the request
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+
+    await expect(
+      new OpenAICompatibleProvider(
+        'http://localhost:11434/v1',
+        'llama3.1',
+      ).generate('Find the MCC codes'),
+    ).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('passes the request timeout to Gemini', async () => {
+    env.LLM_REQUEST_TIMEOUT_MS = 20;
+    const provider = new GeminiProvider('test-key', 'gemini-2.5-flash');
+    const generateContent = jest
+      .spyOn(provider['generativeModel'], 'generateContent')
+      .mockResolvedValue({
+        response: { text: () => '{}', usageMetadata: undefined },
+      } as never);
+
+    await provider.generate('Extract the transactions', {
+      responseSchema: {},
+    });
+
+    const [request, { signal }] = generateContent.mock.calls[0] as [
+      object,
+      { signal: AbortSignal },
+    ];
+    expect(request).toMatchObject({
+      generationConfig: { responseMimeType: 'application/json' },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(signal.aborted).toBe(true);
+  });
+});
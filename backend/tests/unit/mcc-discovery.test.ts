@@ -0,0 +1,194 @@
+import { prisma } from '@/database/db';
+import { categoryMappingService } from '@/shared/services/category-mapping.service';
+import {
+  geminiAIService,
+  MCCDiscoveryBatchResult,
+} from '@/shared/services/gemini-ai.service';
+import {
+  DiscoveryStats,
+  mccDiscoveryService,
+} from '@/shared/services/mcc-discovery.service';
+
+jest.mock('@/database/db', () => ({
+  prisma: {
+    mCCDiscoveryCache: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    appConfig: { findUnique: jest.fn() },
+  },
+}));
+
+const cache = (
+  prisma as unknown as {
+    mCCDiscoveryCache: {
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+      upsert: jest.Mock;
+    };
+  }
+).mCCDiscoveryCache;
+
+const stats = (): DiscoveryStats => ({
+  totalProcessed: 0,
+  databaseMatches: 0,
+  fuzzyMatches: 0,
+  aiDiscovered: 0,
+  patternMatches: 0,
+  failed: 0,
+  averageConfidence: 0,
+  processingTimeMs: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+  coalescedRequests: 0,
+  cacheHitRate: 0,
+});
+
+const aiResult = (merchantName: string) => ({
+  merchantName,
+  mccCode: '5812',
+  mccDescription: 'Eating Places and Restaurants',
+  confidence: 0.9,
+  reasoning: 'Restaurant chain',
+  category: 'Dining & Food Delivery',
+});
+
+const discover = (merchants: string[], usage: DiscoveryStats) =>
+  mccDiscoveryService['discoverWithAI'](merchants, {}, usage);
+
+describe('MCC discovery', () => {
+  let discoverMCCCodes: jest.SpyInstance;
+
+  beforeEach(() => {
+    cache.findMany.mockResolvedValue([]);
+    jest.spyOn(categoryMappingService, 'mapCategory').mockResolvedValue({
+      mapping: {
+        categoryId: 'cat_dining',
+        categoryName: 'Dining & Food Delivery',
+        confidence: 1,
+      },
+      isExactMatch: true,
+      fallbackUsed: false,
+    });
+    discoverMCCCodes = jest.spyOn(geminiAIService, 'discoverMCCCodes');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('asks the model once for a merchant two sessions look up together', async () => {
+    let answer!: (result: MCCDiscoveryBatchResult) => void;
+    discoverMCCCodes.mockReturnValue(
+      new Promise((resolve) => {
+        answer = resolve;
+      }),
+    );
+    const first = stats();
+    const second = stats();
+
+    const lookups = Promise.all([
+      discover(['DOMINOS PIZZA 123'], first),
+      discover(['Dominos Pizza'], second),
+    ]);
+    answer({
+      results: [aiResult('DOMINOS PIZZA 123')],
+      successful: 1,
+      failed: 0,
+      totalProcessed: 1,
+    });
+    const [firstResults, secondResults] = await lookups;
+
+    expect(discoverMCCCodes).toHaveBeenCalledTimes(1);
+    expect(second.coalescedRequests).toBe(1);
+    expect(firstResults.map((result) => result.merchantName)).toEqual([
+      'DOMINOS PIZZA 123',
+    ]);
+    expect(secondResults.map((result) => result.merchantName)).toEqual([
+      'Dominos Pizza',
+    ]);
+    expect(secondResults[0].mccCode).toBe('5812');
+  });
+
+  it('answers from the cache without asking the model', async () => {
+    cache.findMany.mockResolvedValue([
+      {
+        merchantKey: 'DOMINOS PIZZA',
+        mccCode: '5814',
+        mccDescription: 'Fast Food Restaurants',
+        confidence: 0.95,
+        reasoning: null,
+        categoryName: 'Dining & Food Delivery',
+        subCategoryName: null,
+      },
+    ]);
+    const usage = stats();
+
+    const results = await discover(['DOMINOS PIZZA 42'], usage);
+
+    expect(discoverMCCCodes).not.toHaveBeenCalled();
+    expect(usage.cacheHits).toBe(1);
+    expect(results[0].mccCode).toBe('5814');
+  });
+
+  it('caches a result under the requested merchant, whatever name the model returns', async () => {
+    discoverMCCCodes.mockRestore();
+    jest
+      .spyOn(geminiAIService as never, 'buildMCCDiscoveryPrompt')
+      .mockResolvedValue('prompt' as never);
+    jest
+      .spyOn(geminiAIService as never, 'generateValidatedJson')
+      .mockResolvedValue({
+        json: { results: [{ ...aiResult('Amazon'), merchantIndex: 1 }] },
+        repairedIssues: [],
+      } as never);
+
+    const results = await discover(['AMZN MKTP IN*123'], stats());
+
+    expect(results.map((result) => result.merchantName)).toEqual([
+      'AMZN MKTP IN*123',
+    ]);
+    expect(cache.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { merchantKey: 'AMZN MKTP IN123' } }),
+    );
+  });
+
+  describe('parseMCCDiscoveryResponse', () => {
+    const parse = (results: unknown[]) =>
+      geminiAIService['parseMCCDiscoveryResponse'](
+        { results },
+        ['AMZN MKTP IN*123', 'SWIGGY BANGALORE'],
+        [],
+      );
+
+    it('names each result after the merchant at its index', () => {
+      const parsed = parse([
+        { ...aiResult('Swiggy'), merchantIndex: 2 },
+        { ...aiResult('Amazon'), merchantIndex: 1 },
+      ]);
+
+      expect(parsed.results.map((result) => result.merchantName)).toEqual([
+        'SWIGGY BANGALORE',
+        'AMZN MKTP IN*123',
+      ]);
+      expect(parsed.failed).toBe(0);
+    });
+
+    it('drops results for unknown or already answered indexes', () => {
+      const parsed = parse([
+        { ...aiResult('Amazon'), merchantIndex: 1 },
+        { ...aiResult('Amazon again'), merchantIndex: 1 },
+        { ...aiResult('Flipkart'), merchantIndex: 3 },
+      ]);
+
+      expect(parsed.results).toHaveLength(1);
+      expect(parsed.failed).toBe(1);
+      expect(parsed.errors).toEqual([
+        'Result 2 dropped: merchantIndex 1 is not an unanswered merchant',
+        'Result 3 dropped: merchantIndex 3 is not an unanswered merchant',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { prisma } from '@/database/db';
+import { backgroundJobsService } from '@/shared/services/background-jobs.service';
+import { transactionExtractionService } from '@/shared/services/transaction-extraction.service';
+
+jest.mock('@/database/db', () => ({
+  prisma: {
+    statement: { findMany: jest.fn(), update: jest.fn() },
+    transaction: { findMany: jest.fn(), deleteMany: jest.fn() },
+    session: { updateMany: jest.fn() },
+    processingJob: { create: jest.fn() },
+    // Read by the config service on import; defaults apply when it finds nothing
+    appConfig: { findUnique: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  statement: { findMany: jest.Mock; update: jest.Mock };
+  transaction: { findMany: jest.Mock; deleteMany: jest.Mock };
+  session: { updateMany: jest.Mock };
+  processingJob: { create: jest.Mock };
+};
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const statement = (
+  id: string,
+  start: string,
+  end: string,
+  cardId = 'card_hdfc',
+) => ({
+  id,
+  issuerId: 'issuer_hdfc',
+  cardId,
+  billingPeriodStart: day(start),
+  billingPeriodEnd: day(end),
+});
+
+const row = (
+  id: string,
+  statementId: string,
+  date: string,
+  amount: number,
+  description: string,
+) => ({
+  id,
+  statementId,
+  date: day(date),
+  amount,
+  description,
+});
+
+describe('multi-statement sessions', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('deduplicateStatements', () => {
+    it('drops rows repeated by an overlapping statement of the same card', async () => {
+      db.statement.findMany.mockResolvedValue([
+        statement('aug', '2025-07-16', '2025-08-15'),
+        statement('sep', '2025-08-10', '2025-09-15'),
+      ]);
+      db.transaction.findMany.mockResolvedValue([
+        row('t1', 'aug', '2025-08-01', 1200, 'AMAZON PAY'),
+        row('t2', 'aug', '2025-08-12', 450, 'Swiggy*Order'),
+        row('t3', 'sep', '2025-08-12', 450, 'SWIGGY ORDER'),
+        row('t4', 'sep', '2025-09-02', 1800, 'BPCL FUEL'),
+      ]);
+
+      await expect(
+        transactionExtractionService.deduplicateStatements('session_1'),
+      ).resolves.toBe(1);
+
+      const removed = db.transaction.deleteMany.mock.calls[0][0].where.id.in;
+      expect(['t2', 't3']).toContain(removed[0]);
+      expect(removed).toHaveLength(1);
+      expect(db.statement.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps identical rows on statements of different cards', async () => {
+      db.statement.findMany.mockResolvedValue([
+        statement('hdfc', '2025-08-01', '2025-08-31'),
+        statement('sbi', '2025-08-01', '2025-08-31', 'card_sbi'),
+      ]);
+      db.transaction.findMany.mockResolvedValue([
+        row('t1', 'hdfc', '2025-08-12', 450, 'SWIGGY'),
+        row('t2', 'sbi', '2025-08-12', 450, 'SWIGGY'),
+      ]);
+
+      await expect(
+        transactionExtractionService.deduplicateStatements('session_1'),
+      ).resolves.toBe(0);
+      expect(db.transaction.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('keeps identical rows on back-to-back statements that do not overlap', async () => {
+      db.statement.findMany.mockResolvedValue([
+        statement('aug', '2025-07-16', '2025-08-15'),
+        statement('sep', '2025-08-16', '2025-09-15'),
+      ]);
+      db.transaction.findMany.mockResolvedValue([
+        row('t1', 'aug', '2025-08-01', 499, 'NETFLIX'),
+        row('t2', 'sep', '2025-09-01', 499, 'NETFLIX'),
+      ]);
+
+      await expect(
+        transactionExtractionService.deduplicateStatements('session_1'),
+      ).resolves.toBe(0);
+    });
+  });
+
+  describe('queueSessionAnalysisIfReady', () => {
+    const statuses = (...values: string[]) =>
+      db.statement.findMany.mockResolvedValue(
+        values.map((status) => ({ status })),
+      );
+
+    it.each(['queued', 'extracting', 'password_required'])(
+      'waits while a statement is %s',
+      async (pending) => {
+        statuses('extracted', pending);
+
+        await backgroundJobsService.queueSessionAnalysisIfReady('session_1');
+
+        expect(db.session.updateMany).not.toHaveBeenCalled();
+      },
+    );
+
+    it('queues the analysis once, for the job that claims the queued session', async () => {
+      statuses('extracted', 'skipped', 'failed');
+      db.session.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+      db.processingJob.create.mockResolvedValue({ id: 'job_1' });
+
+      await backgroundJobsService.queueSessionAnalysisIfReady('session_1');
+      await backgroundJobsService.queueSessionAnalysisIfReady('session_1');
+
+      expect(db.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session_1', status: 'queued' },
+        data: { status: 'categorizing' },
+      });
+      expect(db.processingJob.create).toHaveBeenCalledTimes(1);
+      expect(db.processingJob.create.mock.calls[0][0].data.jobType).toBe(
+        'categorization',
+      );
+    });
+
+    it('fails the session when no statement could be extracted', async () => {
+      statuses('failed', 'skipped');
+      const failSession = jest
+        .spyOn(backgroundJobsService['sessionService'], 'failSession')
+        .mockResolvedValue();
+
+      await backgroundJobsService.queueSessionAnalysisIfReady('session_1');
+
+      expect(failSession).toHaveBeenCalledWith(
+        'session_1',
+        'None of the uploaded statements could be processed',
+      );
+      expect(db.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
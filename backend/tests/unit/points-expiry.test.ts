@@ -0,0 +1,124 @@
+import { configService } from '@/shared/services/config.service';
+import { savingsCalculatorService } from '@/shared/services/savings-calculator.service';
+import type {
+  EnhancedCreditCard,
+  SpendingPattern,
+} from '@/shared/types/recommendation.types';
+
+const card = (rewardStructure: Record<string, unknown>) =>
+  ({
+    id: 'card_points',
+    name: 'Points Card',
+    rewardStructure: {
+      rewardType: 'points',
+      rewardCurrency: 'reward_points',
+      ...rewardStructure,
+    },
+    feeStructure: { joiningFee: 0, annualFee: 0 },
+    acceleratedRewards: [],
+  }) as unknown as EnhancedCreditCard;
+
+// One month of spend on a single shopping transaction
+const monthOfSpend = (amount: number): SpendingPattern[] => [
+  {
+    categoryName: 'Shopping',
+    totalSpent: amount,
+    transactionCount: 1,
+    averageTransaction: amount,
+    monthlyAverage: amount,
+    percentage: 100,
+    mccCodes: [],
+    merchants: ['AMAZON'],
+    transactions: [
+      {
+        date: new Date('2025-09-01T00:00:00.000Z'),
+        amount,
+        merchant: 'AMAZON',
+      },
+    ],
+  },
+];
+
+// 2 points per ₹100, redeemable at ₹0.25 each from 5,000 points, expiring after a year
+const expiringCard = card({
+  baseRewardRate: 2,
+  pointsExpiry: 12,
+  redemptionOptions: [
+    {
+      type: 'statement_credit',
+      description: 'Statement credit',
+      conversionRate: 0.25,
+      minimumPoints: 5000,
+    },
+  ],
+});
+
+describe('points expiry', () => {
+  beforeEach(() => {
+    jest.spyOn(configService, 'getPointValue').mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('forfeits earnings when points expire before reaching the minimum', async () => {
+    const analysis = await savingsCalculatorService.calculateCardSavings(
+      expiringCard,
+      monthOfSpend(10000),
+    );
+
+    expect(analysis.pointsExpiry).toEqual({
+      expiryMonths: 12,
+      minimumPoints: 5000,
+      monthlyPoints: 200,
+      balanceAtExpiry: 2400,
+      monthsToMinimum: 25,
+      atRisk: true,
+      forfeitedValue: 50,
+    });
+    expect(analysis.statementPeriodEarnings).toBe(0);
+  });
+
+  it('keeps earnings when the minimum is reached in time', async () => {
+    const analysis = await savingsCalculatorService.calculateCardSavings(
+      expiringCard,
+      monthOfSpend(30000),
+    );
+
+    expect(analysis.pointsExpiry?.atRisk).toBe(false);
+    expect(analysis.pointsExpiry?.forfeitedValue).toBe(0);
+    expect(analysis.statementPeriodEarnings).toBe(150);
+  });
+
+  it('reads validity and minimum from the points conversion without a catalog', async () => {
+    const analysis = await savingsCalculatorService.calculateCardSavings(
+      card({
+        baseRewardRate: 1,
+        pointsConversion: {
+          isApplicable: true,
+          conversionRate: 1,
+          minimumRedemption: 500,
+          validityMonths: 3,
+        },
+      }),
+      monthOfSpend(1000),
+    );
+
+    expect(analysis.pointsExpiry).toMatchObject({
+      expiryMonths: 3,
+      minimumPoints: 500,
+      balanceAtExpiry: 30,
+      atRisk: true,
+    });
+  });
+
+  it('skips the check for points that do not expire', async () => {
+    const analysis = await savingsCalculatorService.calculateCardSavings(
+      card({ baseRewardRate: 2 }),
+      monthOfSpend(10000),
+    );
+
+    expect(analysis.pointsExpiry).toBeUndefined();
+  });
+});
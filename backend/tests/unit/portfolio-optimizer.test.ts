@@ -0,0 +1,130 @@
+import { PORTFOLIO_SEARCH_LIMITS } from '@/shared/constants/recommendation.constants';
+import { configService } from '@/shared/services/config.service';
+import { portfolioOptimizerService } from '@/shared/services/portfolio-optimizer.service';
+import type {
+  EnhancedCreditCard,
+  SpendingPattern,
+} from '@/shared/types/recommendation.types';
+
+const pattern = (
+  categoryName: string,
+  merchant: string,
+  amount: number,
+): SpendingPattern => ({
+  categoryName,
+  totalSpent: amount,
+  transactionCount: 1,
+  averageTransaction: amount,
+  monthlyAverage: amount,
+  percentage: 25,
+  mccCodes: [],
+  merchants: [merchant],
+  transactions: [
+    { date: new Date('2025-09-10T00:00:00.000Z'), amount, merchant },
+  ],
+});
+
+// A fee-free cashback card earning 10% in one category and 1% elsewhere
+const card = (id: string, categoryName?: string) =>
+  ({
+    id,
+    name: `Card ${id}`,
+    rewardStructure: {
+      rewardType: 'cashback',
+      rewardCurrency: 'statement_credit',
+      baseRewardRate: 1,
+    },
+    feeStructure: { joiningFee: 0, annualFee: 0 },
+    acceleratedRewards: categoryName
+      ? [
+          {
+            id: `reward_${id}`,
+            rewardCategory: { id: `reward_cat_${id}`, name: categoryName },
+            merchantPatterns: [],
+            rewardRate: 10,
+            conditions: [],
+            description: `10% on ${categoryName}`,
+          },
+        ]
+      : [],
+  }) as unknown as EnhancedCreditCard;
+
+const cards = [
+  card('dining', 'Dining'),
+  card('travel', 'Travel'),
+  card('fuel', 'Fuel'),
+  card('groceries', 'Groceries'),
+];
+
+const patterns = [
+  pattern('Dining', 'SWIGGY', 4000),
+  pattern('Travel', 'MAKEMYTRIP', 3000),
+  pattern('Fuel', 'BPCL', 2000),
+  pattern('Groceries', 'BIGBASKET', 1000),
+];
+
+describe('portfolioOptimizerService', () => {
+  beforeEach(() => {
+    jest.spyOn(configService, 'getPointValue').mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('routes each category to the card that earns most on it', async () => {
+    const result = await portfolioOptimizerService.optimize(cards, patterns, {
+      annualizationFactor: 12,
+    });
+
+    expect(result.bestSingleCard?.cardId).toBe('dining');
+    expect(result.portfolio?.cards.map((value) => value.cardId)).toEqual([
+      'dining',
+      'travel',
+      'fuel',
+    ]);
+    expect(
+      result.portfolio?.routing.map((route) => [
+        route.categoryName,
+        route.cardId,
+      ]),
+    ).toEqual([
+      ['Dining', 'dining'],
+      ['Travel', 'travel'],
+      ['Fuel', 'fuel'],
+      ['Groceries', 'dining'],
+    ]);
+    expect(result.portfolio?.gainOverBestSingleCard).toBeCloseTo(
+      (270 + 180) * 12,
+    );
+  });
+
+  it('keeps to the requested number of cards', async () => {
+    const result = await portfolioOptimizerService.optimize(cards, patterns, {
+      annualizationFactor: 12,
+      maxCards: 2,
+    });
+
+    expect(result.portfolio?.cards.map((value) => value.cardId)).toEqual([
+      'dining',
+      'travel',
+    ]);
+  });
+
+  it.each([NaN, Infinity])(
+    'searches at most MAX_CARDS cards for maxCards %s',
+    async (maxCards) => {
+      const result = await portfolioOptimizerService.optimize(cards, patterns, {
+        annualizationFactor: 12,
+        maxCards,
+      });
+
+      expect(
+        [result.portfolio!, ...result.alternatives].every(
+          (portfolio) =>
+            portfolio.cards.length <= PORTFOLIO_SEARCH_LIMITS.MAX_CARDS,
+        ),
+      ).toBe(true);
+    },
+  );
+});
@@ -0,0 +1,143 @@
+import {
+  RedemptionStyle,
+  RedemptionType,
+} from '@/shared/constants/recommendation.constants';
+import { configService } from '@/shared/services/config.service';
+import { redemptionCatalogService } from '@/shared/services/redemption-catalog.service';
+import { savingsCalculatorService } from '@/shared/services/savings-calculator.service';
+import type {
+  EnhancedCreditCard,
+  RedemptionOption,
+} from '@/shared/types/recommendation.types';
+
+const card = (redemptionOptions?: unknown[]) =>
+  ({
+    id: 'card_points',
+    name: 'Points Card',
+    rewardStructure: {
+      rewardType: 'points',
+      rewardCurrency: 'reward_points',
+      baseRewardRate: 2,
+      redemptionOptions,
+    },
+  }) as unknown as EnhancedCreditCard;
+
+const statementCredit: RedemptionOption = {
+  type: RedemptionType.STATEMENT_CREDIT,
+  description: 'Statement credit',
+  conversionRate: 0.25,
+  minimumPoints: 500,
+};
+
+const vouchers: RedemptionOption = {
+  type: RedemptionType.VOUCHERS,
+  description: 'Shopping vouchers',
+  conversionRate: 0.3,
+  fee: 99,
+};
+
+const airMiles: RedemptionOption = {
+  type: RedemptionType.AIR_MILES,
+  description: 'Transfer to airline partners',
+  conversionRate: 0.5,
+  partnerUnitValue: 1,
+  transferPartners: ['Air India', 'Singapore Airlines'],
+  minimumPoints: 2000,
+};
+
+describe('redemptionCatalogService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('valueOption', () => {
+    it('spreads a redemption fee over the assumed batch of points', () => {
+      expect(redemptionCatalogService.valueOption(vouchers)).toBeCloseTo(
+        0.3 - 99 / 1000,
+      );
+    });
+
+    it('spreads the fee over the minimum when it is larger than the batch', () => {
+      expect(
+        redemptionCatalogService.valueOption({
+          ...airMiles,
+          fee: 200,
+          minimumPoints: 4000,
+        }),
+      ).toBeCloseTo(0.5 - 200 / 4000);
+    });
+
+    it('values transfers at the partner unit value', () => {
+      expect(
+        redemptionCatalogService.valueOption({
+          ...airMiles,
+          partnerUnitValue: 0.8,
+        }),
+      ).toBeCloseTo(0.4);
+    });
+  });
+
+  describe('selectBestPath', () => {
+    const catalogCard = card([statementCredit, vouchers, airMiles]);
+
+    it('keeps cash-like users to cash-like options', () => {
+      expect(redemptionCatalogService.selectBestPath(catalogCard)).toEqual({
+        style: RedemptionStyle.CASH_LIKE,
+        type: RedemptionType.STATEMENT_CREDIT,
+        description: 'Statement credit',
+        valuePerPoint: 0.25,
+        minimumPoints: 500,
+        transferPartners: undefined,
+      });
+    });
+
+    it('lets travel maximizers take the best transfer', () => {
+      const path = redemptionCatalogService.selectBestPath(
+        catalogCard,
+        RedemptionStyle.TRAVEL_MAXIMIZER,
+      );
+
+      expect(path?.type).toBe(RedemptionType.AIR_MILES);
+      expect(path?.valuePerPoint).toBe(0.5);
+      expect(path?.transferPartners).toEqual([
+        'Air India',
+        'Singapore Airlines',
+      ]);
+    });
+
+    it('ignores catalog entries without a conversion rate', () => {
+      expect(
+        redemptionCatalogService.selectBestPath(
+          card([{ type: 'cashback', description: 'Cashback' }]),
+        ),
+      ).toBeNull();
+      expect(redemptionCatalogService.selectBestPath(card())).toBeNull();
+    });
+  });
+
+  describe('card point value', () => {
+    it('comes from the best path for the redemption style', async () => {
+      const getPointValue = jest.spyOn(configService, 'getPointValue');
+      const catalogCard = card([statementCredit, airMiles]);
+
+      await expect(
+        savingsCalculatorService.getCardPointValue(catalogCard),
+      ).resolves.toBe(0.25);
+      await expect(
+        savingsCalculatorService.getCardPointValue(
+          catalogCard,
+          RedemptionStyle.TRAVEL_MAXIMIZER,
+        ),
+      ).resolves.toBe(0.5);
+      expect(getPointValue).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the configured currency value without a catalog', async () => {
+      jest.spyOn(configService, 'getPointValue').mockResolvedValue(0.2);
+
+      await expect(
+        savingsCalculatorService.getCardPointValue(card()),
+      ).resolves.toBe(0.2);
+    });
+  });
+});
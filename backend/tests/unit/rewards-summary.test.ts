@@ -0,0 +1,159 @@
+import { prisma } from '@/database/db';
+import { geminiAIService } from '@/shared/services/gemini-ai.service';
+import { recommendationService } from '@/shared/services/recommendation.service';
+import { savingsCalculatorService } from '@/shared/services/savings-calculator.service';
+import { transactionExtractionService } from '@/shared/services/transaction-extraction.service';
+import type { RecommendationCriteria } from '@/shared/types/recommendation.types';
+
+jest.mock('@/database/db', () => ({
+  prisma: {
+    statement: { findMany: jest.fn(), update: jest.fn() },
+    appConfig: { findUnique: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  statement: { findMany: jest.Mock; update: jest.Mock };
+};
+
+// A catalog card as Prisma returns it, with the relations recommendations read
+const dbCard = (id: string) => ({
+  id,
+  name: id,
+  issuer: { name: 'HDFC Bank' },
+  network: { name: 'Visa' },
+  customerSatisfactionScore: 4,
+  rewardStructure: {},
+  acceleratedRewards: [],
+});
+
+const criteria: RecommendationCriteria = {
+  totalSpending: 20000,
+  monthlySpending: 20000,
+  topCategories: [],
+};
+
+describe('statement rewards summary', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('AI extraction', () => {
+    const parse = (rewardsSummary: unknown) =>
+      geminiAIService['parseTransactionExtractionResponse'](
+        {
+          transactions: [],
+          confidence: 0.9,
+          cardVariant: '  Regalia Gold ',
+          rewardsSummary,
+        },
+        [],
+      );
+
+    it('reads printed figures, including ones with thousands separators', () => {
+      const result = parse({
+        openingPoints: '12,400',
+        pointsEarned: 860,
+        pointsRedeemed: null,
+        closingPoints: 13260,
+      });
+
+      expect(result.rewardsSummary).toEqual({
+        openingPoints: 12400,
+        pointsEarned: 860,
+        closingPoints: 13260,
+      });
+      expect(result.cardVariant).toBe('Regalia Gold');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('drops an invalid figure with a warning and keeps the rest', () => {
+      const result = parse({ pointsEarned: -20, cashbackCredited: 150 });
+
+      expect(result.rewardsSummary).toEqual({ cashbackCredited: 150 });
+      expect(result.warnings).toEqual([
+        expect.stringMatching(/^rewardsSummary\.pointsEarned dropped: /),
+      ]);
+    });
+
+    it('drops a summary that is not an object', () => {
+      const result = parse(['860 points']);
+
+      expect(result.rewardsSummary).toBeUndefined();
+      expect(result.warnings).toEqual([
+        'rewardsSummary dropped: expected an object',
+      ]);
+    });
+  });
+
+  it('stores the summary and card variant on the statement', async () => {
+    await transactionExtractionService['storeRewardsSummary'](
+      'statement_1',
+      { pointsEarned: 860, closingPoints: 13260 },
+      'Regalia Gold',
+    );
+
+    expect(db.statement.update).toHaveBeenCalledWith({
+      where: { id: 'statement_1' },
+      data: {
+        cardVariant: 'Regalia Gold',
+        rewardsOpeningPoints: null,
+        rewardsPointsEarned: 860,
+        rewardsPointsRedeemed: null,
+        rewardsClosingPoints: 13260,
+        cashbackCredited: null,
+      },
+    });
+  });
+
+  describe('reported earnings', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(savingsCalculatorService, 'getCardPointValue')
+        .mockResolvedValue(0.5);
+    });
+
+    it('values points earned and adds cashback credited across statements', async () => {
+      db.statement.findMany.mockResolvedValue([
+        {
+          cardId: 'card_hdfc',
+          rewardsPointsEarned: 860,
+          cashbackCredited: null,
+        },
+        { cardId: 'card_hdfc', rewardsPointsEarned: 400, cashbackCredited: 25 },
+      ]);
+
+      const reported = await recommendationService['getReportedEarnings'](
+        'session_1',
+        [dbCard('card_hdfc')],
+        criteria,
+      );
+
+      expect(reported.get('card_hdfc')).toBe(860 * 0.5 + 400 * 0.5 + 25);
+    });
+
+    it('reports nothing for a card with a statement that printed no summary', async () => {
+      db.statement.findMany.mockResolvedValue([
+        {
+          cardId: 'card_hdfc',
+          rewardsPointsEarned: 860,
+          cashbackCredited: null,
+        },
+        {
+          cardId: 'card_hdfc',
+          rewardsPointsEarned: null,
+          cashbackCredited: null,
+        },
+      ]);
+
+      const reported = await recommendationService['getReportedEarnings'](
+        'session_1',
+        [dbCard('card_hdfc'), dbCard('card_sbi')],
+        criteria,
+      );
+
+      expect(reported.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,741 @@
+import { configService } from '@/shared/services/config.service';
+import { savingsCalculatorService } from '@/shared/services/savings-calculator.service';
+import type {
+  EnhancedCreditCard,
+  PatternTransaction,
+  SpendingPattern,
+} from '@/shared/types/recommendation.types';
+
+const transaction = (
+  date: string,
+  amount: number,
+  merchant = 'SWIGGY',
+): PatternTransaction => ({
+  date: new Date(`${date}T00:00:00.000Z`),
+  amount,
+  merchant,
+});
+
+const pattern = (
+  categoryName: string,
+  transactions: PatternTransaction[],
+): SpendingPattern => {
+  const totalSpent = transactions.reduce((sum, t) => sum + t.amount, 0);
+  return {
+    categoryName,
+    totalSpent,
+    transactionCount: transactions.length,
+    averageTransaction: totalSpent / transactions.length,
+    monthlyAverage: totalSpent,
+    percentage: 100,
+    mccCodes: [],
+    merchants: transactions.map((t) => t.merchant ?? ''),
+    transactions,
+  };
+};
+
+// A cashback card earning 1% by default, with accelerated rewards on top
+const card = (acceleratedRewards: Record<string, unknown>[], extra = {}) =>
+  ({
+    id: 'card_test',
+    name: 'Test Card',
+    rewardStructure: {
+      rewardType: 'cashback',
+      rewardCurrency: 'statement_credit',
+      baseRewardRate: 1,
+    },
+    feeStructure: { joiningFee: 0, annualFee: 0 },
+    acceleratedRewards,
+    ...extra,
+  }) as unknown as EnhancedCreditCard;
+
+const diningReward = (extra = {}) => ({
+  id: 'reward_dining',
+  rewardCategory: { id: 'reward_cat_dining', name: 'Dining' },
+  merchantPatterns: [],
+  rewardRate: 10,
+  conditions: [],
+  description: '10% on dining',
+  ...extra,
+});
+
+describe('savingsCalculatorService', () => {
+  beforeEach(() => {
+    // One reward unit is worth one rupee
+    jest.spyOn(configService, 'getPointValue').mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('per-transaction limits', () => {
+    it('caps the reward on a single transaction', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        card([diningReward({ maxRewardPerTransaction: 150 })]),
+        [
+          pattern('Dining', [
+            transaction('2025-09-01', 1000),
+            transaction('2025-09-02', 4000),
+          ]),
+        ],
+      );
+
+      expect(ledger.map((entry) => [entry.earnings, entry.capped])).toEqual([
+        [100, false],
+        [150, true],
+      ]);
+      expect(ledger[1].uncappedEarnings).toBe(400);
+    });
+
+    it('falls back to the base rate below the minimum amount', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        card([diningReward({ minTransactionAmount: 500 })]),
+        [
+          pattern('Dining', [
+            transaction('2025-09-01', 499),
+            transaction('2025-09-02', 500),
+          ]),
+        ],
+      );
+
+      expect(
+        ledger.map((entry) => [
+          entry.rewardDescription,
+          entry.earnRate,
+          entry.earnings,
+        ]),
+      ).toEqual([
+        [undefined, 1, 4.99],
+        ['10% on dining', 10, 50],
+      ]);
+    });
+
+    it('tries the next reward when a transaction is below the minimum', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        card([
+          diningReward({ minTransactionAmount: 500 }),
+          diningReward({
+            id: 'reward_dining_small',
+            rewardRate: 5,
+            description: '5% on dining',
+            rewardCategory: { id: 'reward_cat_food', name: 'Food' },
+          }),
+        ]),
+        [pattern('Dining', [transaction('2025-09-01', 200)])],
+      );
+
+      expect(ledger[0].rewardDescription).toBe('5% on dining');
+      expect(ledger[0].earnings).toBe(10);
+    });
+  });
+
+  describe('capping periods', () => {
+    const cappedDining = (cappingPeriod: string) =>
+      card([diningReward({ cappingLimit: 100, cappingPeriod })]);
+
+    it('applies a monthly cap once per month', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        cappedDining('monthly'),
+        [
+          pattern('Dining', [
+            transaction('2025-08-05', 800),
+            transaction('2025-08-20', 800),
+            transaction('2025-09-05', 800),
+          ]),
+        ],
+      );
+
+      expect(
+        ledger.map((entry) => [entry.periodKey, entry.earnings, entry.capped]),
+      ).toEqual([
+        ['2025-08', 80, false],
+        ['2025-08', 20, true],
+        ['2025-09', 80, false],
+      ]);
+    });
+
+    it('buckets caps by billing cycle when the start day is known', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        cappedDining('monthly'),
+        [
+          pattern('Dining', [
+            transaction('2025-08-20', 800),
+            transaction('2025-09-10', 800),
+          ]),
+        ],
+        { billingCycleStartDay: 15 },
+      );
+
+      expect(ledger.map((entry) => [entry.periodKey, entry.earnings])).toEqual([
+        ['2025-08', 80],
+        ['2025-08', 20],
+      ]);
+    });
+
+    it('caps each merchant separately for per-merchant periods', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        cappedDining('quarterly_per_merchant'),
+        [
+          pattern('Dining', [
+            transaction('2025-07-05', 1500, 'SWIGGY'),
+            transaction('2025-08-05', 1500, 'ZOMATO'),
+            transaction('2025-09-05', 500, 'SWIGGY'),
+          ]),
+        ],
+      );
+
+      expect(ledger.map((entry) => entry.earnings)).toEqual([100, 100, 0]);
+      expect(ledger[0].cappingPeriod).toBe('quarterly');
+    });
+
+    it('reports capped and uncapped earnings per period', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        cappedDining('monthly'),
+        [
+          pattern('Dining', [
+            transaction('2025-08-05', 800),
+            transaction('2025-08-20', 800),
+            transaction('2025-09-05', 800),
+          ]),
+        ],
+      );
+      const [dining] = analysis.categoryBreakdown;
+
+      expect(
+        dining.periodBreakdown?.map((period) => [
+          period.periodKey,
+          period.uncappedEarnings,
+          period.cappedEarnings,
+          period.capReached,
+        ]),
+      ).toEqual([
+        ['2025-08', 160, 100, true],
+        ['2025-09', 80, 80, false],
+      ]);
+      expect(dining.uncappedEarnings).toBe(240);
+      expect(analysis.statementPeriodEarnings).toBe(180);
+    });
+  });
+
+  describe('reward conditions', () => {
+    // A Prime-only rate with a lower rate for everyone else, as on Amazon Pay ICICI
+    const primeCard = card([
+      diningReward({
+        id: 'reward_prime',
+        rewardRate: 5,
+        conditions: ['amazon_prime_membership'],
+        description: '5% for Prime members',
+      }),
+      diningReward({
+        id: 'reward_non_prime',
+        rewardRate: 3,
+        conditions: ['non_prime_members_only'],
+        description: '3% without Prime',
+      }),
+    ]);
+    const dining = [pattern('Dining', [transaction('2025-09-01', 1000)])];
+
+    it('earns the conditional rate when the profile meets it', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        primeCard,
+        dining,
+        { userProfile: { memberships: ['amazon_prime'] } },
+      );
+
+      expect(ledger[0].rewardDescription).toBe('5% for Prime members');
+      expect(ledger[0].earnings).toBe(50);
+    });
+
+    it('falls back to the next reward and reports the unmet condition', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        primeCard,
+        dining,
+      );
+
+      expect(analysis.statementPeriodEarnings).toBe(30);
+      expect(
+        analysis.unmetConditions.map((unmet) => [
+          unmet.rewardDescription,
+          unmet.condition,
+        ]),
+      ).toEqual([['5% for Prime members', 'amazon_prime_membership']]);
+    });
+
+    it('applies a weekend-only rate to weekend transactions alone', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        card([diningReward({ conditions: ['weekend_only'] })]),
+        [
+          pattern('Dining', [
+            transaction('2025-09-05', 1000),
+            transaction('2025-09-06', 1000),
+          ]),
+        ],
+      );
+
+      expect(ledger.map((entry) => [entry.earnRate, entry.earnings])).toEqual([
+        [1, 10],
+        [10, 100],
+      ]);
+    });
+
+    it('skips a reward whose monthly spend condition is not met', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        card([diningReward({ conditions: ['monthly_spend_above_150k'] })]),
+        dining,
+      );
+
+      expect(analysis.statementPeriodEarnings).toBe(10);
+      expect(analysis.unmetConditions[0].condition).toBe(
+        'monthly_spend_above_150k',
+      );
+    });
+  });
+
+  describe('milestone benefits', () => {
+    const milestone = (
+      benefitName: string,
+      condition: string,
+      benefitValue: string,
+      benefitCurrency = 'INR',
+    ) => ({
+      benefitType: 'milestone',
+      benefitName,
+      benefitValue,
+      benefitCurrency,
+      description: benefitName,
+      conditions: [condition],
+    });
+    const milestoneCard = (...benefits: ReturnType<typeof milestone>[]) =>
+      card([], {
+        additionalBenefits: [
+          {
+            categoryId: 'milestone_benefits',
+            categoryName: 'Milestone Benefits',
+            benefits,
+          },
+        ],
+      });
+    // ₹40,000 a month projects to ₹1.2 lakh a quarter and ₹4.8 lakh a year
+    const monthOfSpend = [
+      pattern('Shopping', [transaction('2025-09-01', 40000, 'AMAZON')]),
+    ];
+
+    it('counts a reached milestone once per period, prorated to the statement', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        milestoneCard(
+          milestone('Quarterly voucher', 'quarterly_spend_100k', '1000'),
+        ),
+        monthOfSpend,
+      );
+
+      expect(analysis.milestones[0]).toMatchObject({
+        period: 'quarterly',
+        spendThreshold: 100000,
+        projectedPeriodSpend: 120000,
+        occurrencesPerYear: 4,
+        annualValue: 4000,
+        reached: true,
+      });
+      expect(analysis.milestoneValue).toBeCloseTo(4000 / 12);
+      expect(analysis.statementPeriodEarnings).toBeCloseTo(400 + 4000 / 12);
+    });
+
+    it('reports the shortfall to the closest unreached milestone', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        milestoneCard(
+          milestone('Annual bonus', 'annual_spend_10l', '10000'),
+          milestone('Monthly bonus', 'monthly_spend_50k', '500'),
+        ),
+        monthOfSpend,
+      );
+
+      expect(analysis.milestoneValue).toBe(0);
+      expect(
+        analysis.milestones.map((item) => [item.benefitName, item.shortfall]),
+      ).toEqual([
+        ['Annual bonus', 520000],
+        ['Monthly bonus', 10000],
+      ]);
+      expect(analysis.nextMilestone?.benefitName).toBe('Monthly bonus');
+    });
+
+    it('values bonus points at the card point value', async () => {
+      jest.spyOn(configService, 'getPointValue').mockResolvedValue(0.25);
+
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        milestoneCard(
+          milestone(
+            'Bonus points',
+            'monthly_spend_20k',
+            '2000',
+            'reward_points',
+          ),
+        ),
+        monthOfSpend,
+      );
+
+      expect(analysis.milestones[0].valuePerOccurrence).toBe(500);
+      expect(analysis.milestoneValue).toBe(500);
+    });
+  });
+
+  describe('annual fee waivers', () => {
+    const feeCard = (feeWaiverCriteria?: object, extra = {}) =>
+      card([], {
+        feeStructure: {
+          joiningFee: 500,
+          annualFee: 500,
+          feeWaiverCriteria,
+        },
+        ...extra,
+      });
+    const spendBased = {
+      type: 'spend_based',
+      annualSpendRequired: 200000,
+      waiverPeriod: 'annual',
+    };
+
+    it('waives the fee when projected spend reaches the threshold', () => {
+      expect(
+        savingsCalculatorService.evaluateFeeWaiver(feeCard(spendBased), 250000),
+      ).toEqual({
+        waiverType: 'spend_based',
+        annualSpendRequired: 200000,
+        projectedAnnualSpending: 250000,
+        waived: true,
+        shortfall: 0,
+      });
+    });
+
+    it('reports the shortfall when projected spend falls short', () => {
+      const status = savingsCalculatorService.evaluateFeeWaiver(
+        feeCard(spendBased),
+        150000,
+      );
+
+      expect(status.waived).toBe(false);
+      expect(status.shortfall).toBe(50000);
+    });
+
+    it('treats lifetime-free cards as waived and cards without criteria as not', () => {
+      expect(
+        savingsCalculatorService.evaluateFeeWaiver(
+          feeCard(undefined, { isLifetimeFree: true }),
+          0,
+        ).waived,
+      ).toBe(true);
+      expect(
+        savingsCalculatorService.evaluateFeeWaiver(feeCard(), 1000000),
+      ).toMatchObject({ waiverType: 'no_waiver', waived: false, shortfall: 0 });
+    });
+
+    it('drops the effective annual fee for a waived card', async () => {
+      const spend = [
+        pattern('Shopping', [transaction('2025-09-01', 20000, 'AMAZON')]),
+      ];
+
+      const waived = await savingsCalculatorService.calculateCardSavings(
+        feeCard(spendBased),
+        spend,
+      );
+      const charged = await savingsCalculatorService.calculateCardSavings(
+        feeCard(spendBased),
+        spend,
+        undefined,
+        { projectedAnnualSpending: 100000 },
+      );
+
+      expect([waived.effectiveAnnualFee, charged.effectiveAnnualFee]).toEqual([
+        0, 500,
+      ]);
+    });
+  });
+
+  describe('fuel surcharge waiver and foreign markup', () => {
+    const fuel = (date: string, amount: number): PatternTransaction => ({
+      ...transaction(date, amount, 'BPCL PETROL PUMP'),
+      mccCode: '5541',
+    });
+    const feeCard = card([], {
+      feeStructure: {
+        joiningFee: 0,
+        annualFee: 0,
+        foreignMarkupFee: 2,
+        fuelSurchargeWaiver: {
+          isAvailable: true,
+          waiverPercentage: 1,
+          minTransaction: 400,
+          maxTransaction: 5000,
+          maxWaiverPerCycle: 50,
+        },
+      },
+    });
+
+    it('waives the surcharge on eligible fuel spend, capped per cycle', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        feeCard,
+        [
+          pattern('Fuel', [
+            fuel('2025-08-02', 300),
+            fuel('2025-08-10', 4000),
+            fuel('2025-08-20', 4000),
+            fuel('2025-09-05', 4000),
+            fuel('2025-09-12', 6000),
+          ]),
+        ],
+      );
+
+      expect(analysis.feeAdjustments).toEqual([
+        {
+          type: 'fuel_surcharge_waiver',
+          label: 'Fuel surcharge waiver',
+          rate: 1,
+          spentAmount: 12000,
+          transactionCount: 3,
+          value: 90,
+          capPerCycle: 50,
+        },
+      ]);
+    });
+
+    it('charges the markup on foreign-currency spend against earnings', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        feeCard,
+        [
+          pattern('Travel', [
+            {
+              ...transaction('2025-09-01', 10000, 'BOOKING.COM'),
+              isForeign: true,
+            },
+            transaction('2025-09-02', 5000, 'MAKEMYTRIP'),
+          ]),
+        ],
+      );
+
+      expect(analysis.feeAdjustments).toEqual([
+        expect.objectContaining({
+          type: 'foreign_markup',
+          spentAmount: 10000,
+          transactionCount: 1,
+          value: -200,
+        }),
+      ]);
+      // 1% base earnings on ₹15,000 less the markup
+      expect(analysis.statementPeriodEarnings).toBe(150 - 200);
+    });
+  });
+
+  describe('reward exclusions', () => {
+    const excludingCard = (excludedCategories: object[]) =>
+      card([], {
+        rewardStructure: {
+          rewardType: 'cashback',
+          rewardCurrency: 'statement_credit',
+          baseRewardRate: 1,
+          excludedCategories,
+        },
+      });
+    const fuelAndRent = [
+      { categoryId: 'fuel_transactions', description: 'Fuel spends' },
+      { categoryId: 'rent_payments', description: 'Rent payments' },
+    ];
+
+    it('excludes transactions by MCC and merchant pattern from the default rules', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        excludingCard(fuelAndRent),
+        [
+          pattern('Bills', [
+            {
+              ...transaction('2025-09-01', 2000, 'HPCL FUEL STATION'),
+              mccCode: '5541',
+            },
+            transaction('2025-09-02', 25000, 'NOBROKER RENT'),
+            transaction('2025-09-03', 1000, 'AIRTEL POSTPAID'),
+          ]),
+        ],
+      );
+
+      expect(
+        ledger.map((entry) => [
+          entry.excluded,
+          entry.exclusionReason,
+          entry.earnings,
+        ]),
+      ).toEqual([
+        [true, 'Fuel spends', 0],
+        [true, 'Rent payments', 0],
+        [false, undefined, 10],
+      ]);
+    });
+
+    it('uses matchers given on the rule instead of the defaults', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        excludingCard([
+          {
+            categoryId: 'wallet_loads',
+            description: 'Wallet loads',
+            merchantPatterns: ['paytm wallet'],
+          },
+        ]),
+        [
+          pattern('Wallets', [
+            transaction('2025-09-01', 1000, 'PAYTM WALLET'),
+            transaction('2025-09-02', 1000, 'ADD MONEY PHONEPE'),
+          ]),
+        ],
+      );
+
+      expect(ledger.map((entry) => entry.excluded)).toEqual([true, false]);
+    });
+
+    it('summarizes excluded spend by reason', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        excludingCard(fuelAndRent),
+        [
+          pattern('Rent', [
+            transaction('2025-09-02', 20000, 'NOBROKER RENT'),
+            transaction('2025-09-20', 5000, 'NOBROKER RENT'),
+          ]),
+          pattern('Dining', [transaction('2025-09-05', 1000)]),
+        ],
+      );
+
+      expect(analysis.excludedSpend).toEqual([
+        { reason: 'Rent payments', spentAmount: 25000, transactionCount: 2 },
+      ]);
+      expect(
+        analysis.categoryBreakdown.map((category) => [
+          category.categoryName,
+          category.excludedSpend,
+        ]),
+      ).toEqual([
+        ['Rent', 25000],
+        ['Dining', 0],
+      ]);
+      expect(analysis.statementPeriodEarnings).toBe(10);
+    });
+
+    it('earns the base rate on spend an accelerated reward excludes', async () => {
+      const ledger = await savingsCalculatorService.simulateTransactions(
+        card([
+          diningReward({
+            exclusions: [
+              { categoryId: 'alcohol', merchantPatterns: ['liquor'] },
+            ],
+          }),
+        ]),
+        [
+          pattern('Dining', [
+            transaction('2025-09-01', 1000, 'CITY LIQUOR LOUNGE'),
+            transaction('2025-09-02', 1000),
+          ]),
+        ],
+      );
+
+      expect(ledger.map((entry) => [entry.excluded, entry.earnRate])).toEqual([
+        [false, 1],
+        [false, 10],
+      ]);
+    });
+
+    it('excludes a whole category without transaction detail only when every MCC is excluded', async () => {
+      const aggregate = (mccCodes: string[]): SpendingPattern => ({
+        ...pattern('Fuel', [transaction('2025-09-01', 3000)]),
+        mccCodes,
+        transactions: [],
+      });
+
+      const excluded = await savingsCalculatorService.calculateCardSavings(
+        excludingCard(fuelAndRent),
+        [aggregate(['5541', '5542'])],
+      );
+      const mixed = await savingsCalculatorService.calculateCardSavings(
+        excludingCard(fuelAndRent),
+        [aggregate(['5541', '5411'])],
+      );
+
+      expect(excluded.excludedSpend).toEqual([
+        { reason: 'Fuel spends', spentAmount: 3000, transactionCount: 1 },
+      ]);
+      expect(excluded.statementPeriodEarnings).toBe(0);
+      expect(mixed.excludedSpend).toEqual([]);
+      expect(mixed.statementPeriodEarnings).toBe(30);
+    });
+  });
+
+  describe('comparison with an owned card', () => {
+    const owned = card([], { id: 'card_owned', name: 'Owned Card' });
+    const spend = [
+      pattern('Dining', [transaction('2025-09-01', 2000)]),
+      pattern('Groceries', [transaction('2025-09-02', 3000, 'BIGBASKET')]),
+    ];
+
+    it('reports the gain over the owned card with per-category figures', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        card([diningReward()]),
+        spend,
+        owned,
+      );
+
+      expect(analysis).toMatchObject({
+        baselineCardId: 'card_owned',
+        baselineEarnings: 50,
+        statementPeriodEarnings: 230,
+        incrementalEarnings: 180,
+      });
+      expect(
+        analysis.categoryBreakdown.map((category) => [
+          category.categoryName,
+          category.baselineEarnRate,
+          category.baselineEarnings,
+        ]),
+      ).toEqual([
+        ['Dining', 1, 20],
+        ['Groceries', 1, 30],
+      ]);
+    });
+
+    it('counts what the owned card earns beyond rewards, such as milestones', async () => {
+      const ownedWithMilestone = card([], {
+        id: 'card_owned',
+        additionalBenefits: [
+          {
+            categoryId: 'milestone_benefits',
+            categoryName: 'Milestone Benefits',
+            benefits: [
+              {
+                benefitType: 'milestone',
+                benefitName: 'Monthly voucher',
+                benefitValue: '500',
+                benefitCurrency: 'INR',
+                description: 'Monthly voucher',
+                conditions: ['monthly_spend_5k'],
+              },
+            ],
+          },
+        ],
+      });
+
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        card([diningReward()]),
+        spend,
+        ownedWithMilestone,
+      );
+
+      expect(analysis.baselineEarnings).toBe(550);
+      expect(analysis.incrementalEarnings).toBe(-320);
+    });
+
+    it('leaves the analysis alone when the card is the one already held', async () => {
+      const analysis = await savingsCalculatorService.calculateCardSavings(
+        owned,
+        spend,
+        owned,
+      );
+
+      expect(analysis.baselineCardId).toBeUndefined();
+      expect(analysis.incrementalEarnings).toBeUndefined();
+    });
+  });
+});
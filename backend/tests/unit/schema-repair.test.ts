@@ -0,0 +1,121 @@
+import { aiUsageService } from '@/shared/services/ai-usage.service';
+import { geminiAIService } from '@/shared/services/gemini-ai.service';
+import {
+  LLMProvider,
+  llmProviderService,
+} from '@/shared/services/llm-provider.service';
+
+const row = (merchant: string, amount: unknown) => ({
+  date: '2025-09-01',
+  merchant,
+  amount,
+  type: 'debit',
+  confidence: 0.9,
+});
+
+const reply = (json: object | string) => ({
+  text: typeof json === 'string' ? json : JSON.stringify(json),
+});
+
+describe('AI response validation and repair', () => {
+  let generate: jest.Mock;
+
+  beforeEach(() => {
+    generate = jest.fn();
+    const provider: LLMProvider = { type: 'gemini', model: 'test', generate };
+    jest.spyOn(llmProviderService, 'getProvider').mockReturnValue(provider);
+    jest.spyOn(aiUsageService, 'reserveTokens').mockResolvedValue(0);
+    jest.spyOn(aiUsageService, 'record').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const extract = () =>
+    geminiAIService.extractTransactions('01/09/2025 AMAZON 1,200.00');
+
+  it('accepts a valid response without a repair', async () => {
+    generate.mockResolvedValueOnce(
+      reply({ transactions: [row('AMAZON', 1200)], confidence: 0.9 }),
+    );
+
+    const result = await extract();
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(result.transactions).toHaveLength(1);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('sends an invalid response back once with its errors, and uses the repair', async () => {
+    generate
+      .mockResolvedValueOnce(
+        reply({ transactions: [row('AMAZON', '1,200.00')], confidence: 0.9 }),
+      )
+      .mockResolvedValueOnce(
+        reply({ transactions: [row('AMAZON', 1200)], confidence: 0.9 }),
+      );
+
+    const result = await extract();
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    const [repairPrompt, options] = generate.mock.calls[1];
+    expect(repairPrompt).toContain('- transactions.0.amount: ');
+    expect(repairPrompt).toContain('"amount":"1,200.00"');
+    expect(options.responseSchema).toMatchObject({ type: 'object' });
+    expect(result.transactions.map((t) => t.amount)).toEqual([1200]);
+    expect(result.warnings).toEqual([
+      expect.stringMatching(
+        /^AI response failed schema validation and was retried with a repair prompt: transactions\.0\.amount: /,
+      ),
+    ]);
+  });
+
+  it('drops rows still invalid after the repair and keeps the rest', async () => {
+    const stillInvalid = {
+      transactions: [row('AMAZON', 1200), row('X', 450)],
+      confidence: 'high',
+    };
+    generate
+      .mockResolvedValueOnce(reply(stillInvalid))
+      .mockResolvedValueOnce(reply(stillInvalid));
+
+    const result = await extract();
+
+    expect(result.transactions.map((t) => t.merchant)).toEqual(['AMAZON']);
+    expect(result.confidence).toBe(0.8);
+    expect(result.warnings).toEqual(
+      expect.arrayContaining([
+        'Transaction 2 dropped: merchant: must be at least 2 characters',
+        expect.stringMatching(/^confidence defaulted to 0\.8: /),
+      ]),
+    );
+  });
+
+  it('keeps the original response when the repair is not JSON', async () => {
+    generate
+      .mockResolvedValueOnce(
+        reply({
+          transactions: [row('AMAZON', 1200), row('SWIGGY', '450')],
+          confidence: 0.9,
+        }),
+      )
+      .mockResolvedValueOnce(reply('Sorry, I cannot help with that.'));
+
+    const result = await extract();
+
+    expect(result.transactions.map((t) => t.merchant)).toEqual(['AMAZON']);
+    expect(result.warnings).toContain(
+      'Transaction 2 dropped: amount: Invalid input: expected number, received string',
+    );
+  });
+
+  it('fails when neither response has the expected shape', async () => {
+    generate.mockResolvedValue(reply('no JSON here'));
+
+    await expect(extract()).rejects.toThrow(
+      'AI service error during transaction extraction',
+    );
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { CardIssuer } from '@/shared/constants/recommendation.constants';
+import { statementParserService } from '@/shared/services/statement-parser.service';
+
+const readFixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '../fixtures/statements', name), 'utf8');
+
+describe('statementParserService', () => {
+  describe('HDFC Bank template', () => {
+    const match = statementParserService.parse(readFixture('hdfc.txt'));
+
+    it('recognises the layout and trusts a full parse', () => {
+      expect(match?.parser.issuer).toBe(CardIssuer.HDFC);
+      expect(match?.detectionConfidence).toBe(1);
+      expect(match?.result.confidence).toBe(1);
+      expect(match?.result.warnings).toEqual([]);
+    });
+
+    it('parses every row, with credits negative', () => {
+      expect(
+        match?.result.transactions.map((t) => [
+          t.date,
+          t.merchant,
+          t.amount,
+          t.type,
+        ]),
+      ).toEqual([
+        ['2025-09-18', 'AMAZON PAY INDIA MUMBAI', 1200, 'debit'],
+        ['2025-09-21', 'SWIGGY BANGALORE', 450.5, 'debit'],
+        ['2025-09-25', 'BPCL FUEL STATION PUNE', 1800, 'debit'],
+        ['2025-09-30', 'PAYMENT RECEIVED THANK YOU', -12500, 'payment'],
+        ['2025-10-05', 'BOOKMYSHOW MUMBAI', 1460, 'debit'],
+      ]);
+    });
+
+    it('reads the rewards and account summaries from their header rows', () => {
+      expect(match?.result.rewardsSummary).toEqual({
+        openingPoints: 2150,
+        pointsEarned: 245,
+        pointsRedeemed: 0,
+        closingPoints: 2395,
+      });
+      // Finance charges count towards the debits
+      expect(match?.result.balanceSummary).toEqual({
+        previousBalance: 12500,
+        totalCredits: 12500,
+        totalDebits: 4910.5,
+        closingBalance: 4910.5,
+      });
+    });
+  });
+
+  describe('SBI Card template', () => {
+    const match = statementParserService.parse(readFixture('sbi.txt'));
+
+    it('parses rows with two-digit years and C/D markers', () => {
+      expect(match?.parser.issuer).toBe(CardIssuer.SBI);
+      expect(
+        match?.result.transactions.map((t) => [t.date, t.amount, t.type]),
+      ).toEqual([
+        ['2025-07-15', 250.75, 'debit'],
+        ['2025-07-22', 5000, 'debit'],
+        ['2025-08-01', -2000, 'payment'],
+      ]);
+    });
+
+    it('reads label/value summaries, with a balance in credit negative', () => {
+      expect(match?.result.rewardsSummary).toEqual({
+        openingPoints: 1200,
+        pointsEarned: 1310,
+        pointsRedeemed: 500,
+        closingPoints: 2010,
+      });
+      expect(match?.result.balanceSummary).toEqual({
+        previousBalance: -1000,
+        totalCredits: 2000,
+        totalDebits: 5250.75,
+        closingBalance: 2250.75,
+      });
+    });
+  });
+
+  describe('American Express template', () => {
+    const match = statementParserService.parse(readFixture('amex.txt'));
+
+    it('dates yearless rows from the statement period, across the new year', () => {
+      expect(match?.parser.issuer).toBe(CardIssuer.AMEX);
+      expect(match?.result.transactions.map((t) => t.date)).toEqual([
+        '2024-12-20',
+        '2024-12-28',
+        '2025-01-03',
+        '2025-01-15',
+      ]);
+    });
+
+    it('leaves out summaries the statement does not print', () => {
+      expect(match?.result.rewardsSummary).toEqual({
+        openingPoints: 10000,
+        pointsEarned: 2030,
+        closingPoints: 12030,
+      });
+      expect(match?.result.balanceSummary).toBeUndefined();
+    });
+
+    it('cannot date rows without a statement period', () => {
+      const undated = readFixture('amex.txt').replace(
+        /^Statement Period.*$/m,
+        '',
+      );
+      const result = statementParserService.parse(undated)?.result;
+
+      expect(result?.transactions).toEqual([]);
+      expect(result?.confidence).toBe(0);
+      expect(result?.warnings).toContain(
+        'Statement period not found; rows without a year could not be dated',
+      );
+    });
+  });
+
+  it('only tries the hinted issuer', () => {
+    expect(
+      statementParserService.parse(readFixture('hdfc.txt'), CardIssuer.SBI),
+    ).toBeNull();
+  });
+
+  it('returns null for an unknown layout', () => {
+    expect(
+      statementParserService.parse('Some Other Bank\n01/02/2025 COFFEE 100.00'),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import fs from 'fs/promises';
+import pdfParse from 'pdf-parse';
+import { prisma } from '@/database/db';
+import { StatusCodes } from '@/shared/constants/http-status.constants';
+import { ERROR_CODES } from '@/shared/constants/messages.constants';
+import { backgroundJobsService } from '@/shared/services/background-jobs.service';
+import { pdfParserService } from '@/shared/services/pdf-parser.service';
+import { transactionExtractionService } from '@/shared/services/transaction-extraction.service';
+import { ApiError } from '@/shared/utils/api-error.util';
+
+jest.mock('pdf-parse', () => jest.fn());
+
+jest.mock('@/database/db', () => ({
+  prisma: {
+    processingJob: { create: jest.fn() },
+    statement: { update: jest.fn() },
+    appConfig: { findUnique: jest.fn() },
+  },
+}));
+
+const parse = pdfParse as unknown as jest.Mock;
+
+const db = prisma as unknown as {
+  processingJob: { create: jest.Mock };
+  statement: { update: jest.Mock };
+};
+
+// What pdf.js throws for an encrypted file: code 1 needs a password, 2 is a wrong one
+const passwordException = (code: number) =>
+  Object.assign(new Error('Password required or incorrect'), {
+    name: 'PasswordException',
+    code,
+  });
+
+describe('password-protected statements', () => {
+  const file = Buffer.from('%PDF-1.7');
+
+  beforeEach(() => {
+    jest.spyOn(fs, 'readFile').mockResolvedValue(file);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('verifyPassword', () => {
+    it('opens the file in memory with the password', async () => {
+      parse.mockResolvedValue({ numpages: 1, text: '' });
+
+      await pdfParserService.verifyPassword('/uploads/hdfc.pdf', 'secret');
+
+      expect(parse).toHaveBeenCalledWith(
+        { data: file, password: 'secret' },
+        { max: 1 },
+      );
+    });
+
+    it.each([
+      [1, undefined, ERROR_CODES.PDF_PASSWORD_REQUIRED],
+      [1, 'wrong', ERROR_CODES.PDF_PASSWORD_INCORRECT],
+      [2, 'wrong', ERROR_CODES.PDF_PASSWORD_INCORRECT],
+    ])(
+      'maps pdf.js code %i with password %s to %s',
+      async (code, password, errorCode) => {
+        parse.mockRejectedValue(passwordException(code));
+
+        await expect(
+          pdfParserService.verifyPassword('/uploads/hdfc.pdf', password),
+        ).rejects.toMatchObject({
+          code: errorCode,
+          statusCode: StatusCodes.BAD_REQUEST,
+        });
+      },
+    );
+
+    it('leaves other parse failures to the full parse', async () => {
+      parse.mockRejectedValue(new Error('Invalid PDF structure'));
+
+      await expect(
+        pdfParserService.verifyPassword('/uploads/hdfc.pdf'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('processing jobs', () => {
+    const job = {
+      id: 'job_1',
+      sessionId: 'session_1',
+      inputData: {
+        sessionToken: 'token_1',
+        statementId: 'statement_1',
+        filePath: '/uploads/hdfc.pdf',
+        fileName: 'hdfc.pdf',
+        fileSize: file.length,
+      },
+    };
+    let extract: jest.SpyInstance;
+
+    beforeEach(() => {
+      db.processingJob.create.mockResolvedValue({ id: 'job_1' });
+      jest
+        .spyOn(backgroundJobsService, 'updateJobProgress')
+        .mockResolvedValue();
+      jest
+        .spyOn(backgroundJobsService, 'queueSessionAnalysisIfReady')
+        .mockResolvedValue();
+      extract = jest.spyOn(
+        transactionExtractionService,
+        'extractTransactionsFromPDF',
+      );
+    });
+
+    it('keeps the password out of the stored job and hands it to extraction once', async () => {
+      extract.mockRejectedValue(new Error('stop after extraction starts'));
+
+      await backgroundJobsService.queuePDFProcessingJob({
+        ...job.inputData,
+        sessionId: 'session_1',
+        password: 'secret',
+      });
+      await backgroundJobsService.processPDFJob(job);
+      await backgroundJobsService.processPDFJob(job);
+
+      expect(
+        db.processingJob.create.mock.calls[0][0].data.inputData,
+      ).not.toHaveProperty('password');
+      expect(extract.mock.calls.map(([context]) => context.password)).toEqual([
+        'secret',
+        undefined,
+      ]);
+    });
+
+    it('sends a statement back to the user when its password is rejected', async () => {
+      extract.mockRejectedValue(
+        new ApiError(
+          'The password for this PDF is incorrect',
+          StatusCodes.BAD_REQUEST,
+          ERROR_CODES.PDF_PASSWORD_INCORRECT,
+        ),
+      );
+
+      const result = await backgroundJobsService.processPDFJob(job);
+
+      expect(result.success).toBe(false);
+      expect(db.statement.update).toHaveBeenLastCalledWith({
+        where: { id: 'statement_1' },
+        data: {
+          status: 'password_required',
+          errorMessage: 'The password for this PDF is incorrect',
+        },
+      });
+    });
+
+    it('fails a statement for any other error', async () => {
+      extract.mockRejectedValue(new Error('Transaction extraction failed'));
+
+      await backgroundJobsService.processPDFJob(job);
+
+      expect(db.statement.update).toHaveBeenLastCalledWith({
+        where: { id: 'statement_1' },
+        data: {
+          status: 'failed',
+          errorMessage: 'Transaction extraction failed',
+        },
+      });
+    });
+  });
+});
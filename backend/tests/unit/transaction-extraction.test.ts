@@ -0,0 +1,144 @@
+import { env } from '@/shared/config/env.config';
+import type {
+  Transaction,
+  TransactionExtractionResult,
+} from '@/shared/services/gemini-ai.service';
+import { transactionExtractionService } from '@/shared/services/transaction-extraction.service';
+
+const row = (day: number, merchant: string, amount: number): Transaction => ({
+  date: `2025-09-${String(day).padStart(2, '0')}`,
+  description: merchant,
+  merchant,
+  amount,
+  type: amount < 0 ? 'payment' : 'debit',
+  confidence: 0.9,
+});
+
+// A statement page of `lines` transaction lines, at most 40 characters each
+const page = (number: number, lines: number) =>
+  Array.from(
+    { length: lines },
+    (_, i) =>
+      `0${number}/09/2025 MERCHANT ${number}-${i} ${(100 + i).toFixed(2)}`,
+  ).join('\n');
+
+describe('transactionExtractionService chunking', () => {
+  const maxChars = env.EXTRACTION_CHUNK_MAX_CHARS;
+  const linesPerHalfChunk = Math.floor(maxChars / 2 / 40);
+
+  describe('buildChunks', () => {
+    it('keeps a statement that fits in one chunk whole', () => {
+      const pages = [page(1, 10), page(2, 10)];
+
+      expect(transactionExtractionService['buildChunks'](pages)).toEqual([
+        { text: `${pages[0]}\n\n${pages[1]}`, firstPage: 1, lastPage: 2 },
+      ]);
+    });
+
+    it('groups whole pages and repeats the previous tail at the start of the next chunk', () => {
+      const pages = [
+        page(1, linesPerHalfChunk),
+        page(2, linesPerHalfChunk),
+        page(3, linesPerHalfChunk),
+      ];
+      const chunks = transactionExtractionService['buildChunks'](pages);
+
+      expect(
+        chunks.map(({ firstPage, lastPage }) => [firstPage, lastPage]),
+      ).toEqual([
+        [1, 2],
+        [3, 3],
+      ]);
+      expect(
+        chunks.every((chunk) => chunk.text.length <= maxChars + 5 * 40),
+      ).toBe(true);
+
+      const overlap = pages[1].split('\n').slice(-5).join('\n');
+      expect(chunks[1].text).toBe(`${overlap}\n${pages[2]}`);
+    });
+
+    it('splits a page larger than a chunk on line boundaries', () => {
+      const pages = [page(1, linesPerHalfChunk * 3)];
+      const chunks = transactionExtractionService['buildChunks'](pages);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(
+        chunks.every((chunk) => chunk.firstPage === 1 && chunk.lastPage === 1),
+      ).toBe(true);
+      expect(
+        chunks[0].text.split('\n').every((line) => pages[0].includes(line)),
+      ).toBe(true);
+    });
+  });
+
+  describe('mergeChunkResults', () => {
+    const chunks = [
+      { text: '', firstPage: 1, lastPage: 2 },
+      { text: '', firstPage: 3, lastPage: 3 },
+    ];
+
+    const first: TransactionExtractionResult = {
+      transactions: [
+        row(1, 'AMAZON', 1200),
+        row(2, 'SWIGGY', 450),
+        row(3, 'UBER', 300),
+      ],
+      totalFound: 3,
+      confidence: 0.9,
+      balanceSummary: { previousBalance: 12500 },
+      warnings: ['1 row unreadable'],
+    };
+    // Starts with the overlap, so the last two rows of the first chunk come back
+    const second: TransactionExtractionResult = {
+      transactions: [
+        row(2, 'SWIGGY', 450),
+        row(3, 'UBER', 300),
+        row(4, 'UBER', 300),
+        row(5, 'PAYMENT', -12500),
+      ],
+      totalFound: 4,
+      confidence: 0.6,
+      balanceSummary: {
+        previousBalance: 99999,
+        totalDebits: 2250,
+        closingBalance: 2250,
+      },
+      rewardsSummary: { pointsEarned: 45 },
+    };
+
+    const merged = transactionExtractionService['mergeChunkResults'](chunks, [
+      first,
+      second,
+    ]);
+
+    it('drops rows repeated from the previous chunk, but not new rows that look alike', () => {
+      expect(merged.transactions.map((t) => t.date)).toEqual([
+        '2025-09-01',
+        '2025-09-02',
+        '2025-09-03',
+        '2025-09-04',
+        '2025-09-05',
+      ]);
+      expect(merged.processingNotes).toBe(
+        'Extracted in 2 chunks; 2 duplicate(s) removed at chunk boundaries',
+      );
+    });
+
+    it('weights confidence by the rows each chunk returned', () => {
+      expect(merged.confidence).toBeCloseTo((0.9 * 3 + 0.6 * 4) / 7);
+    });
+
+    it('takes each summary figure from the first chunk that printed it', () => {
+      expect(merged.balanceSummary).toEqual({
+        previousBalance: 12500,
+        totalDebits: 2250,
+        closingBalance: 2250,
+      });
+      expect(merged.rewardsSummary).toEqual({ pointsEarned: 45 });
+    });
+
+    it('labels warnings with the pages they came from', () => {
+      expect(merged.warnings).toEqual(['Pages 1-2: 1 row unreadable']);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { configService } from '@/shared/services/config.service';
+import { savingsCalculatorService } from '@/shared/services/savings-calculator.service';
+import type {
+  EnhancedCreditCard,
+  SpendingPattern,
+} from '@/shared/types/recommendation.types';
+
+// A 1% cashback card charging ₹1,000 a year, with a ₹500 welcome voucher
+const card = (feeWaiverCriteria?: Record<string, unknown>) =>
+  ({
+    id: 'card_fee',
+    name: 'Fee Card',
+    rewardStructure: {
+      rewardType: 'cashback',
+      rewardCurrency: 'statement_credit',
+      baseRewardRate: 1,
+    },
+    feeStructure: {
+      joiningFee: 1000,
+      annualFee: 1000,
+      renewalFee: 1000,
+      feeWaiverCriteria,
+    },
+    acceleratedRewards: [],
+    additionalBenefits: [
+      {
+        categoryId: 'welcome_benefits',
+        categoryName: 'Welcome Benefits',
+        benefits: [
+          {
+            benefitType: 'voucher',
+            benefitName: 'Welcome voucher',
+            benefitValue: '500',
+            description: 'Welcome voucher',
+          },
+        ],
+      },
+    ],
+  }) as unknown as EnhancedCreditCard;
+
+// ₹10,000 in one month, projecting to ₹1.2 lakh and ₹1,200 of rewards a year
+const monthOfSpend: SpendingPattern[] = [
+  {
+    categoryName: 'Shopping',
+    totalSpent: 10000,
+    transactionCount: 1,
+    averageTransaction: 10000,
+    monthlyAverage: 10000,
+    percentage: 100,
+    mccCodes: [],
+    merchants: ['AMAZON'],
+    transactions: [
+      {
+        date: new Date('2025-09-01T00:00:00.000Z'),
+        amount: 10000,
+        merchant: 'AMAZON',
+      },
+    ],
+  },
+];
+
+const timelineOf = async (feeWaiverCriteria?: Record<string, unknown>) =>
+  (
+    await savingsCalculatorService.calculateCardSavings(
+      card(feeWaiverCriteria),
+      monthOfSpend,
+    )
+  ).valueTimeline;
+
+describe('value timeline', () => {
+  beforeEach(() => {
+    jest.spyOn(configService, 'getPointValue').mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('charges the joining fee and adds the welcome bonus in year 1 only', async () => {
+    const timeline = await timelineOf();
+
+    expect(timeline).toHaveLength(5);
+    expect(timeline[0]).toEqual({
+      year: 1,
+      rewardEarnings: 1200,
+      milestoneValue: 0,
+      welcomeBonus: 500,
+      fee: 1000,
+      feeWaived: false,
+      netValue: 700,
+      cumulativeNetValue: 700,
+    });
+    expect(
+      timeline.map((year) => [year.welcomeBonus, year.cumulativeNetValue]),
+    ).toEqual([
+      [500, 700],
+      [0, 900],
+      [0, 1100],
+      [0, 1300],
+      [0, 1500],
+    ]);
+  });
+
+  it('waives the renewal fee from year 2 when projected spend earns it', async () => {
+    const timeline = await timelineOf({
+      type: 'spend_based',
+      annualSpendRequired: 100000,
+      waiverPeriod: 'annual',
+    });
+
+    expect(timeline.map((year) => [year.fee, year.feeWaived])).toEqual([
+      [1000, false],
+      [0, true],
+      [0, true],
+      [0, true],
+      [0, true],
+    ]);
+  });
+
+  it('reverses the joining fee when the joining spend is met in the window', async () => {
+    const timeline = await timelineOf({
+      type: 'joining_spend_based',
+      annualSpendRequired: 0,
+      waiverPeriod: null,
+      joiningSpendRequired: 5000,
+      joiningWaiverPeriod: 30,
+    });
+
+    expect(timeline.slice(0, 2).map((year) => year.fee)).toEqual([0, 1000]);
+  });
+
+  it('charges nothing on a lifetime-free card', async () => {
+    const timeline = await timelineOf({
+      type: 'lifetime_free',
+      annualSpendRequired: 0,
+      waiverPeriod: null,
+    });
+
+    expect(timeline.every((year) => year.fee === 0 && year.feeWaived)).toBe(
+      true,
+    );
+    expect(timeline[4].cumulativeNetValue).toBe(1200 * 5 + 500);
+  });
+});
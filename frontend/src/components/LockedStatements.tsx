@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from './ui/button';
+import type { StatementSummary } from '../types';
+
+interface LockedStatementsProps {
+  statements: StatementSummary[];
+  disabled?: boolean;
+  onUnlock: (statementId: string, password: string) => void;
+  onSkip: (statementId: string) => void;
+}
+
+// Password-protected statements waiting for their password, each of which can also be skipped
+export function LockedStatements({ statements, disabled, onUnlock, onSkip }: LockedStatementsProps) {
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
+
+  const unlock = (statementId: string) => {
+    const password = passwords[statementId];
+    if (password) onUnlock(statementId, password);
+  };
+
+  if (statements.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex items-center gap-2">
+        <Lock className="h-4 w-4 text-purple-400" />
+        <p className="text-sm font-medium text-white">
+          {statements.length === 1 ? 'This statement is' : 'These statements are'} password protected
+        </p>
+      </div>
+      {statements.map((statement) => (
+        <div key={statement.id} className="p-3 bg-gray-800/50 rounded border border-gray-700 space-y-2">
+          <p className="text-sm text-gray-300 truncate">{statement.fileName}</p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              autoComplete="off"
+              value={passwords[statement.id] ?? ''}
+              onChange={(e) => setPasswords((current) => ({ ...current, [statement.id]: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && unlock(statement.id)}
+              disabled={disabled}
+              placeholder="Statement password"
+              className="flex-1 min-w-0 px-3 py-2 text-sm bg-gray-900 border border-gray-700 rounded text-white placeholder:text-gray-500"
+            />
+            <Button
+              size="sm"
+              onClick={() => unlock(statement.id)}
+              disabled={disabled || !passwords[statement.id]}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              Unlock
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onSkip(statement.id)}
+              disabled={disabled}
+              className="text-gray-400 hover:text-white hover:bg-gray-800"
+            >
+              Skip
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useSessionStore } from '../store/useSessionStore';
 import { Card, CardContent } from '../components/ui/card';
 import { Progress } from '../components/ui/progress';
+import { LockedStatements } from '../components/LockedStatements';
 import { 
   FileText, 
   Search, 
@@ -10,7 +11,8 @@ import {
   Target, 
   CheckCircle2, 
   AlertCircle,
-  Loader2
+  Loader2,
+  Lock
 } from 'lucide-react';
 
 const PROCESSING_STEPS = {
@@ -19,6 +21,7 @@ const PROCESSING_STEPS = {
   categorizing: { icon: Tags, title: 'Categorizing Transactions', description: 'Organizing your spending by category' },
   mcc_discovery: { icon: Search, title: 'MCC Discovery', description: 'Identifying merchant categories' },
   analyzing: { icon: Target, title: 'Generating Recommendations', description: 'Finding the best credit cards for you' },
+  password_required: { icon: Lock, title: 'Password Needed', description: 'Unlock or skip the protected statements to continue' },
   completed: { icon: CheckCircle2, title: 'Analysis Complete', description: 'Your recommendations are ready!' },
   failed: { icon: AlertCircle, title: 'Processing Failed', description: 'Something went wrong during analysis' }
 };
@@ -33,6 +36,9 @@ export function ProcessingPage() {
     fetchSessionStatus,
     pollJobStatus, 
     stopPolling,
+    unlockStatement,
+    skipStatement,
+    isLoading,
     error 
   } = useSessionStore();
 
@@ -79,6 +85,15 @@ export function ProcessingPage() {
     };
   }, [stopPolling]);
 
+  // Statements whose password was lost or rejected hold up the analysis until unlocked or skipped
+  const handleUnlock = async (statementId: string, password: string) => {
+    if (await unlockStatement(statementId, password)) pollJobStatus();
+  };
+
+  const handleSkip = async (statementId: string) => {
+    if (await skipStatement(statementId)) pollJobStatus();
+  };
+
   if (!session) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -94,8 +109,14 @@ export function ProcessingPage() {
     );
   }
 
+  const lockedStatements = session.statements?.filter((statement) => statement.status === 'password_required') ?? [];
+  const isJobRunning = ['queued', 'processing'].includes(jobStatus?.activeJob?.status ?? '');
+  // The locked statement's own extraction job failed, but the session is only waiting
+  const isJobFailed = jobStatus?.activeJob?.status === 'failed' && lockedStatements.length === 0;
+
   // Determine current step based on job status, fallback to session status
-  const currentStatus = jobStatus?.activeJob?.status === 'failed' ? 'failed' : 
+  const currentStatus = lockedStatements.length > 0 && !isJobRunning ? 'password_required' :
+                       isJobFailed ? 'failed' : 
                        jobStatus?.activeJob?.currentStep || 
                        session.status;
   const currentStep = PROCESSING_STEPS[currentStatus as keyof typeof PROCESSING_STEPS];
@@ -127,7 +148,9 @@ export function ProcessingPage() {
           <CardContent className="pt-8 pb-8 px-6 md:px-8">
             {/* Animated Icon */}
             <div className="flex justify-center mb-8">
-              {jobStatus?.activeJob?.status === 'failed' ? (
+              {currentStatus === 'password_required' ? (
+                <Lock className="h-16 w-16 md:h-20 md:w-20 text-purple-500" />
+              ) : isJobFailed ? (
                 <AlertCircle className="h-16 w-16 md:h-20 md:w-20 text-red-500" />
               ) : jobStatus?.activeJob?.status === 'completed' ? (
                 <CheckCircle2 className="h-16 w-16 md:h-20 md:w-20 text-green-500" />
@@ -155,15 +178,25 @@ export function ProcessingPage() {
               <Progress value={effectiveProgress} className="h-2 bg-gray-800" />
             </div>
 
+            {/* Password-protected statements waiting for their password */}
+            <LockedStatements
+              statements={lockedStatements}
+              disabled={isLoading}
+              onUnlock={handleUnlock}
+              onSkip={handleSkip}
+            />
+
             {/* Error Display */}
-            {(error || (jobStatus?.activeJob?.status === 'failed' && jobStatus?.activeJob?.errorMessage)) && (
+            {(error || (isJobFailed && jobStatus?.activeJob?.errorMessage)) && (
               <div className="p-4 bg-red-900/20 border border-red-800 rounded-lg mb-4">
                 <div className="flex items-start gap-3">
                   <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
                   <div className="flex-1 min-w-0">
-                    <p className="font-bold text-red-400 text-sm">Processing Error</p>
+                    <p className="font-bold text-red-400 text-sm">
+                      {error?.code === 'PDF_PASSWORD_INCORRECT' ? 'Incorrect Password' : 'Processing Error'}
+                    </p>
                     <p className="text-xs text-red-300 break-words mt-1">
-                      {jobStatus?.activeJob?.errorMessage || error?.message || 'Request failed with status code 429'}
+                      {(isJobFailed && jobStatus?.activeJob?.errorMessage) || error?.message || 'Request failed with status code 429'}
                     </p>
                   </div>
                 </div>
@@ -171,7 +204,7 @@ export function ProcessingPage() {
             )}
 
             {/* Session Stats */}
-            {session.totalTransactions && !error && jobStatus?.activeJob?.status !== 'failed' && (
+            {session.totalTransactions && !error && !isJobFailed && (
               <div className="grid grid-cols-2 gap-4 pt-6 border-t border-gray-800">
                 <div className="text-center p-3 bg-gray-800/50 rounded-lg">
                   <p className="text-3xl font-bold text-purple-400">
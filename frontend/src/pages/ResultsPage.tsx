@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { apiClient } from '../services/api';
-import type { RecommendationResponse, Transaction } from '../types';
+import type { RecommendationResponse, RedemptionStyle, Session, Transaction } from '../types';
 import { 
   RefreshCw,
   AlertCircle,
@@ -18,10 +18,17 @@ export const ResultsPage: React.FC = () => {
   
   const [data, setData] = useState<RecommendationResponse | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState('best-cards');
+  // Slug of a card the user already holds; recommendations show their gain over it
+  const [ownedCard, setOwnedCard] = useState('');
+  // How the user redeems points; travel transfers can be worth more than cashback
+  const [redemptionStyle, setRedemptionStyle] = useState<RedemptionStyle>('cash_like');
+  // Years to rank cards over by net value after fees; 0 ranks by this statement's earnings
+  const [horizonYears, setHorizonYears] = useState(0);
 
   useEffect(() => {
     if (!sessionToken) {
@@ -29,7 +36,7 @@ export const ResultsPage: React.FC = () => {
       return;
     }
     loadData();
-  }, [sessionToken, navigate]);
+  }, [sessionToken, navigate, ownedCard, redemptionStyle, horizonYears]);
 
     const loadData = async () => {
     if (!sessionToken) return;
@@ -38,13 +45,19 @@ export const ResultsPage: React.FC = () => {
     setError(null);
     
     try {
-      const [recommendations, transactionsData] = await Promise.all([
-        apiClient.getRecommendations(sessionToken),
-        apiClient.getTransactions(sessionToken, 1, 100)
+      const [recommendations, transactionsData, sessionStatus] = await Promise.all([
+        apiClient.getRecommendations(sessionToken, {
+          ownedCards: ownedCard ? [ownedCard] : undefined,
+          redemptionStyle,
+          horizonYears: horizonYears || undefined,
+        }),
+        apiClient.getTransactions(sessionToken, 1, 100),
+        apiClient.getSessionStatus(sessionToken)
       ]);
       
       setData(recommendations);
       setTransactions(transactionsData.items || []);
+      setSession(sessionStatus);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data');
     } finally {
@@ -52,6 +65,18 @@ export const ResultsPage: React.FC = () => {
     }
   };
 
+  // Confirming a statement's card re-attributes its transactions, so reload the comparison
+  const handleConfirmCard = async (statementId: string, cardId: string) => {
+    if (!sessionToken || !cardId) return;
+
+    try {
+      await apiClient.confirmStatementCard(sessionToken, statementId, cardId);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to confirm card');
+    }
+  };
+
   const handleToggleExpand = (cardId: string) => {
     const newExpanded = new Set(expandedCards);
     if (newExpanded.has(cardId)) {
@@ -108,7 +133,8 @@ export const ResultsPage: React.FC = () => {
     );
   }
 
-  const { recommendations, sessionSummary } = data;
+  const { recommendations, sessionSummary, currentCards } = data;
+  const statements = session?.statements ?? [];
 
   return (
     <div className="min-h-screen bg-black">
@@ -124,10 +150,159 @@ export const ResultsPage: React.FC = () => {
               <> • {formatDate(sessionSummary.statementStartDate.toString())} to {formatDate(sessionSummary.statementEndDate.toString())}</>
             )}
           </p>
+          {sessionSummary.billingCycleSource && (
+            <p className="text-sm text-gray-500 mt-1">
+              {sessionSummary.billingCycleSource === 'transactions'
+                ? 'Billing period estimated from your first and last transactions'
+                : 'Billing period as stated on your statement'}
+              {sessionSummary.paymentDueDate && (
+                <> • Payment due {formatDate(sessionSummary.paymentDueDate.toString())}</>
+              )}
+            </p>
+          )}
         </div>
         </div>
 
       <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Review notice - extracted transactions don't add up to a statement's own totals */}
+        {session?.needsReview && (
+          <Card className="mb-6 p-4 bg-yellow-900/20 border-yellow-800">
+            <p className="text-sm text-yellow-300">
+              Some transactions may be missing or misread: the amounts we extracted don't match the totals printed on
+              {' '}{statements.filter((statement) => statement.reconciliationStatus === 'mismatch').map((statement) => statement.fileName).join(', ') || 'your statement'}.
+              {' '}Recommendations are based on the transactions we could read.
+            </p>
+          </Card>
+        )}
+
+        {/* Current Cards - what the cards on the uploaded statements earned, and which card each statement is from */}
+        {statements.length > 0 && (
+          <Card className="mb-10 p-6 bg-gray-900 border-gray-800">
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2 mb-4">
+              <div>
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">
+                  What you earned on your current cards
+                </p>
+                {currentCards && currentCards.cards.length > 0 && (
+                  <p className="text-3xl font-bold text-white mt-1">
+                    {formatCurrency(currentCards.totalEarnings)}
+                  </p>
+                )}
+              </div>
+              {currentCards && currentCards.unattributedSpend > 0 && (
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(currentCards.unattributedSpend)} of spend is on statements we couldn't match to a card
+                </p>
+              )}
+            </div>
+            <div className="space-y-3">
+              {statements.map((statement) => {
+                const earned = currentCards?.cards.find((card) => card.cardId === statement.cardId);
+
+                return (
+                  <div key={statement.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-white truncate">{statement.fileName}</p>
+                      <p className="text-xs text-gray-400">
+                        {statement.card
+                          ? `${statement.card.issuer?.name ? `${statement.card.issuer.name} ` : ''}${statement.card.name}${statement.cardConfirmed ? '' : ' (detected — please confirm)'}`
+                          : 'Card not recognised — please choose it'}
+                        {earned && (
+                          <> • earned {formatCurrency(earned.earnings)} on {formatCurrency(earned.spend)}
+                            {earned.earningsSource === 'statement' ? ' (per your statement\'s rewards summary)' : ' (estimated)'}
+                          </>
+                        )}
+                        {statement.reconciliationStatus === 'mismatch' && statement.reconciliationScore != null && (
+                          <> • totals {Math.round(statement.reconciliationScore * 100)}% reconciled</>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={statement.cardId ?? ''}
+                        onChange={(e) => handleConfirmCard(statement.id, e.target.value)}
+                        className="text-sm bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 max-w-[16rem]"
+                      >
+                        <option value="" disabled>Choose card…</option>
+                        {(session?.cardOptions ?? []).map((option) => (
+                          <option key={option.id} value={option.id}>
+                            {option.issuer?.name ? `${option.issuer.name} — ` : ''}{option.name}
+                          </option>
+                        ))}
+                      </select>
+                      {statement.cardId && !statement.cardConfirmed && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleConfirmCard(statement.id, statement.cardId!)}
+                        >
+                          Confirm
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
+
+        {/* Recommendation options - a card the user already holds, and how they redeem points */}
+        <div className="mb-6 flex flex-col md:flex-row md:items-center gap-4">
+          {(session?.cardOptions ?? []).length > 0 && (
+            <div className="flex flex-col md:flex-row md:items-center gap-2">
+              <label htmlFor="owned-card" className="text-sm text-gray-400">
+                Compare with a card you already have
+              </label>
+              <select
+                id="owned-card"
+                value={ownedCard}
+                onChange={(e) => setOwnedCard(e.target.value)}
+                className="text-sm bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 max-w-[16rem]"
+              >
+                <option value="">None</option>
+                {(session?.cardOptions ?? []).map((option) => (
+                  <option key={option.slug} value={option.slug}>
+                    {option.issuer?.name ? `${option.issuer.name} — ` : ''}{option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex flex-col md:flex-row md:items-center gap-2">
+            <label htmlFor="redemption-style" className="text-sm text-gray-400">
+              I redeem points for
+            </label>
+            <select
+              id="redemption-style"
+              value={redemptionStyle}
+              onChange={(e) => setRedemptionStyle(e.target.value as RedemptionStyle)}
+              className="text-sm bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200"
+            >
+              <option value="cash_like">Cashback and statement credit</option>
+              <option value="travel_maximizer">Airline miles and hotel points</option>
+            </select>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-2">
+            <label htmlFor="horizon-years" className="text-sm text-gray-400">
+              Rank cards by
+            </label>
+            <select
+              id="horizon-years"
+              value={horizonYears}
+              onChange={(e) => setHorizonYears(Number(e.target.value))}
+              className="text-sm bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200"
+            >
+              <option value={0}>Earnings this statement</option>
+              {[1, 2, 3, 4, 5].map((years) => (
+                <option key={years} value={years}>
+                  Value after fees over {years} {years === 1 ? 'year' : 'years'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {/* Main Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full max-w-sm mx-auto grid-cols-2 mb-10">
@@ -185,6 +360,21 @@ export const ResultsPage: React.FC = () => {
                           <p className="text-4xl md:text-5xl font-bold text-purple-400">
                             {formatCurrency(rec.estimatedAnnualCashback)}
                           </p>
+                          {rec.baselineCardName && rec.incrementalEarnings !== undefined && (
+                            <p className="text-sm text-gray-400 mt-1">
+                              {rec.incrementalEarnings >= 0 ? '+' : '−'}{formatCurrency(Math.abs(rec.incrementalEarnings))} vs. your {rec.baselineCardName}
+                            </p>
+                          )}
+                          {horizonYears > 0 && rec.horizonNetValue !== undefined && (
+                            <p className="text-sm text-gray-400 mt-1">
+                              {formatCurrency(rec.horizonNetValue)} after fees over {horizonYears} {horizonYears === 1 ? 'year' : 'years'}
+                            </p>
+                          )}
+                          {rec.earningsOverCurrentCards !== undefined && (
+                            <p className="text-sm text-gray-400 mt-1">
+                              {rec.earningsOverCurrentCards >= 0 ? '+' : '−'}{formatCurrency(Math.abs(rec.earningsOverCurrentCards))} vs. your current cards
+                            </p>
+                          )}
                                 </div>
                               </div>
                     </CardHeader>
@@ -201,6 +391,28 @@ export const ResultsPage: React.FC = () => {
                           </div>
                         ) : <></>}
 
+                        {/* Value Timeline - cumulative net value after fees by year */}
+                        {rec.valueTimeline && rec.valueTimeline.length > 0 && (
+                          <div>
+                            <p className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                              Cumulative Value After Fees
+                            </p>
+                            <div className="grid grid-cols-5 gap-2">
+                              {rec.valueTimeline.map((year) => (
+                                <div key={year.year} className="p-2 bg-gray-800/50 rounded border border-gray-700 text-center">
+                                  <p className="text-xs text-gray-400">Year {year.year}</p>
+                                  <p className={`text-sm font-semibold ${year.cumulativeNetValue >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                    {formatCurrency(year.cumulativeNetValue)}
+                                  </p>
+                                  {year.feeWaived && (
+                                    <p className="text-[10px] text-gray-500">fee waived</p>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Primary Reason - Only show if it's not empty or "0" */}
                         {rec.primaryReason && rec.primaryReason !== "0" && rec.primaryReason.trim() !== "" && (
                           <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700">
@@ -293,26 +505,45 @@ export const ResultsPage: React.FC = () => {
                                     <th className="text-right p-4 font-bold text-white">Rate</th>
                                     <th className="text-right p-4 font-bold text-white">Earnings</th>
                                     {rec.benefitBreakdown.some(b => b.monthlyCap) && (
-                                      <th className="text-right p-4 font-bold text-white">Monthly Cap</th>
+                                      <th className="text-right p-4 font-bold text-white">Cap</th>
                                     )}
                                   </tr>
                                 </thead>
                                 <tbody className="bg-gray-900">
                                   {rec.benefitBreakdown.map((benefit, idx) => (
-                                    <tr key={idx} className="border-b border-gray-800 last:border-0">
-                                      <td className="p-4 text-gray-200 font-medium">{benefit.category}</td>
+                                    <tr key={idx} className={`border-b border-gray-800 last:border-0 ${benefit.lineType === 'excluded' ? 'opacity-60' : ''}`}>
+                                      <td className="p-4 text-gray-200 font-medium">
+                                        {benefit.category}
+                                        {benefit.note && (
+                                          <div className="text-xs font-normal text-gray-400">{benefit.note}</div>
+                                        )}
+                                      </td>
                                       <td className="text-right p-4 text-gray-200">
-                                        {formatCurrency(benefit.spentAmount)}
+                                        {benefit.lineType === 'milestone' || benefit.lineType === 'points_expiry' ? '—' : formatCurrency(benefit.spentAmount)}
                                       </td>
                                       <td className="text-right p-4 text-purple-400 font-bold">
-                                        {benefit.cardRate}%
+                                        {benefit.lineType === 'milestone' || benefit.lineType === 'excluded' || benefit.lineType === 'points_expiry'
+                                          ? '—'
+                                          : `${benefit.cardRate}%`}
                                       </td>
-                                      <td className="text-right p-4 font-bold text-purple-400">
+                                      <td className={`text-right p-4 font-bold ${benefit.dollarValue < 0 ? 'text-red-400' : 'text-purple-400'}`}>
                                         {formatCurrency(benefit.dollarValue)}
                                       </td>
                                       {rec.benefitBreakdown.some(b => b.monthlyCap) && (
                                         <td className="text-right p-4 text-gray-400">
-                                          {benefit.monthlyCap ? formatCurrency(benefit.monthlyCap) : '—'}
+                                          {benefit.monthlyCap ? (
+                                            <>
+                                              {formatCurrency(benefit.monthlyCap)}
+                                              {benefit.cappingPeriod && (
+                                                <span className="text-xs"> / {benefit.cappingPeriod.replace('ly', '')}</span>
+                                              )}
+                                              {benefit.periodBreakdown?.some(p => p.capReached) && (
+                                                <div className="text-xs text-amber-400">
+                                                  Cap hit in {benefit.periodBreakdown.filter(p => p.capReached).length} of {benefit.periodBreakdown.length} periods
+                                                </div>
+                                              )}
+                                            </>
+                                          ) : '—'}
                                         </td>
                                       )}
                                     </tr>
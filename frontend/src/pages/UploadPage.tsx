@@ -5,14 +5,20 @@ import { useSessionStore } from '../store/useSessionStore';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Progress } from '../components/ui/progress';
-import { Upload, AlertCircle, CheckCircle2, ArrowLeft } from 'lucide-react';
+import { LockedStatements } from '../components/LockedStatements';
+import { Upload, AlertCircle, CheckCircle2, ArrowLeft, X } from 'lucide-react';
+
+// Matches the backend's default MAX_STATEMENTS_PER_SESSION
+const MAX_STATEMENTS = 12;
 
 export function UploadPage() {
   const navigate = useNavigate();
   const { sessionToken } = useParams();
   const { 
     session, 
-    uploadFile, 
+    uploadFiles, 
+    unlockStatement,
+    skipStatement,
     isLoading, 
     error, 
     uploadProgress,
@@ -20,7 +26,11 @@ export function UploadPage() {
     createSession 
   } = useSessionStore();
   
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [password, setPassword] = useState('');
+
+  // Uploaded statements that couldn't be opened without (the right) password
+  const lockedStatements = session?.statements?.filter((statement) => statement.status === 'password_required') ?? [];
 
   useEffect(() => {
     // If we have a sessionToken but no session, we might need to fetch it
@@ -34,13 +44,20 @@ export function UploadPage() {
   }, [sessionToken, session, createSession]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file) {
+    if (acceptedFiles.length > 0) {
       clearError();
-      setSelectedFile(file);
+      // Add to the statements picked so far, skipping files already in the list
+      setSelectedFiles((current) => [
+        ...current,
+        ...acceptedFiles.filter((file) => !current.some((picked) => picked.name === file.name && picked.size === file.size)),
+      ].slice(0, MAX_STATEMENTS));
     }
   }, [clearError]);
 
+  const removeFile = (index: number) => {
+    setSelectedFiles((current) => current.filter((_, i) => i !== index));
+  };
+
   const onDropRejected = useCallback(() => {
     clearError();
     // Handle rejected files
@@ -52,23 +69,44 @@ export function UploadPage() {
     accept: {
       'application/pdf': ['.pdf']
     },
-    maxFiles: 1,
+    maxFiles: MAX_STATEMENTS,
     maxSize: 50 * 1024 * 1024, // 50MB
-    multiple: false
+    multiple: true
   });
 
   const handleUpload = async () => {
-    if (!selectedFile || !session) return;
+    if (selectedFiles.length === 0 || !session) return;
     
     try {
-      await uploadFile(selectedFile);
-      // Navigate to processing page after successful upload
-      navigate(`/processing/${session.sessionToken}`);
+      await uploadFiles(selectedFiles, password || undefined);
+      // Navigate to processing page after successful upload, unless a statement still needs its password
+      const { session: uploadedSession, error: uploadError } = useSessionStore.getState();
+      if (!uploadError && !uploadedSession?.statements?.some((statement) => statement.status === 'password_required')) {
+        navigate(`/processing/${session.sessionToken}`);
+      }
     } catch (error) {
       console.error('Upload failed:', error);
     }
   };
 
+  // Once no statement is waiting for its password, the rest can be analyzed
+  const continueIfUnlocked = () => {
+    const { session: updatedSession } = useSessionStore.getState();
+    if (updatedSession && !updatedSession.statements?.some((statement) => statement.status === 'password_required')) {
+      navigate(`/processing/${updatedSession.sessionToken}`);
+    }
+  };
+
+  // Retry a locked statement with its password; the file is already on the server
+  const handleUnlock = async (statementId: string, statementPassword: string) => {
+    if (await unlockStatement(statementId, statementPassword)) continueIfUnlocked();
+  };
+
+  // Leave a locked statement out of the analysis
+  const handleSkip = async (statementId: string) => {
+    if (await skipStatement(statementId)) continueIfUnlocked();
+  };
+
   if (!session) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
@@ -94,14 +132,17 @@ export function UploadPage() {
               className="flex items-center gap-2 text-white hover:text-gray-300 hover:bg-gray-800 mb-6 -ml-2"
             >
               <ArrowLeft className="h-4 w-4" />
-              Upload your statement
+              Upload your statements
             </Button>
 
             {/* PDF Statement Label */}
             <div className="mb-4">
               <label className="text-sm font-medium text-white">
-                PDF Statement
+                PDF Statements
               </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Add 3-12 months of statements for a steadier picture of your spending
+              </p>
             </div>
 
             {/* Upload Area */}
@@ -111,7 +152,7 @@ export function UploadPage() {
                 border-2 border-dashed rounded-lg p-8 mb-6 text-center cursor-pointer transition-all
                 ${isDragActive 
                   ? 'border-purple-500 bg-purple-500/10' 
-                  : selectedFile 
+                  : selectedFiles.length > 0
                     ? 'border-green-500 bg-green-500/10'
                     : 'border-gray-700 hover:border-gray-600 bg-gray-800/50'
                 }
@@ -120,24 +161,76 @@ export function UploadPage() {
             >
               <input {...getInputProps()} />
               
-              {selectedFile ? (
+              {selectedFiles.length > 0 ? (
                 <div className="space-y-3">
                   <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
                   <div>
-                    <p className="text-white font-medium">Uploaded</p>
-                    <p className="text-gray-400 text-sm mt-1">{selectedFile.name}</p>
+                    <p className="text-white font-medium">
+                      {selectedFiles.length} statement{selectedFiles.length > 1 ? 's' : ''} added
+                    </p>
+                    <p className="text-gray-400 text-sm mt-1">Click or drop to add more</p>
                   </div>
                 </div>
               ) : (
                 <div className="space-y-3">
                   <Upload className="h-12 w-12 text-gray-500 mx-auto" />
                   <p className="text-gray-400 text-sm">
-                    Click to upload PDF (max 10MB)
+                    Click to upload PDFs (max 10MB each)
                   </p>
                 </div>
               )}
             </div>
 
+            {/* Selected Statements */}
+            {selectedFiles.length > 0 && (
+              <ul className="mb-6 space-y-2">
+                {selectedFiles.map((file, index) => (
+                  <li
+                    key={`${file.name}-${file.size}`}
+                    className="flex items-center justify-between px-3 py-2 bg-gray-800/50 rounded border border-gray-700"
+                  >
+                    <span className="text-sm text-gray-300 truncate">{file.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeFile(index)}
+                      disabled={isLoading}
+                      className="text-gray-500 hover:text-gray-300"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Statement Password */}
+            {lockedStatements.length === 0 && (
+              <div className="mb-6">
+                <label htmlFor="statement-password" className="text-sm font-medium text-white">
+                  Statement password <span className="text-gray-500 font-normal">(if protected)</span>
+                </label>
+                <input
+                  id="statement-password"
+                  type="password"
+                  autoComplete="off"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isLoading}
+                  placeholder="e.g. first 4 letters of your name + DDMM of birth"
+                  className="mt-2 w-full px-3 py-2 text-sm bg-gray-800/50 border border-gray-700 rounded text-white placeholder:text-gray-500"
+                />
+              </div>
+            )}
+
+            {/* Password-protected statements waiting for their password */}
+            <LockedStatements
+              statements={lockedStatements}
+              disabled={isLoading}
+              onUnlock={handleUnlock}
+              onSkip={handleSkip}
+            />
+
             {/* Upload Progress */}
             {isLoading && uploadProgress > 0 && (
               <div className="mb-6">
@@ -154,7 +247,9 @@ export function UploadPage() {
                 <div className="flex items-center gap-3">
                   <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0" />
                   <div>
-                    <p className="text-sm font-medium text-red-400">Upload Error</p>
+                    <p className="text-sm font-medium text-red-400">
+                      {error.code === 'PDF_PASSWORD_INCORRECT' ? 'Incorrect Password' : 'Upload Error'}
+                    </p>
                     <p className="text-sm text-red-300">{error.message}</p>
                   </div>
                 </div>
@@ -162,13 +257,15 @@ export function UploadPage() {
             )}
 
             {/* Submit Button */}
-            <Button 
-              onClick={handleUpload}
-              disabled={!selectedFile || isLoading}
-              className="w-full bg-gradient-to-r from-purple-500 to-purple-700 hover:from-purple-600 hover:to-purple-800 text-white font-semibold py-6 rounded-lg shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? 'Processing...' : 'Analyze my statement'}
-            </Button>
+            {lockedStatements.length === 0 && (
+              <Button 
+                onClick={handleUpload}
+                disabled={selectedFiles.length === 0 || isLoading}
+                className="w-full bg-gradient-to-r from-purple-500 to-purple-700 hover:from-purple-600 hover:to-purple-800 text-white font-semibold py-6 rounded-lg shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Processing...' : selectedFiles.length > 1 ? 'Analyze my statements' : 'Analyze my statement'}
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
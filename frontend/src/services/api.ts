@@ -10,6 +10,7 @@ import type {
     SpendingAnalysis,
     UploadResponse,
     ApiError,
+    RedemptionStyle,
 } from '../types';
 
 class ApiClient {
@@ -68,9 +69,17 @@ class ApiClient {
     }
 
     // File Upload
-    async uploadPDF(sessionToken: string, file: File, onUploadProgress?: (progressEvent: any) => void): Promise<UploadResponse> {
+    async uploadPDF(
+        sessionToken: string,
+        files: File[],
+        onUploadProgress?: (progressEvent: any) => void,
+        password?: string
+    ): Promise<UploadResponse> {
         const formData = new FormData();
-        formData.append('pdf', file);
+        files.forEach((file) => formData.append('pdf', file));
+        if (password) {
+            formData.append('password', password);
+        }
 
         const response = await this.client.post<ApiResponse<UploadResponse>>(
             `/sessions/${sessionToken}/upload`,
@@ -86,6 +95,20 @@ class ApiClient {
         return response.data.data!;
     }
 
+    // Supply the password for a protected statement that's already uploaded
+    async unlockStatement(sessionToken: string, statementId: string, password: string): Promise<void> {
+        await this.client.post(`/sessions/${sessionToken}/statements/${statementId}/password`, { password });
+    }
+
+    // Leave a protected statement out so the others are analyzed without it
+    async skipStatement(sessionToken: string, statementId: string): Promise<void> {
+        await this.client.post(`/sessions/${sessionToken}/statements/${statementId}/skip`);
+    }
+
+    async confirmStatementCard(sessionToken: string, statementId: string, cardId: string): Promise<void> {
+        await this.client.patch(`/sessions/${sessionToken}/statements/${statementId}/card`, { cardId });
+    }
+
     // Transactions
     async getTransactions(
         sessionToken: string,
@@ -119,6 +142,9 @@ class ApiClient {
             maxAnnualFee?: number;
             preferredNetwork?: string;
             includeBusinessCards?: boolean;
+            ownedCards?: string[];
+            redemptionStyle?: RedemptionStyle;
+            horizonYears?: number;
         }
     ): Promise<RecommendationResponse> {
         const params = new URLSearchParams();
@@ -126,6 +152,9 @@ class ApiClient {
         if (options?.maxAnnualFee) params.append('maxAnnualFee', options.maxAnnualFee.toString());
         if (options?.preferredNetwork) params.append('preferredNetwork', options.preferredNetwork);
         if (options?.includeBusinessCards) params.append('includeBusinessCards', options.includeBusinessCards.toString());
+        if (options?.ownedCards?.length) params.append('ownedCards', options.ownedCards.join(','));
+        if (options?.redemptionStyle) params.append('redemptionStyle', options.redemptionStyle);
+        if (options?.horizonYears) params.append('horizonYears', options.horizonYears.toString());
 
         const response = await this.client.get<ApiResponse<RecommendationResponse>>(
             `/sessions/${sessionToken}/recommendations${params.toString() ? '?' + params.toString() : ''}`
@@ -33,7 +33,9 @@ interface SessionState {
 
     // Actions
     createSession: () => Promise<void>;
-    uploadFile: (file: File) => Promise<void>;
+    uploadFiles: (files: File[], password?: string) => Promise<void>;
+    unlockStatement: (statementId: string, password: string) => Promise<boolean>;
+    skipStatement: (statementId: string) => Promise<boolean>;
     fetchSessionStatus: (sessionToken: string) => Promise<void>;
     fetchJobStatus: (sessionToken: string) => Promise<void>;
     pollJobStatus: () => Promise<void>;
@@ -75,8 +77,8 @@ export const useSessionStore = create<SessionState>()(
                 }
             },
 
-            // Upload PDF file
-            uploadFile: async (file: File) => {
+            // Upload statement PDFs (one per statement)
+            uploadFiles: async (files: File[], password?: string) => {
                 const { session } = get();
                 if (!session) {
                     set({ error: { message: 'No active session', status: 400 } });
@@ -88,13 +90,14 @@ export const useSessionStore = create<SessionState>()(
 
                     await apiClient.uploadPDF(
                         session.sessionToken,
-                        file,
+                        files,
                         (progressEvent) => {
                             const progress = Math.round(
                                 (progressEvent.loaded * 100) / progressEvent.total
                             );
                             set({ uploadProgress: progress });
-                        }
+                        },
+                        password
                     );
 
                     // Update session with new status
@@ -112,6 +115,48 @@ export const useSessionStore = create<SessionState>()(
                 }
             },
 
+            // Unlock a password-protected statement; resolves false when the password is wrong
+            unlockStatement: async (statementId: string, password: string) => {
+                const { session } = get();
+                if (!session) {
+                    set({ error: { message: 'No active session', status: 400 } });
+                    return false;
+                }
+
+                try {
+                    set({ isLoading: true, error: null });
+                    await apiClient.unlockStatement(session.sessionToken, statementId, password);
+
+                    const updatedSession = await apiClient.getSessionStatus(session.sessionToken);
+                    set({ session: updatedSession, isLoading: false });
+                    return true;
+                } catch (error) {
+                    set({ error: error as ApiError, isLoading: false });
+                    return false;
+                }
+            },
+
+            // Skip a password-protected statement so the others can be analyzed
+            skipStatement: async (statementId: string) => {
+                const { session } = get();
+                if (!session) {
+                    set({ error: { message: 'No active session', status: 400 } });
+                    return false;
+                }
+
+                try {
+                    set({ isLoading: true, error: null });
+                    await apiClient.skipStatement(session.sessionToken, statementId);
+
+                    const updatedSession = await apiClient.getSessionStatus(session.sessionToken);
+                    set({ session: updatedSession, isLoading: false });
+                    return true;
+                } catch (error) {
+                    set({ error: error as ApiError, isLoading: false });
+                    return false;
+                }
+            },
+
             // Fetch session status
             fetchSessionStatus: async (sessionToken: string) => {
                 try {
@@ -18,6 +18,49 @@ export interface Session {
     newMccDiscovered?: number;
     expiresAt: string;
     errorMessage?: string;
+    needsReview?: boolean;  // Extracted transactions don't reconcile with a statement's printed totals
+    reconciliationScore?: number | null;
+    statements?: StatementSummary[];
+    cardOptions?: CardOption[];
+}
+
+// One uploaded statement PDF within a session
+export interface StatementSummary {
+    id: string;
+    fileName: string;
+    status: 'queued' | 'password_required' | 'extracting' | 'extracted' | 'failed' | 'skipped';
+    billingPeriodStart?: string;
+    billingPeriodEnd?: string;
+    transactionCount?: number;
+    duplicateCount?: number;
+    errorMessage?: string;
+
+    // Card the statement belongs to, detected from its text or confirmed by the user
+    cardId?: string | null;
+    cardDetectionConfidence?: number | null;
+    cardConfirmed?: boolean;
+    card?: CardOption | null;
+    cardVariant?: string | null;
+
+    // Rewards summary as printed on the statement (null where it wasn't shown)
+    rewardsSummary?: {
+        pointsEarned: number | null;
+        pointsRedeemed: number | null;
+        closingPoints: number | null;
+        cashbackCredited: number | null;
+    };
+
+    // How the extracted transactions reconcile with the statement's printed totals
+    reconciliationStatus?: 'reconciled' | 'mismatch' | 'unavailable' | null;
+    reconciliationScore?: number | null;
+}
+
+// Catalog card offered when confirming which card a statement belongs to
+export interface CardOption {
+    id: string;
+    slug: string;
+    name: string;
+    issuer?: { name: string };
 }
 
 // Job Status Types
@@ -95,6 +138,19 @@ export interface CreditCardRecommendation {
     benefitBreakdown: BenefitBreakdown[];
     confidenceScore: number;
 
+    // Gain over the best card the user already holds (only when owned cards are given)
+    baselineCardId?: string;
+    baselineCardName?: string;
+    incrementalEarnings?: number;     // Statement period earnings gained over the owned card (negative when it earns less)
+    incrementalAnnualValue?: number;  // Annualized gain after this card's fee
+
+    // Year-by-year value over the first five years of holding the card
+    valueTimeline?: ValueTimelineYear[];
+    horizonNetValue?: number;         // Cumulative net value at the requested horizon
+
+    // Gain over what the user's current cards earned on the same statements
+    earningsOverCurrentCards?: number;
+
     // Optional detailed breakdown
     scoreBreakdown?: ScoreBreakdown;
 
@@ -111,6 +167,17 @@ export interface CreditCardRecommendation {
     card: EnhancedCreditCard;
 }
 
+export interface ValueTimelineYear {
+    year: number;
+    rewardEarnings: number;
+    milestoneValue: number;
+    welcomeBonus: number;
+    fee: number;
+    feeWaived: boolean;
+    netValue: number;
+    cumulativeNetValue: number;
+}
+
 export interface BenefitBreakdown {
     category: string;
     currentRate: number;
@@ -119,7 +186,22 @@ export interface BenefitBreakdown {
     earnedPoints: number;
     dollarValue: number;
     savingsAmount?: number;
-    monthlyCap?: number; // Monthly capping limit for rewards
+    monthlyCap?: number; // Capping limit for rewards, applied once per cappingPeriod
+    cappingPeriod?: string; // monthly, quarterly, yearly
+    uncappedValue?: number;
+    periodBreakdown?: PeriodEarnings[];
+    lineType?: 'category' | 'milestone' | 'fuel_surcharge_waiver' | 'foreign_markup' | 'excluded' | 'points_expiry';
+    note?: string;
+}
+
+export interface PeriodEarnings {
+    periodKey: string;
+    periodStart: string;
+    periodEnd: string;
+    spentAmount: number;
+    uncappedEarnings: number;
+    cappedEarnings: number;
+    capReached: boolean;
 }
 
 export interface ScoreBreakdown {
@@ -216,7 +298,30 @@ export interface RewardStructure {
     rewardCurrency: string;
     baseRewardRate: number;
     pointsExpiry?: number;
-    redemptionOptions: string[];
+    redemptionOptions?: RedemptionOption[];
+}
+
+export type RedemptionType =
+    | 'statement_credit'
+    | 'cashback'
+    | 'vouchers'
+    | 'catalogue'
+    | 'travel_booking'
+    | 'air_miles'
+    | 'hotel_points';
+
+// How the user redeems points, which decides the redemption path points are valued by
+export type RedemptionStyle = 'cash_like' | 'travel_maximizer';
+
+// One way to redeem the card's reward units
+export interface RedemptionOption {
+    type: RedemptionType;
+    description: string;
+    conversionRate: number; // Rupees per reward unit, or partner units per reward unit for transfers
+    partnerUnitValue?: number; // Rupee value of one partner mile/point (transfers only)
+    transferPartners?: string[];
+    fee?: number; // Rupees charged per redemption
+    minimumPoints?: number; // Smallest redemption allowed
 }
 
 export interface AdditionalBenefit {
@@ -287,6 +392,26 @@ export interface RecommendationSummary {
     potentialSavings?: number;
 }
 
+// What a card the user already holds earned on the transactions charged to it
+export interface CurrentCardEarnings {
+    cardId: string;
+    cardName: string;
+    issuerName?: string;
+    spend: number;
+    earnings: number;
+    earningsSource: 'statement' | 'modeled';  // Reported on the statements' rewards summary, or estimated
+    modeledEarnings: number;
+    reportedEarnings?: number;
+    transactionCount: number;
+}
+
+export interface CurrentCardsSummary {
+    cards: CurrentCardEarnings[];
+    totalSpend: number;
+    totalEarnings: number;
+    unattributedSpend: number;  // Spend on statements whose card couldn't be identified
+}
+
 export interface RecommendationResponse {
     sessionToken: string;
     recommendations: CreditCardRecommendation[];
@@ -296,12 +421,16 @@ export interface RecommendationResponse {
     totalCards: number;
     processingTimeMs: number;
     generatedAt: string;
+    currentCards?: CurrentCardsSummary;
     sessionSummary: {
         totalSpend: number;
         topCategory: string;
         totalTransactions: number;
         statementStartDate?: string | Date;
         statementEndDate?: string | Date;
+        statementDate?: string | Date;
+        paymentDueDate?: string | Date;
+        billingCycleSource?: 'statement_period' | 'statement_date' | 'transactions';
     };
     fallback?: boolean;
 }
@@ -412,10 +541,18 @@ export interface UploadResponse {
     fileName: string;
     fileSize: number;
     uploadedAt: string;
-    jobId: string;
+    jobId: string | null;
+    passwordRequired?: boolean;  // Some statements are waiting for their password
     validation: FileValidationResult;
+    statements?: Array<Pick<StatementSummary, 'id' | 'fileName' | 'status' | 'errorMessage'> & {
+        fileSize: number;
+        jobId: string | null;
+        errorCode?: PdfPasswordErrorCode;
+    }>;
 }
 
+export type PdfPasswordErrorCode = 'PDF_PASSWORD_REQUIRED' | 'PDF_PASSWORD_INCORRECT';
+
 // Error Types
 export interface ApiError {
     message: string;